@@ -1,10 +1,223 @@
 import {CacheCheck} from "../model/cacheCheck";
 import {DateRange} from "../model/dateRange";
+import {CloudEvent} from "../model/events/cloudEvent";
+import {CalendarAccount} from "../model/cloudCalendar/calendarAccount";
+import {readFileSync, writeFileSync} from "fs";
+
+// A contiguous span of whole days (both ends included) already fetched from the cloud
+interface CacheSegment {
+	startDay: number;
+	endDay: number;
+	fetchedAt: number;
+	cloudEvents: CloudEvent[];
+}
 
 class CacheController {
-	// TODO: Implement
-	checkCache(dateRange: DateRange): CacheCheck {
-		return new CacheCheck([dateRange], []);
+	// Map that connects a calendar key with the list of fetched segments
+	private readonly _calendarSegmentMap: Map<string, CacheSegment[]>;
+	// Same structure, but never expired nor invalidated: it mirrors the cache file
+	// and it's used to render the calendar views when the provider can't be reached
+	private readonly _persistedSegmentMap: Map<string, CacheSegment[]>;
+	private readonly _ttlMilli: number;
+	private readonly _milliInDay: number;
+	private readonly _cacheFileVersion: number;
+	private _pluginPath: string;
+
+	constructor() {
+		this._calendarSegmentMap = new Map<string, CacheSegment[]>();
+		this._persistedSegmentMap = new Map<string, CacheSegment[]>();
+		// Five minutes
+		this._ttlMilli = 5 * 60 * 1000;
+		this._milliInDay = 1000 * 3600 * 24;
+		// Bump it whenever the file structure changes: older files will be discarded
+		this._cacheFileVersion = 2;
+	}
+
+	injectPath(pluginPath: string){
+		this._pluginPath = pluginPath;
+	}
+
+	init(){
+		const cacheFilePath = this._pluginPath + "/.eventCache.json";
+		try {
+			const cacheFile = JSON.parse(readFileSync(cacheFilePath).toString());
+			if (cacheFile.version != this._cacheFileVersion) return;
+			Object.entries(cacheFile.calendars).forEach(calendarEntry => {
+				const segments = (calendarEntry[1] as CacheSegment[]).map(segment => {
+					segment.cloudEvents.forEach(cloudEvent => {
+						cloudEvent.cloudEventStartDate = new Date(cloudEvent.cloudEventStartDate);
+						cloudEvent.cloudEventEndDate = new Date(cloudEvent.cloudEventEndDate);
+					})
+					return segment;
+				});
+				this._persistedSegmentMap.set(calendarEntry[0], segments);
+			})
+		} catch (e) {
+			if (e.code != 'ENOENT') console.error("Error loading the event cache");
+		}
+	}
+
+	checkCache(calendarKey: string, dateRange: DateRange): CacheCheck {
+		const segments = this.getValidSegments(calendarKey);
+		const startDay = this.toDay(dateRange.start);
+		const endDay = this.toDay(dateRange.end);
+
+		const missedDateRanges: DateRange[] = [];
+		let cursor = startDay;
+		// Segments are kept sorted and non-overlapping, a single pass finds the gaps
+		segments.forEach(segment => {
+			if (segment.endDay < cursor || segment.startDay > endDay) return;
+			if (segment.startDay > cursor) missedDateRanges.push(this.toDateRange(cursor, segment.startDay - 1));
+			cursor = Math.max(cursor, segment.endDay + 1);
+		})
+		if (cursor <= endDay) missedDateRanges.push(this.toDateRange(cursor, endDay));
+
+		return new CacheCheck(missedDateRanges, this.getSegmentEvents(segments, startDay, endDay));
+	}
+
+	// Offline fallback: returns whatever was persisted for the range and the date of the oldest fetch involved
+	checkPersistedCache(calendarKey: string, dateRange: DateRange): {cloudEvents: CloudEvent[], staleSince?: Date} {
+		const startDay = this.toDay(dateRange.start);
+		const endDay = this.toDay(dateRange.end);
+		const segments = (this._persistedSegmentMap.get(calendarKey) ?? [])
+			.filter(segment => segment.endDay >= startDay && segment.startDay <= endDay);
+		if (segments.length == 0) return {cloudEvents: []};
+		const oldestFetch = Math.min(...segments.map(segment => segment.fetchedAt));
+		return {
+			cloudEvents: this.getSegmentEvents(segments, startDay, endDay),
+			staleSince: new Date(oldestFetch)
+		};
+	}
+
+	cacheCloudEvents(calendarKey: string, dateRange: DateRange, cloudEvents: CloudEvent[]){
+		const segments = this.getValidSegments(calendarKey);
+		const newSegment = this.createSegment(dateRange, cloudEvents);
+		// Events cached in the refreshed span could have been deleted in the meanwhile
+		this.evictEvents(segments, newSegment);
+		segments.push(newSegment);
+		this._calendarSegmentMap.set(calendarKey, this.mergeSegments(segments));
+		const persistedSegments = this._persistedSegmentMap.get(calendarKey) ?? [];
+		this.evictEvents(persistedSegments, newSegment);
+		persistedSegments.push(this.createSegment(dateRange, cloudEvents));
+		this._persistedSegmentMap.set(calendarKey, this.mergeSegments(persistedSegments));
+		this.syncCacheFile();
+	}
+
+	// Drops everything cached for the calendar (or for every calendar if no key is given)
+	invalidate(calendarKey?: string){
+		if (calendarKey == undefined) this._calendarSegmentMap.clear();
+		else this._calendarSegmentMap.delete(calendarKey);
+	}
+
+	// Removes everything cached for the calendars of a removed account
+	forgetAccount(account: CalendarAccount){
+		const accountPrefix = `${account.id}-`;
+		[this._calendarSegmentMap, this._persistedSegmentMap].forEach(segmentMap => {
+			Array.from(segmentMap.keys())
+				.filter(calendarKey => calendarKey.startsWith(accountPrefix))
+				.forEach(calendarKey => segmentMap.delete(calendarKey));
+		})
+		this.syncCacheFile();
+	}
+
+	getCalendarKey(account: CalendarAccount): string {
+		return `${account.id}-${account.calendar}`;
+	}
+
+	private syncCacheFile(){
+		const cacheFilePath = this._pluginPath + "/.eventCache.json";
+		const cacheFile = {
+			version: this._cacheFileVersion,
+			calendars: Object.fromEntries(this._persistedSegmentMap.entries())
+		};
+		try {
+			writeFileSync(cacheFilePath, JSON.stringify(cacheFile));
+		} catch (e) {
+			console.error("Error syncing the event cache");
+		}
+	}
+
+	private createSegment(dateRange: DateRange, cloudEvents: CloudEvent[]): CacheSegment {
+		return {
+			startDay: this.toDay(dateRange.start),
+			endDay: this.toDay(dateRange.end),
+			fetchedAt: Date.now(),
+			cloudEvents: [...cloudEvents]
+		};
+	}
+
+	private getSegmentEvents(segments: CacheSegment[], startDay: number, endDay: number): CloudEvent[] {
+		const uuidCloudEventMap = new Map<string, CloudEvent>();
+		segments.forEach(segment => {
+			if (segment.endDay < startDay || segment.startDay > endDay) return;
+			segment.cloudEvents
+				.filter(cloudEvent => this.overlaps(cloudEvent, startDay, endDay))
+				.forEach(cloudEvent => uuidCloudEventMap.set(cloudEvent.cloudEventUUID, cloudEvent));
+		})
+		return Array.from(uuidCloudEventMap.values());
+	}
+
+	// Multi-day events belong to every day they cover, not only to the start one
+	private overlaps(cloudEvent: CloudEvent, startDay: number, endDay: number): boolean {
+		return cloudEvent.cloudEventStartDate < this.fromDay(endDay + 1) && cloudEvent.cloudEventEndDate > this.fromDay(startDay);
+	}
+
+	private getValidSegments(calendarKey: string): CacheSegment[] {
+		const now = Date.now();
+		const segments = (this._calendarSegmentMap.get(calendarKey) ?? []).filter(segment => now - segment.fetchedAt < this._ttlMilli);
+		this._calendarSegmentMap.set(calendarKey, segments);
+		return segments;
+	}
+
+	private evictEvents(segments: CacheSegment[], newSegment: CacheSegment){
+		segments.forEach(segment => {
+			segment.cloudEvents = segment.cloudEvents.filter(cloudEvent => !this.overlaps(cloudEvent, newSegment.startDay, newSegment.endDay));
+		})
+	}
+
+	// Sorts the segments and merges the overlapping or adjacent ones
+	private mergeSegments(segments: CacheSegment[]): CacheSegment[] {
+		const segmentGroups: CacheSegment[][] = [];
+		let groupEndDay: number;
+		segments.sort((a, b) => a.startDay - b.startDay).forEach(segment => {
+			const lastGroup = segmentGroups.last();
+			if (lastGroup == undefined || segment.startDay > groupEndDay + 1){
+				segmentGroups.push([segment]);
+				groupEndDay = segment.endDay;
+				return;
+			}
+			lastGroup.push(segment);
+			groupEndDay = Math.max(groupEndDay, segment.endDay);
+		})
+		return segmentGroups.map(segmentGroup => {
+			const uuidCloudEventMap = new Map<string, CloudEvent>();
+			// The most recent fetch wins
+			[...segmentGroup].sort((a, b) => a.fetchedAt - b.fetchedAt).forEach(segment => {
+				segment.cloudEvents.forEach(cloudEvent => uuidCloudEventMap.set(cloudEvent.cloudEventUUID, cloudEvent));
+			})
+			return {
+				startDay: segmentGroup[0].startDay,
+				endDay: Math.max(...segmentGroup.map(segment => segment.endDay)),
+				// The merged segment expires with its oldest part
+				fetchedAt: Math.min(...segmentGroup.map(segment => segment.fetchedAt)),
+				cloudEvents: Array.from(uuidCloudEventMap.values())
+			};
+		});
+	}
+
+	// Number of days since epoch, computed on the local midnight
+	private toDay(date: Date): number {
+		const localMidnight = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+		return Math.round((localMidnight.getTime() - localMidnight.getTimezoneOffset() * 60 * 1000) / this._milliInDay);
+	}
+
+	private toDateRange(startDay: number, endDay: number): DateRange {
+		return new DateRange(this.fromDay(startDay), this.fromDay(endDay));
+	}
+
+	private fromDay(day: number): Date {
+		const utcDate = new Date(day * this._milliInDay);
+		return new Date(utcDate.getUTCFullYear(), utcDate.getUTCMonth(), utcDate.getUTCDate());
 	}
 }
 
@@ -0,0 +1,261 @@
+import {CloudController} from "./cloudController";
+import {DateRange} from "../model/dateRange";
+import {CloudEvent} from "../model/events/cloudEvent";
+import {CloudStatus} from "../model/cloudCalendar/cloudStatus";
+import {SettingInterface} from "../plugin/appSetting";
+import {CaldavCalendar} from "../model/cloudCalendar/caldavCalendar";
+import {CaldavCalendarEvent} from "../model/events/caldavCalendarEvent";
+import {IcsMisc} from "../misc/icsMisc";
+import {requestUrl, RequestUrlParam, RequestUrlResponse} from "obsidian";
+import safeController from "./safeController";
+import calendarViewController from "./calendarViewController";
+
+// Generic CalDAV (RFC 4791) provider: Nextcloud, Radicale, Baïkal, Fastmail...
+export class CaldavCalendarController implements CloudController {
+	private _pluginPath: string;
+	private _accountId: string;
+	private _settings: SettingInterface;
+	private _serverUrl: string;
+	private _authorization: string;
+	private _calendars: CaldavCalendar[];
+	private _currentCalendar: CaldavCalendar;
+
+	constructor() {
+		this._calendars = [];
+	}
+
+	async managePushNotifications() {
+	}
+
+	async pushEvent(cloudEvent: CloudEvent, calendarName?: string): Promise<boolean> {
+		const caldavEvent = cloudEvent as CaldavCalendarEvent;
+		// Already pushed events are updated in place
+		if (caldavEvent.href != undefined) return await this.putEvent(caldavEvent, {"If-Match": caldavEvent.etag});
+		const calendar = this._calendars.filter(calendar => calendar.displayName == calendarName).first() ?? this._currentCalendar;
+		// Not logged in, or no calendar discovered
+		if (calendar == undefined){
+			console.warn("CalDAV: no calendar to push the event to");
+			return false;
+		}
+		caldavEvent.href = new URL(`${caldavEvent.uid}.ics`, calendar.href).toString();
+		const status = await this.putEvent(caldavEvent, {"If-None-Match": "*"});
+		if (!status) caldavEvent.href = undefined;
+		return status;
+	}
+
+	async updateEvent(cloudEvent: CloudEvent): Promise<boolean> {
+		const caldavEvent = cloudEvent as CaldavCalendarEvent;
+		// The resource holds the whole series: writing a single occurrence would replace it
+		if (caldavEvent.recurrenceId != undefined){
+			console.warn("CalDAV: the occurrences of recurring events can't be updated one by one");
+			return false;
+		}
+		caldavEvent.sequence = (caldavEvent.sequence ?? 0) + 1;
+		const status = await this.pushEvent(caldavEvent);
+		calendarViewController.postProcessorUpdate();
+		return status;
+	}
+
+	async deleteEvent(cloudEvent: CloudEvent): Promise<boolean> {
+		const caldavEvent = cloudEvent as CaldavCalendarEvent;
+		if (caldavEvent.href == undefined) return false;
+		const response = await this.executeRequest(caldavEvent.href, "DELETE", undefined, {"If-Match": caldavEvent.etag});
+		calendarViewController.postProcessorUpdate();
+		if (response.status == 412) console.warn("CalDAV conflict: the event has been modified on the server");
+		// Already deleted events are fine as well
+		return (response.status >= 200 && response.status < 300) || response.status == 404;
+	}
+
+	async getEvents(missedDateRange: DateRange): Promise<CloudEvent[]> {
+		if (this._currentCalendar == undefined) throw new Error("CalDAV calendar not discovered yet");
+		// The missed date range includes the whole end day
+		const rangeEnd = new Date(missedDateRange.end);
+		rangeEnd.setDate(rangeEnd.getDate() + 1);
+		const body = `<?xml version="1.0" encoding="utf-8" ?>
+			<c:calendar-query xmlns:d="DAV:" xmlns:c="urn:ietf:params:xml:ns:caldav">
+				<d:prop><d:getetag/><c:calendar-data/></d:prop>
+				<c:filter>
+					<c:comp-filter name="VCALENDAR">
+						<c:comp-filter name="VEVENT">
+							<c:time-range start="${IcsMisc.formatDate(missedDateRange.start)}" end="${IcsMisc.formatDate(rangeEnd)}"/>
+						</c:comp-filter>
+					</c:comp-filter>
+				</c:filter>
+			</c:calendar-query>`;
+		const response = await this.executeRequest(this._currentCalendar.href, "REPORT", body, {Depth: "1"});
+		if (response.status != 207) throw new Error(`CalDAV calendar-query error: ${response.status}`);
+		const caldavEvents: CaldavCalendarEvent[] = [];
+		this.getResponses(response.text).forEach(responseElement => {
+			const calendarData = this.getPropText(responseElement, "urn:ietf:params:xml:ns:caldav", "calendar-data");
+			if (calendarData == undefined) return;
+			const href = new URL(this.getPropText(responseElement, "DAV:", "href"), this._serverUrl).toString();
+			const etag = this.getPropText(responseElement, "DAV:", "getetag");
+			// Recurring events are returned once, with their exceptions: their occurrences are expanded here
+			const eventsLines = IcsMisc.splitCalendar(calendarData).events;
+			IcsMisc.expandEvents(eventsLines, missedDateRange.start, rangeEnd).forEach(icsEvent => {
+				const caldavEvent = icsEvent as CaldavCalendarEvent;
+				caldavEvent.href = href;
+				caldavEvent.etag = etag;
+				caldavEvents.push(caldavEvent);
+			})
+		})
+		return caldavEvents;
+	}
+
+	injectPath(pluginPath: string) {
+		this._pluginPath = pluginPath;
+	}
+
+	injectAccountId(accountId: string) {
+		this._accountId = accountId;
+	}
+
+	injectSettings(settings: SettingInterface) {
+		this._settings = settings;
+		this.selectCurrentCalendar();
+	}
+
+	async tryAuthentication(auth: Map<string, string>): Promise<CloudStatus> {
+		if (auth == undefined) return CloudStatus.ERROR;
+		const serverUrl = auth.get("caldavServerUrl");
+		const username = auth.get("caldavUsername");
+		const password = auth.get("caldavPassword");
+		if (!serverUrl || !username || !password) return CloudStatus.ERROR;
+		this._serverUrl = serverUrl.endsWith("/") ? serverUrl : `${serverUrl}/`;
+		this._authorization = `Basic ${Buffer.from(`${username}:${password}`).toString("base64")}`;
+		try {
+			const calendarHomeHref = await this.discoverCalendarHome();
+			if (calendarHomeHref == undefined) return CloudStatus.ERROR;
+			this._calendars = await this.discoverCalendars(calendarHomeHref);
+			if (this._calendars.length == 0) return CloudStatus.ERROR;
+			this.selectCurrentCalendar();
+			const credentialMap = new Map<string, string>();
+			credentialMap.set("caldavServerUrl", this._serverUrl);
+			credentialMap.set("caldavUsername", username);
+			credentialMap.set("caldavPassword", password);
+			safeController.storeCredentials(credentialMap, this._accountId);
+			return CloudStatus.LOGGED;
+		} catch (e) {
+			console.warn("Error during CalDAV authentication", e);
+			return CloudStatus.ERROR;
+		}
+	}
+
+	async preloadData() {
+		// Calendars are discovered during the authentication
+	}
+
+	getCalendarNames() {
+		return this._calendars.map(calendar => calendar.displayName);
+	}
+
+	private selectCurrentCalendar() {
+		if (this._calendars.length == 0) return;
+		const matchingCalendar = this._settings == undefined ? undefined :
+			this._calendars.filter(calendar => calendar.displayName == this._settings.calendar).first();
+		this._currentCalendar = matchingCalendar ?? this._calendars.first();
+	}
+
+	// Server URL -> current-user-principal -> calendar-home-set
+	private async discoverCalendarHome(): Promise<string | undefined> {
+		const principalBody = `<?xml version="1.0" encoding="utf-8" ?>
+			<d:propfind xmlns:d="DAV:"><d:prop><d:current-user-principal/></d:prop></d:propfind>`;
+		const principalResponse = await this.executeRequest(this._serverUrl, "PROPFIND", principalBody, {Depth: "0"});
+		if (principalResponse.status != 207) {
+			console.warn("CalDAV principal discovery error", principalResponse.status);
+			return undefined;
+		}
+		const principalHref = this.getNestedHref(principalResponse.text, "DAV:", "current-user-principal");
+		if (principalHref == undefined) return undefined;
+
+		const homeBody = `<?xml version="1.0" encoding="utf-8" ?>
+			<d:propfind xmlns:d="DAV:" xmlns:c="urn:ietf:params:xml:ns:caldav"><d:prop><c:calendar-home-set/></d:prop></d:propfind>`;
+		const homeResponse = await this.executeRequest(new URL(principalHref, this._serverUrl).toString(), "PROPFIND", homeBody, {Depth: "0"});
+		if (homeResponse.status != 207) {
+			console.warn("CalDAV calendar home discovery error", homeResponse.status);
+			return undefined;
+		}
+		const homeHref = this.getNestedHref(homeResponse.text, "urn:ietf:params:xml:ns:caldav", "calendar-home-set");
+		if (homeHref == undefined) return undefined;
+		return new URL(homeHref, this._serverUrl).toString();
+	}
+
+	private async discoverCalendars(calendarHomeHref: string): Promise<CaldavCalendar[]> {
+		const body = `<?xml version="1.0" encoding="utf-8" ?>
+			<d:propfind xmlns:d="DAV:" xmlns:c="urn:ietf:params:xml:ns:caldav" xmlns:cs="http://calendarserver.org/ns/">
+				<d:prop><d:resourcetype/><d:displayname/><cs:getctag/><c:supported-calendar-component-set/></d:prop>
+			</d:propfind>`;
+		const response = await this.executeRequest(calendarHomeHref, "PROPFIND", body, {Depth: "1"});
+		if (response.status != 207) {
+			console.warn("CalDAV calendar discovery error", response.status);
+			return [];
+		}
+		const calendars: CaldavCalendar[] = [];
+		this.getResponses(response.text).forEach(responseElement => {
+			const isCalendar = responseElement.getElementsByTagNameNS("urn:ietf:params:xml:ns:caldav", "calendar").length > 0;
+			if (!isCalendar) return;
+			// Skip task lists and other collections that can't hold events
+			const components = Array.from(responseElement.getElementsByTagNameNS("urn:ietf:params:xml:ns:caldav", "comp"));
+			if (components.length > 0 && !components.some(component => component.getAttribute("name") == "VEVENT")) return;
+			const href = new URL(this.getPropText(responseElement, "DAV:", "href"), this._serverUrl).toString();
+			calendars.push({
+				href: href.endsWith("/") ? href : `${href}/`,
+				displayName: this.getPropText(responseElement, "DAV:", "displayname") || href.split("/").filter(part => part.length > 0).last(),
+				ctag: this.getPropText(responseElement, "http://calendarserver.org/ns/", "getctag")
+			});
+		})
+		return calendars;
+	}
+
+	private async putEvent(caldavEvent: CaldavCalendarEvent, extraHeaders: Record<string, string>): Promise<boolean> {
+		const body = IcsMisc.wrapEvent(IcsMisc.toIcsLines(caldavEvent));
+		const headers = {"Content-Type": "text/calendar; charset=utf-8", ...extraHeaders};
+		const response = await this.executeRequest(caldavEvent.href, "PUT", body, headers);
+		if (response.status == 412) console.warn("CalDAV conflict: the event has been modified on the server");
+		if (response.status < 200 || response.status >= 300) return false;
+		// Some servers don't return the new ETag: the next update will be unconditional
+		caldavEvent.etag = this.getHeader(response, "etag");
+		return true;
+	}
+
+	private async executeRequest(url: string, method: string, body?: string, extraHeaders?: Record<string, string>): Promise<RequestUrlResponse> {
+		const headers = {
+			Authorization: this._authorization,
+			"Content-Type": "application/xml; charset=utf-8",
+			...extraHeaders
+		};
+		Object.keys(headers).forEach(key => {
+			if (headers[key] == undefined) delete headers[key];
+		})
+		const requestUrlParam = {
+			url,
+			method,
+			headers,
+			body,
+			throw: false
+		} as RequestUrlParam;
+		return await requestUrl(requestUrlParam);
+	}
+
+	private getHeader(response: RequestUrlResponse, name: string): string | undefined {
+		const headerKey = Object.keys(response.headers).filter(key => key.toLowerCase() == name).first();
+		return headerKey == undefined ? undefined : response.headers[headerKey];
+	}
+
+	private getResponses(xml: string): Element[] {
+		const document = new DOMParser().parseFromString(xml, "application/xml");
+		return Array.from(document.getElementsByTagNameNS("DAV:", "response"));
+	}
+
+	private getPropText(element: Element, namespace: string, name: string): string | undefined {
+		const propElement = element.getElementsByTagNameNS(namespace, name)[0];
+		return propElement == undefined ? undefined : propElement.textContent.trim();
+	}
+
+	private getNestedHref(xml: string, namespace: string, name: string): string | undefined {
+		const document = new DOMParser().parseFromString(xml, "application/xml");
+		const propElement = document.getElementsByTagNameNS(namespace, name)[0];
+		if (propElement == undefined) return undefined;
+		return this.getPropText(propElement, "DAV:", "href");
+	}
+}
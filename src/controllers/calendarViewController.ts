@@ -18,8 +18,8 @@ class CalendarViewController {
 			const codeComponent = codeComponents[i];
 			const eventList = await calendarViewController.getEventList(codeComponent);
 			if (!eventList) return;
-			eventList.forEach((cloudEvent) => calendarViewController.cloudEventUUIDMap.set(cloudEvent.cloudEventUUID, cloudEvent));
-			const calendarViewData = new CalendarViewData(new DateRange(new Date(codeComponent.from), new Date(codeComponent.to)), eventList);
+			eventList.cloudEvents.forEach((cloudEvent) => calendarViewController.cloudEventUUIDMap.set(cloudEvent.cloudEventUUID, cloudEvent));
+			const calendarViewData = new CalendarViewData(new DateRange(new Date(codeComponent.from), new Date(codeComponent.to)), eventList.cloudEvents, eventList.staleSince);
 			if (!codeComponent.codeBlock) return null;
 			const calendarView = new CalendarView(codeComponent.codeBlock, calendarViewData, calendarViewController.dropCallback);
 			context.addChild(calendarView);
@@ -76,7 +76,7 @@ class CalendarViewController {
 		return matches.filter(match => match.length > 4).first();
 	}
 
-	private async getEventList(codeComponents: { from; to }): Promise<CloudEvent[] | []> {
+	private async getEventList(codeComponents: { from; to }): Promise<{cloudEvents: CloudEvent[], staleSince?: Date}> {
 		const dateRange = new DateRange(new Date(codeComponents.from), new Date(codeComponents.to));
 		return await eventController.getEventsFromRange(dateRange);
 	}
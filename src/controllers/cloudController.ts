@@ -4,14 +4,19 @@ import {SettingInterface} from "../plugin/appSetting";
 import {CloudStatus} from "../model/cloudCalendar/cloudStatus";
 
 export interface CloudController {
-	pushEvent(cloudEvent: CloudEvent): Promise<boolean>;
+	// The calendar name overrides the one selected in the settings
+	pushEvent(cloudEvent: CloudEvent, calendarName?: string): Promise<boolean>;
 
-	updateEvent(cloudEvent: CloudEvent): Promise<boolean>;
+	updateEvent(cloudEvent: CloudEvent, calendarName?: string): Promise<boolean>;
+
+	deleteEvent(cloudEvent: CloudEvent, calendarName?: string): Promise<boolean>;
 
 	getEvents(missedDateRange: DateRange): Promise<CloudEvent[]>;
 
 	injectPath(pluginPath: string);
 
+	injectAccountId(accountId: string);
+
 	injectSettings?(settings: SettingInterface);
 
 	tryAuthentication(auth: Map<string,string>): Promise<CloudStatus>;
@@ -23,4 +28,7 @@ export interface CloudController {
 	getCalendarNames();
 
 	managePushNotifications(): void;
+
+	// Called when the account is removed or the plugin unloaded
+	stopPushNotifications?(): void;
 }
@@ -0,0 +1,49 @@
+import {normalizePath, parseFrontMatterAliases} from "obsidian";
+import {Misc} from "../misc/misc";
+import {SettingInterface} from "../plugin/appSetting";
+import {Attendee} from "../model/attendee";
+
+// Contacts are the notes of the contacts folder with an email in their frontmatter
+// e.g. People/Anna Smith.md -> email: anna@example.com
+class ContactController {
+	private _settings: SettingInterface;
+	// Lower case name (full name, first name or alias) -> contact
+	private _contacts: Map<string, Attendee>;
+
+	injectSettings(settings: SettingInterface) {
+		this._settings = settings;
+		this.invalidate();
+	}
+
+	// The contacts are reloaded lazily after a change in the vault
+	invalidate() {
+		this._contacts = undefined;
+	}
+
+	getContact(name: string): Attendee | undefined {
+		if (this._contacts == undefined) this.loadContacts();
+		return this._contacts.get(name.trim().toLowerCase());
+	}
+
+	private loadContacts() {
+		this._contacts = new Map<string, Attendee>();
+		if (Misc.app == undefined || this._settings == undefined || !this._settings.contactsFolder) return;
+		const folderPrefix = `${normalizePath(this._settings.contactsFolder)}/`;
+		Misc.app.vault.getMarkdownFiles().filter(file => file.path.startsWith(folderPrefix)).forEach(file => {
+			const frontmatter = Misc.app.metadataCache.getFileCache(file)?.frontmatter;
+			const email = frontmatter?.email;
+			if (typeof email != "string" || email.length == 0) return;
+			const contact = {name: file.basename, email};
+			const names = [file.basename, ...(parseFrontMatterAliases(frontmatter) ?? [])];
+			names.forEach(name => this._contacts.set(name.toLowerCase(), contact));
+			// Full names can be referred to by the first name only, unless someone else has that name
+			names.forEach(name => {
+				const firstName = name.split(" ").first().toLowerCase();
+				if (!this._contacts.has(firstName)) this._contacts.set(firstName, contact);
+			})
+		})
+	}
+}
+
+const contactController = new ContactController();
+export default contactController;
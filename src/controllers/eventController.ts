@@ -7,6 +7,12 @@ import cacheController from "./cacheController";
 import {CloudController} from "./cloudController";
 import {CloudEvent} from "../model/events/cloudEvent";
 import {CloudEventFactory} from "../model/events/cloudEventFactory";
+import {SettingInterface} from "../plugin/appSetting";
+import {CalendarAccount} from "../model/cloudCalendar/calendarAccount";
+import {RemovedSentenceAction} from "../model/removedSentenceAction";
+import {DeleteEventModal} from "../plugin/deleteEventModal";
+import {Misc} from "../misc/misc";
+import {EventEdits} from "../model/eventEdits";
 
 class EventController{
 	// Map that connects the file path to the list of events
@@ -15,20 +21,50 @@ class EventController{
 	private readonly _uuidEventMap: Map<string, Event>;
 	private _currentEvent : Event;
 	private _pluginPath: string;
-	private _cloudController: CloudController;
+	// Map that connects an account id with the controller of its logged in provider
+	private readonly _cloudControllers: Map<string, CloudController>;
 	private _cloudEventFactory: CloudEventFactory;
+	private _settings: SettingInterface;
+	// UUIDs of the removed events waiting for the user's answer
+	private readonly _pendingDeletions: Set<string>;
+	// Minimum word similarity between an edited sentence and the synced one
+	private readonly _editSimilarityThreshold: number;
+	// Map that connects a synced event's UUID with its edited sentence, not synced yet (see editCheck)
+	private readonly _pendingEdits: Map<string, string>;
 
 	constructor() {
 		this._pathEventMap = new Map<string, Event[]>();
 		this._uuidEventMap = new Map<string, Event>();
+		this._cloudControllers = new Map<string, CloudController>();
+		this._pendingDeletions = new Set<string>();
+		this._editSimilarityThreshold = 0.5;
+		this._pendingEdits = new Map<string, string>();
 	}
 
 	injectPath(pluginPath: string){
 		this._pluginPath = pluginPath;
 	}
 
-	injectCloudController(cloudController: CloudController){
-		this._cloudController = cloudController;
+	injectSettings(settings: SettingInterface){
+		this._settings = settings;
+	}
+
+	injectCloudController(accountId: string, cloudController: CloudController){
+		this._cloudControllers.set(accountId, cloudController);
+	}
+
+	removeCloudController(accountId: string){
+		this._cloudControllers.delete(accountId);
+	}
+
+	getCalendarNames(accountId?: string): string[] {
+		return this.getCloudController(accountId)?.getCalendarNames() ?? [];
+	}
+
+	// Accounts whose provider is logged in
+	getAccounts(): CalendarAccount[] {
+		if (this._settings == undefined) return [];
+		return this._settings.accounts.filter(account => this._cloudControllers.has(account.id));
 	}
 
 	injectCloudControllerFactory(cloudEventFactory: CloudEventFactory){
@@ -96,18 +132,52 @@ class EventController{
 		return filteredEvents[0];
 	}
 
+	// Third check: a synced sentence that has been edited (e.g. "at 3" -> "at 4") is no longer in the document,
+	// but the new one keeps most of its words and either its event noun or its start date
+	editCheck(sentence: Sentence, documentText?: string): Event | null {
+		const events = this._pathEventMap.get(sentence.filePath);
+		if (events == undefined || documentText == undefined) return null;
+		const filteredEvents = events.filter(event => {
+			return event.synced && !documentText.contains(event.sentence.value) &&
+				(sentence.eventNoun == event.sentence.eventNoun || sentence.startDate.getTime() == event.sentence.startDate.getTime()) &&
+				Misc.getWordSimilarity(sentence.value, event.sentence.value) >= this._editSimilarityThreshold
+		});
+		if (filteredEvents.length == 0) return null;
+		// Until the update is synced, the edited sentence stands for the synced one (see checkRemovedSentences)
+		this._pendingEdits.set(filteredEvents[0].value.cloudEventUUID, sentence.value.toLowerCase());
+		return filteredEvents[0];
+	}
+
 	createNewEvent(sentence: Sentence): Event {
 		const cloudEvent = this._cloudEventFactory.createNewCloudEvent(sentence);
 		const newEvent = new Event(cloudEvent, sentence);
+		const routingRule = this._cloudEventFactory.getRoutingRule(sentence);
+		if (routingRule != undefined && routingRule.accountId == cloudEvent.accountId) newEvent.calendar = routingRule.calendar;
 		this._currentEvent = newEvent;
 		return newEvent;
 	}
 
-	processEvent(filePath: string, sync: boolean){
-		if (this._cloudController == undefined){
+	// Values fixed in the event preview: the cloud event is created again from the edited sentence
+	applyEventEdits(event: Event, edits: EventEdits){
+		event.sentence.injectSemanticFields(edits.startDate, edits.endDate, edits.title, event.sentence.allDay);
+		event.sentence.description = edits.description;
+		const account = this.getAccounts().filter(account => account.id == event.value.accountId).first();
+		event.value = this._cloudEventFactory.createNewCloudEvent(event.sentence, account);
+		if (edits.calendar != undefined) event.calendar = edits.calendar;
+	}
+
+	// The event defaults to the last created one, lines with more than one event pass their own
+	processEvent(filePath: string, sync: boolean, accountId?: string, calendar?: string, selectedEvent?: Event){
+		if (this._cloudControllers.size == 0){
 			new Notice("Please select your calendar provider first!");
 			return;
 		}
+		if (selectedEvent != undefined) this._currentEvent = selectedEvent;
+		const account = this.getAccounts().filter(account => account.id == accountId).first();
+		// Each provider needs its own event structure
+		if (account != undefined && account.id != this._currentEvent.value.accountId)
+			this._currentEvent.value = this._cloudEventFactory.createNewCloudEvent(this._currentEvent.sentence, account);
+		if (calendar != undefined) this._currentEvent.calendar = calendar;
 		const fileEvents = this._pathEventMap.get(filePath);
 		if (fileEvents == undefined){
 			this._pathEventMap.set(filePath, [this._currentEvent])
@@ -120,9 +190,21 @@ class EventController{
 		// Syncing local storage - Needed to remember which events have been already processed
 		this.syncLocalStorageEventLog(filePath, this._currentEvent);
 		if (!sync) return;
-		// Request to sync -> Push event to iCloud
-		this._cloudController.pushEvent(this._currentEvent.value).then((status => {
-			if (status) new Notice("📅 The event has been synchronized!")
+		const cloudController = this.getCloudController(this._currentEvent.value.accountId);
+		if (cloudController == undefined){
+			new Notice("🤷 The account of the event is not logged in...");
+			return;
+		}
+		// Request to sync -> Push event to the account's calendar
+		const event = this._currentEvent;
+		cloudController.pushEvent(event.value, event.calendar).then((status => {
+			cacheController.invalidate();
+			if (status) {
+				event.synced = true;
+				// The push could have assigned the provider's identifiers
+				this.rewriteLocalStorageEventLog();
+				new Notice("📅 The event has been synchronized!")
+			}
 			else new Notice("🤷 There has been an error synchronizing the event...")
 		}));
 		this.updateCounter();
@@ -141,6 +223,114 @@ class EventController{
 		}
 	}
 
+	// Rewrites the whole log, needed when events are modified or removed
+	private rewriteLocalStorageEventLog() {
+		const pathEventMapFilePath = this._pluginPath + "/.pathEventMap.txt";
+		const uuidEventMapFilePath = this._pluginPath + "/.uuidEventMap.txt";
+		try {
+			let pathEventMapData = "";
+			this._pathEventMap.forEach((events, eventFilePath) => {
+				events.forEach(event => pathEventMapData += `{"${eventFilePath}":${JSON.stringify(event)}}\n`);
+			})
+			writeFileSync(pathEventMapFilePath, pathEventMapData);
+			let uuidEventMapData = "";
+			this._uuidEventMap.forEach((event, uuid) => uuidEventMapData += `{"${uuid}":${JSON.stringify(event)}}\n`);
+			writeFileSync(uuidEventMapFilePath, uuidEventMapData);
+		} catch (e) {
+			console.error("Error syncing local event log");
+		}
+	}
+
+	// Looks for the synced events whose sentence is no longer in the note (or has been struck through)
+	checkRemovedSentences(filePath: string, fileContent: string) {
+		const fileEvents = this._pathEventMap.get(filePath);
+		if (fileEvents == undefined || this._settings.removedSentenceAction == RemovedSentenceAction.KEEP) return;
+		const lines = fileContent.split("\n").map(line => line.replace(/~~.*?~~/g, "").toLowerCase());
+		const removedEvents = fileEvents.filter(event => event.synced && !this.isSentencePresent(event, lines));
+		removedEvents.forEach(event => {
+			if (this._settings.removedSentenceAction == RemovedSentenceAction.DELETE){
+				this.deleteEvent(filePath, event);
+				return;
+			}
+			const uuid = event.value.cloudEventUUID;
+			if (this._pendingDeletions.has(uuid)) return;
+			this._pendingDeletions.add(uuid);
+			new DeleteEventModal(Misc.app, event, (deleteEvent) => {
+				this._pendingDeletions.delete(uuid);
+				if (deleteEvent) this.deleteEvent(filePath, event);
+				// The event won't be tracked anymore: the question won't be asked again
+				else this.forgetEvent(filePath, event);
+			}).open();
+		})
+	}
+
+	// Edited sentences are still there: either editCheck has already matched them or, as it does,
+	// a sentence of the same line keeps the event noun and most of the words. Lines can hold more than one sentence
+	private isSentencePresent(event: Event, lowerCaseLines: string[]): boolean {
+		const value = event.sentence.value.toLowerCase();
+		const editedValue = this._pendingEdits.get(event.value.cloudEventUUID);
+		const eventNoun = event.sentence.eventNoun?.toLowerCase();
+		return lowerCaseLines.some(line => line.contains(value) || (editedValue != undefined && line.contains(editedValue)) ||
+			line.split(/(?<=[.!?])\s+/).some(lineSentence => eventNoun != undefined && lineSentence.contains(eventNoun) &&
+				Misc.getWordSimilarity(lineSentence, value) >= this._editSimilarityThreshold));
+	}
+
+	// The synced event takes the semantic fields of the edited sentence
+	updateEditedEvent(syncedEvent: Event, editedEvent: Event) {
+		const cloudController = this.getCloudController(syncedEvent.value.accountId);
+		if (cloudController == undefined){
+			new Notice("🤷 The account of the event is not logged in...");
+			return;
+		}
+		syncedEvent.sentence = editedEvent.sentence;
+		this._pendingEdits.delete(syncedEvent.value.cloudEventUUID);
+		const updateMap = new Map<string, string>();
+		updateMap.set("cloudEventTitle", editedEvent.sentence.eventNoun);
+		updateMap.set("cloudEventStartDate", editedEvent.sentence.startDate.toISOString());
+		updateMap.set("cloudEventEndDate", editedEvent.sentence.endDate.toISOString());
+		updateMap.set("location", editedEvent.sentence.location ?? "");
+		if (editedEvent.sentence.description != undefined) updateMap.set("description", editedEvent.sentence.description);
+		this._cloudEventFactory.updateCloudEvent(syncedEvent.value, updateMap);
+		this._cloudEventFactory.updateSentenceFields(syncedEvent.value, editedEvent.sentence);
+		// After a reload the two maps hold different instances of the same event
+		this._uuidEventMap.set(syncedEvent.value.cloudEventUUID, syncedEvent);
+		this.rewriteLocalStorageEventLog();
+		cacheController.invalidate();
+		cloudController.updateEvent(syncedEvent.value, syncedEvent.calendar).then((status => {
+			if (status) {
+				this.rewriteLocalStorageEventLog();
+				new Notice("📅 The event has been updated!")
+			}
+			else new Notice("🤷 There has been an error updating the event...")
+		}));
+	}
+
+	async deleteEvent(filePath: string, event: Event) {
+		const cloudController = this.getCloudController(event.value.accountId);
+		if (cloudController == undefined){
+			new Notice("🤷 The account of the event is not logged in...");
+			return;
+		}
+		const status = await cloudController.deleteEvent(event.value, event.calendar);
+		cacheController.invalidate();
+		if (!status) {
+			new Notice("🤷 There has been an error deleting the event...");
+			return;
+		}
+		this.forgetEvent(filePath, event);
+		new Notice("🗑️ The event has been deleted!");
+	}
+
+	private forgetEvent(filePath: string, event: Event) {
+		const uuid = event.value.cloudEventUUID;
+		const fileEvents = (this._pathEventMap.get(filePath) ?? []).filter(fileEvent => fileEvent.value.cloudEventUUID != uuid);
+		if (fileEvents.length == 0) this._pathEventMap.delete(filePath);
+		else this._pathEventMap.set(filePath, fileEvents);
+		this._uuidEventMap.delete(uuid);
+		this._pendingEdits.delete(uuid);
+		this.rewriteLocalStorageEventLog();
+	}
+
 	// This method sends a body-less post request to an internal server to notify the synchronisation request
 	// The purpose is to publish on the README page a badge with the number of synced requests
 	private updateCounter() {
@@ -155,25 +345,63 @@ class EventController{
 		}
 	}
 
-	async getEventsFromRange(dateRange: DateRange): Promise<CloudEvent[]> {
-		const cacheCheck = cacheController.checkCache(dateRange);
-		if (cacheCheck.missedDateRanges.length == 0) return cacheCheck.cachedCloudEvents;
+	// Merges the events of every logged in account
+	async getEventsFromRange(dateRange: DateRange): Promise<{cloudEvents: CloudEvent[], staleSince?: Date}> {
+		const cloudEvents: CloudEvent[] = [];
+		let staleSince: Date;
+		// Accounts that couldn't log in (e.g. the app started offline) show their persisted events
+		const accounts = this._settings.accounts;
+		for (let i=0; i<accounts.length; i++){
+			const accountEvents = this._cloudControllers.has(accounts[i].id) ?
+				await this.getAccountEventsFromRange(accounts[i], dateRange) :
+				cacheController.checkPersistedCache(cacheController.getCalendarKey(accounts[i]), dateRange);
+			accountEvents.cloudEvents.forEach(cloudEvent => cloudEvents.push(cloudEvent));
+			if (accountEvents.staleSince != undefined && (staleSince == undefined || accountEvents.staleSince < staleSince))
+				staleSince = accountEvents.staleSince;
+		}
+		return {cloudEvents, staleSince};
+	}
+
+	private async getAccountEventsFromRange(account: CalendarAccount, dateRange: DateRange): Promise<{cloudEvents: CloudEvent[], staleSince?: Date}> {
+		const calendarKey = cacheController.getCalendarKey(account);
+		const cacheCheck = cacheController.checkCache(calendarKey, dateRange);
+		if (cacheCheck.missedDateRanges.length == 0) return {cloudEvents: cacheCheck.cachedCloudEvents};
 		const cloudEvents = cacheCheck.cachedCloudEvents;
-		for (let i=0; i<cacheCheck.missedDateRanges.length; i++){
-			const missedDateRange = cacheCheck.missedDateRanges[i];
-			const fetchedCloudEvents = await this._cloudController.getEvents(missedDateRange);
-			fetchedCloudEvents.forEach(iCloudEvent => cloudEvents.push(iCloudEvent));
+		try {
+			for (let i=0; i<cacheCheck.missedDateRanges.length; i++){
+				const missedDateRange = cacheCheck.missedDateRanges[i];
+				const fetchedCloudEvents = await this._cloudControllers.get(account.id).getEvents(missedDateRange);
+				fetchedCloudEvents.forEach(cloudEvent => cloudEvent.accountId = account.id);
+				cacheController.cacheCloudEvents(calendarKey, missedDateRange, fetchedCloudEvents);
+				fetchedCloudEvents.forEach(iCloudEvent => cloudEvents.push(iCloudEvent));
+			}
+		} catch (e) {
+			// Provider unreachable (e.g. no network) or not ready -> Fall back to the persisted cache.
+			// Providers throw in these cases: an empty result would replace the persisted events
+			console.warn(`Error fetching the events of ${account.name}, loading them from the cache`, e);
+			return cacheController.checkPersistedCache(calendarKey, dateRange);
 		}
-		return cloudEvents;
+		return {cloudEvents};
 	}
 
 	async updateCloudEvent(cloudEvent: CloudEvent, updateMap: Map<string, string>) {
+		const cloudController = this.getCloudController(cloudEvent.accountId);
+		if (cloudController == undefined){
+			new Notice("🤷 The account of the event is not logged in...");
+			return;
+		}
 		this._cloudEventFactory.updateCloudEvent(cloudEvent, updateMap);
-		this._cloudController.updateEvent(cloudEvent).then((status => {
+		cacheController.invalidate();
+		cloudController.updateEvent(cloudEvent).then((status => {
 			if (status) new Notice("📅 The event has been synchronized!")
 			else new Notice("🤷 There has been an error updating the event...")
 		}));
 	}
+
+	// Events without account belong to the default one
+	private getCloudController(accountId?: string): CloudController | undefined {
+		return this._cloudControllers.get(accountId ?? this._settings.defaultAccountId);
+	}
 }
 
 const eventController = new EventController();
@@ -16,6 +16,7 @@ import {calendar} from "googleapis/build/src/apis/calendar";
 
 export class GoogleCalendarController implements CloudController {
 	private _pluginPath: string;
+	private _accountId: string;
 	private readonly _scopes: string[];
 	private _calendarEndpoint: APIEndpoint;
 	private _calendars: GoogleCalendar[];
@@ -33,30 +34,53 @@ export class GoogleCalendarController implements CloudController {
 	async managePushNotifications(){
 	}
 
-	async pushEvent(cloudEvent: CloudEvent): Promise<boolean>{
+	async pushEvent(cloudEvent: CloudEvent, calendarName?: string): Promise<boolean>{
 		const googleEventInsertResponse = await this._calendarEndpoint.events.insert({
-			calendarId: this._currentCalendarName,
-			resource: cloudEvent as GoogleCalendarEvent
+			calendarId: this.getCalendarId(calendarName),
+			resource: cloudEvent as GoogleCalendarEvent,
+			sendUpdates: this.getSendUpdates()
 		})
+		// The id assigned by Google is needed to update or delete the event later on
+		if (googleEventInsertResponse.status == 200) (cloudEvent as GoogleCalendarEvent).id = googleEventInsertResponse.data.id;
 		return googleEventInsertResponse.status == 200;
 	}
 
-	async updateEvent(cloudEvent: CloudEvent): Promise<boolean>{
+	async updateEvent(cloudEvent: CloudEvent, calendarName?: string): Promise<boolean>{
 		const googleEventInsertResponse = await this._calendarEndpoint.events.patch({
-			calendarId: this._currentCalendarName,
+			calendarId: this.getCalendarId(calendarName),
 			eventId: (cloudEvent as GoogleCalendarEvent).id,
-			resource: cloudEvent as GoogleCalendarEvent
+			resource: cloudEvent as GoogleCalendarEvent,
+			sendUpdates: this.getSendUpdates()
 		})
 		calendarViewController.postProcessorUpdate();
 		return googleEventInsertResponse.status == 200;
 	}
 
+	async deleteEvent(cloudEvent: CloudEvent, calendarName?: string): Promise<boolean>{
+		try {
+			const googleEventDeleteResponse = await this._calendarEndpoint.events.delete({
+				calendarId: this.getCalendarId(calendarName),
+				eventId: (cloudEvent as GoogleCalendarEvent).id
+			})
+			calendarViewController.postProcessorUpdate();
+			return googleEventDeleteResponse.status == 204;
+		} catch (e) {
+			// Already deleted events are fine as well
+			if (e.response?.status == 404 || e.response?.status == 410) return true;
+			console.warn("Error deleting the event", e);
+			return false;
+		}
+	}
+
 	async getEvents(missedDateRange: DateRange): Promise<CloudEvent[]> {
+		// The missed date range includes the whole end day, while timeMax is exclusive
+		const rangeEnd = new Date(missedDateRange.end);
+		rangeEnd.setDate(rangeEnd.getDate() + 1);
 		const googleEventResponse = await this._calendarEndpoint.events.list({
 			calendarId: this._currentCalendarId,
 			orderBy: "startTime",
 			singleEvents: true,
-			timeMax: missedDateRange.end.toISOString(),
+			timeMax: rangeEnd.toISOString(),
 			timeMin: missedDateRange.start.toISOString()
 		});
 
@@ -79,6 +103,10 @@ export class GoogleCalendarController implements CloudController {
 		this._pluginPath = pluginPath;
 	}
 
+	injectAccountId(accountId: string) {
+		this._accountId = accountId;
+	}
+
 	injectSettings(settings: SettingInterface) {
 		this._settings = settings;
 		if (this._calendars.length == 0){
@@ -108,7 +136,7 @@ export class GoogleCalendarController implements CloudController {
 			credentialMap.set("tokenType", "authorized_user");
 			credentialMap.set("accessToken", oAuth2Client.credentials.access_token);
 
-			safeController.storeCredentials(credentialMap);
+			safeController.storeCredentials(credentialMap, this._accountId);
 			this._calendarEndpoint = google.calendar({version: 'v3', auth: oAuth2Client});
 			return CloudStatus.LOGGED;
 		}
@@ -128,6 +156,17 @@ export class GoogleCalendarController implements CloudController {
 		return this._calendars.map(calendar => calendar.summary);
 	}
 
+	private getCalendarId(calendarName?: string): string {
+		if (calendarName == undefined) return this._currentCalendarName;
+		const matchingCalendar = this._calendars.filter(calendar => calendar.summary == calendarName).first();
+		return matchingCalendar?.id ?? this._currentCalendarName;
+	}
+
+	// Google emails the attendees only when asked to
+	private getSendUpdates(): string {
+		return this._settings?.sendInvitations ? "all" : "none";
+	}
+
 	private async manageTokenValidity(auth: Map<string, string>) {
 		const tokenType = auth.get("tokenType");
 		const clientId = auth.get("clientId");
@@ -11,10 +11,12 @@ import {Misc} from "../misc/misc";
 import {RequestUrlParam} from "obsidian";
 import calendarViewController from "./calendarViewController";
 import ICloudMisc from "../iCloudJs/iCloudMisc";
+import cacheController from "./cacheController";
 
 export class iCalendarController implements CloudController {
 	private _iCloud: iCloudService;
 	private _pluginPath: string;
+	private _accountId: string;
 	private _calendars: iCloudCalendarCollection[];
 	private _calendarService: iCloudCalendarService;
 	private _tagHash: Map<number, Event>;
@@ -49,6 +51,10 @@ export class iCalendarController implements CloudController {
 		this._pluginPath = pluginPath;
 	}
 
+	injectAccountId(accountId: string){
+		this._accountId = accountId;
+	}
+
 	injectSettings(appSettings: SettingInterface){
 		this.appSettings = appSettings;
 	}
@@ -62,7 +68,8 @@ export class iCalendarController implements CloudController {
 			username: auth.get("magicCalendarSyncUsername"),
 			password: auth.get("magicCalendarSyncPassword"),
 			saveCredentials: true,
-			trustDevice: true
+			trustDevice: true,
+			accountId: this._accountId
 		});
 		try {
 			await this._iCloud.authenticate();
@@ -92,12 +99,13 @@ export class iCalendarController implements CloudController {
 		this._dataLoadingComplete = true;
 	}
 
-	async pushEvent(cloudEvent: CloudEvent): Promise<boolean>{
+	async pushEvent(cloudEvent: CloudEvent, calendarName?: string): Promise<boolean>{
 		let calendar = this._calendars.first();
 		const iCloudEvent = cloudEvent as iCloudCalendarEvent;
 		iCloudEvent.tz = this.appSettings.tz;
-		if (this.appSettings.calendar != "Log in to select a calendar"){
-			const firstMatchingCalendar = this._calendars.filter(calendar => calendar.title == this.appSettings.calendar)[0];
+		const targetCalendarName = calendarName ?? this.appSettings.calendar;
+		if (targetCalendarName != "Log in to select a calendar"){
+			const firstMatchingCalendar = this._calendars.filter(calendar => calendar.title == targetCalendarName)[0];
 			calendar = firstMatchingCalendar ?? calendar;
 		}
 		if (iCloudEvent.pGuid != undefined){
@@ -107,8 +115,18 @@ export class iCalendarController implements CloudController {
 		return await this._calendarService.postEvent(iCloudEvent, calendar.ctag);
 	}
 
-	async updateEvent(cloudEvent: CloudEvent): Promise<boolean>{
-		return this.pushEvent(cloudEvent);
+	async updateEvent(cloudEvent: CloudEvent, calendarName?: string): Promise<boolean>{
+		return this.pushEvent(cloudEvent, calendarName);
+	}
+
+	async deleteEvent(cloudEvent: CloudEvent): Promise<boolean>{
+		const iCloudEvent = cloudEvent as iCloudCalendarEvent;
+		const calendar = this._calendars.filter(calendar => calendar.guid == iCloudEvent.pGuid).first();
+		if (calendar == undefined) return false;
+		iCloudEvent.tz = iCloudEvent.tz ?? this.appSettings.tz;
+		const status = await this._calendarService.deleteEvent(iCloudEvent, calendar.ctag);
+		calendarViewController.postProcessorUpdate();
+		return status;
 	}
 
 	async awaitReady(){
@@ -120,7 +138,8 @@ export class iCalendarController implements CloudController {
 	}
 
 	async getEvents(missedDateRange: DateRange): Promise<CloudEvent[]> {
-		if (this._calendarService == undefined) return [];
+		// Throwing (instead of returning no events) keeps the persisted cache: see getAccountEventsFromRange
+		if (this._calendarService == undefined) throw new Error("iCloud calendar service not ready");
 		const iCloudEvents = await this._calendarService.events(missedDateRange.start, missedDateRange.end);
 		iCloudEvents.forEach(iCloudEvent => {
 			iCloudEvent.cloudEventUUID = iCloudEvent.guid;
@@ -161,6 +180,7 @@ export class iCalendarController implements CloudController {
 			await this._iCloud.getAPNSToken();
 			await this._iCloud.registerAPNSToken();
 			await this._iCloud.startAPNS(() => {
+				cacheController.invalidate();
 				calendarViewController.postProcessorUpdate()
 			});
 		} catch (e) {
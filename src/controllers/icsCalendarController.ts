@@ -0,0 +1,143 @@
+import {CloudController} from "./cloudController";
+import {DateRange} from "../model/dateRange";
+import {CloudEvent} from "../model/events/cloudEvent";
+import {CloudStatus} from "../model/cloudCalendar/cloudStatus";
+import {SettingInterface} from "../plugin/appSetting";
+import {IcsCalendarEvent} from "../model/events/icsCalendarEvent";
+import {IcsMisc} from "../misc/icsMisc";
+import {Misc} from "../misc/misc";
+import {EventRef, normalizePath, TAbstractFile} from "obsidian";
+import safeController from "./safeController";
+import cacheController from "./cacheController";
+import calendarViewController from "./calendarViewController";
+
+// Calendar provider backed by a .ics file inside the vault
+export class IcsCalendarController implements CloudController {
+	private _pluginPath: string;
+	private _accountId: string;
+	private _settings: SettingInterface;
+	private _icsFilePath: string;
+	private _calendarName: string;
+	private _modifyEventRef: EventRef;
+
+	async managePushNotifications() {
+		// The file can be modified by other apps (e.g. a sync client): refresh the views when it happens
+		if (this._modifyEventRef != undefined) return;
+		this._modifyEventRef = Misc.app.vault.on("modify", (file: TAbstractFile) => {
+			if (file.path != this._icsFilePath) return;
+			cacheController.invalidate();
+			calendarViewController.postProcessorUpdate();
+		});
+	}
+
+	stopPushNotifications() {
+		if (this._modifyEventRef == undefined) return;
+		Misc.app.vault.offref(this._modifyEventRef);
+		this._modifyEventRef = undefined;
+	}
+
+	async pushEvent(cloudEvent: CloudEvent): Promise<boolean> {
+		try {
+			const calendar = IcsMisc.splitCalendar(await this.readCalendar());
+			calendar.events.push(IcsMisc.toIcsLines(cloudEvent as IcsCalendarEvent));
+			await Misc.app.vault.adapter.write(this._icsFilePath, IcsMisc.joinCalendar(calendar));
+			return true;
+		} catch (e) {
+			console.warn("Error writing the ics file", e);
+			return false;
+		}
+	}
+
+	async updateEvent(cloudEvent: CloudEvent): Promise<boolean> {
+		const icsEvent = cloudEvent as IcsCalendarEvent;
+		// The VEVENT holds the whole series: writing a single occurrence would replace it
+		if (icsEvent.recurrenceId != undefined){
+			console.warn("ics: the occurrences of recurring events can't be updated one by one");
+			return false;
+		}
+		try {
+			const calendar = IcsMisc.splitCalendar(await this.readCalendar());
+			const eventIndex = calendar.events.findIndex(eventLines => IcsMisc.toIcsCalendarEvent(eventLines)?.uid == icsEvent.uid);
+			if (eventIndex == -1) return await this.pushEvent(cloudEvent);
+			icsEvent.sequence = (icsEvent.sequence ?? 0) + 1;
+			calendar.events[eventIndex] = IcsMisc.toIcsLines(icsEvent);
+			await Misc.app.vault.adapter.write(this._icsFilePath, IcsMisc.joinCalendar(calendar));
+			calendarViewController.postProcessorUpdate();
+			return true;
+		} catch (e) {
+			console.warn("Error writing the ics file", e);
+			return false;
+		}
+	}
+
+	async deleteEvent(cloudEvent: CloudEvent): Promise<boolean> {
+		const icsEvent = cloudEvent as IcsCalendarEvent;
+		try {
+			const calendar = IcsMisc.splitCalendar(await this.readCalendar());
+			calendar.events = calendar.events.filter(eventLines => IcsMisc.toIcsCalendarEvent(eventLines)?.uid != icsEvent.uid);
+			await Misc.app.vault.adapter.write(this._icsFilePath, IcsMisc.joinCalendar(calendar));
+			calendarViewController.postProcessorUpdate();
+			return true;
+		} catch (e) {
+			console.warn("Error writing the ics file", e);
+			return false;
+		}
+	}
+
+	async getEvents(missedDateRange: DateRange): Promise<CloudEvent[]> {
+		const calendar = IcsMisc.splitCalendar(await this.readCalendar());
+		// The missed date range includes the whole end day
+		const rangeEnd = new Date(missedDateRange.end);
+		rangeEnd.setDate(rangeEnd.getDate() + 1);
+		return IcsMisc.expandEvents(calendar.events, missedDateRange.start, rangeEnd);
+	}
+
+	injectPath(pluginPath: string) {
+		this._pluginPath = pluginPath;
+	}
+
+	injectAccountId(accountId: string) {
+		this._accountId = accountId;
+	}
+
+	injectSettings(settings: SettingInterface) {
+		this._settings = settings;
+	}
+
+	async tryAuthentication(auth: Map<string, string>): Promise<CloudStatus> {
+		if (auth == undefined || !auth.get("icsFilePath")) return CloudStatus.ERROR;
+		let icsFilePath = normalizePath(auth.get("icsFilePath"));
+		if (!icsFilePath.endsWith(".ics")) icsFilePath += ".ics";
+		try {
+			if (!(await Misc.app.vault.adapter.exists(icsFilePath))){
+				const calendarName = icsFilePath.split("/").last().replace(".ics", "");
+				await Misc.app.vault.adapter.write(icsFilePath, IcsMisc.emptyCalendar(calendarName));
+			}
+			this._icsFilePath = icsFilePath;
+			const credentialMap = new Map<string, string>();
+			credentialMap.set("icsFilePath", icsFilePath);
+			safeController.storeCredentials(credentialMap, this._accountId);
+			return CloudStatus.LOGGED;
+		} catch (e) {
+			console.warn("Error opening the ics file", e);
+			return CloudStatus.ERROR;
+		}
+	}
+
+	async preloadData() {
+		const calendar = IcsMisc.splitCalendar(await this.readCalendar());
+		const calendarNameLine = calendar.prologue.filter(line => line.startsWith("X-WR-CALNAME")).first();
+		this._calendarName = calendarNameLine != undefined ?
+			IcsMisc.unescapeText(IcsMisc.parseProperty(calendarNameLine).value) :
+			this._icsFilePath.split("/").last().replace(".ics", "");
+	}
+
+	getCalendarNames() {
+		if (this._calendarName == undefined) return [];
+		return [this._calendarName];
+	}
+
+	private async readCalendar(): Promise<string> {
+		return await Misc.app.vault.adapter.read(this._icsFilePath);
+	}
+}
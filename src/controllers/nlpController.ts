@@ -10,6 +10,11 @@ import Event from "../model/event";
 import {DateRange} from "../model/dateRange";
 import {SettingInterface} from "../plugin/appSetting";
 import {Media} from "../misc/media";
+import contactController from "./contactController";
+import {Attendee} from "../model/attendee";
+import {BannedPattern, BannedPatternScope} from "../model/bannedPattern";
+import {Languages} from "../misc/languages";
+import {DetectionSensitivity} from "../model/detectionSensitivity";
 
 class NlpController {
 	private readonly _customPatterns: {name, patterns}[];
@@ -21,11 +26,12 @@ class NlpController {
 	// e.g. John is both a noun and a proper noun
 	private _secondaryNLP;
 	private _ready: boolean;
+	// Language detected in the last processed document
+	private _detectedLanguage: {documentText: string, language: string};
 
 	constructor() {
 		this._ready = false;
 		this._mainNLP = wink( model );
-		this._secondaryNLP = wink (model);
 		this._customPatterns = [];
 		this._secondaryCustomPatterns = []
 	}
@@ -38,16 +44,29 @@ class NlpController {
 		this._setting = setting;
 	}
 
+	// Called again whenever the user dictionaries change: only the secondary NLP needs to re-learn its entities
 	init(){
-		this.loadPatterns();
-		this._mainNLP.learnCustomEntities(this._customPatterns);
+		if (this._customPatterns.length == 0){
+			this.loadPatterns();
+			this._mainNLP.learnCustomEntities(this._customPatterns);
+		}
+		this.loadSecondaryPatterns();
+		this._secondaryNLP = wink(model);
 		this._secondaryNLP.learnCustomEntities(this._secondaryCustomPatterns)
 		this._ready = true;
 	}
 
 	loadPatterns(){
 		this._customPatterns.push(
+			// every tuesday and thursday, every other week, daily
+			{name: "recurrence", patterns: ["[every|each] [|other] [DATE|DURATION|day|weekday|weekdays|weekend|week|month|year]",
+					"[every|each] [|other] [DATE] [and|,] [DATE]", "[every|each] [DATE] [,] [DATE] [and] [DATE]", "[daily|weekly|monthly|yearly|annually]"]},
+			// remind me 15 minutes before, with a 10 min alert
+			{name: "reminder", patterns: ["[remind|alert|notify] [me|us] [|a|an] [DURATION|TIME] [|before|earlier|ahead]", "[remind|alert|notify] [me|us] [CARDINAL] [min|mins] [before|earlier|ahead]",
+					"[with] [|a|an] [DURATION] [alert|reminder|alarm|notification]", "[with] [|a|an] [CARDINAL] [min|mins] [alert|reminder|alarm|notification]"]},
 			{name: "date", patterns: ["DATE", "on DATE"]},
+			// from march 3rd to march 5th
+			{name: "dateInterval", patterns: ["DURATION"]},
 			// 12th of Jan 2023, second of may
 			{name: "ordinalDate", patterns: ["[ORDINAL] [|ADP] [|DATE|may|march] [|DATE]"]},
 			// July the third
@@ -57,15 +76,36 @@ class NlpController {
 			{name: "timeRange", patterns: ["[from] [TIME|CARDINAL|NUM] [|am|pm] [to] [TIME|CARDINAL|NUM] [|am|pm]", "[TIME|CARDINAL] [-|/] [TIME|CARDINAL]"]},
 			{name: "exactTime", patterns: ["[at|for] [CARDINAL|TIME]"]}
 		)
+		// at Luigi's, in room 4B, at the office
+		// DET rather than a literal "the": the literal breaks the purpose matches ("regarding the contract")
+		this._customPatterns.push({name: "location", patterns: ["[at|in] [|DET] [PROPN|NOUN] [|PART|PROPN|NOUN|NUM|CARDINAL] [|NOUN]"]});
 		this._customPatterns.push({name: "intentionalVerb", patterns: ["[|AUX] [VERB] [|DET] [|ADP|at] [|PRON] [|DET] [|ADJ] [NOUN] [|NOUN]"]});
 		this._customPatterns.push({name: "purpose", patterns: ["[about|regarding|concerning|for] [|DET] [|PRON] [|ADJ] [NOUN] [|NOUN|ADJ|CCONJ] [|NOUN|CCONJ|PRON] [|NOUN|ADJ]",
 				"to VERB [|PRON|DET] [|ADJ] NOUN [|NOUN|ADJ|CCONJ] [|NOUN|CCONJ|PRON] [|NOUN|ADJ]"]});
-		// The secondaryCustomPatterns exist to manage possible overlap between entities
-		this._secondaryCustomPatterns.push({name: "eventNoun", patterns: Media.nounPatters});
-		this._secondaryCustomPatterns.push({name: "properName", patterns: Media.properNamePatterns});
 	}
 
-	process(sentence: Sentence): {selection: {value, index, type}[], event: Event} | null{
+	// The secondaryCustomPatterns exist to manage possible overlap between entities
+	// The built-in dictionaries are extended (and filtered) by the user ones
+	loadSecondaryPatterns(){
+		const excludedWords = (this._setting?.excludedWords ?? []).map(word => word.toLowerCase());
+		const eventNouns = Media.nounPatters.filter(noun => !excludedWords.contains(noun.toLowerCase()));
+		(this._setting?.customEventNouns ?? []).forEach(noun => eventNouns.push(noun.toLowerCase()));
+		// Built-in proper names look like "[|ADP] James"
+		const properNames = Media.properNamePatterns.filter(namePattern => !excludedWords.contains(namePattern.split(" ").last().toLowerCase()));
+		(this._setting?.customProperNames ?? []).forEach(name => properNames.push(`[|ADP] ${name}`));
+		this._secondaryCustomPatterns.length = 0;
+		this._secondaryCustomPatterns.push({name: "eventNoun", patterns: eventNouns});
+		this._secondaryCustomPatterns.push({name: "properName", patterns: properNames});
+	}
+
+	// A line can hold more than one event, e.g. "Call Bob on Monday at 10. Dentist on Wednesday at 4."
+	splitSentences(text: string): string[] {
+		if (!this._ready || text.trim().length == 0) return [text];
+		return this._mainNLP.readDoc(text).sentences().out();
+	}
+
+	// The document text is needed to recognise the edits of synced sentences
+	process(sentence: Sentence, documentText?: string): {selection: {value, index, type}[], event: Event, syncedEvent?: Event, confidence: number} | null{
 		if(!this._ready){
 			console.warn("Not able to process: NLP module not ready");
 			return null;
@@ -90,6 +130,9 @@ class NlpController {
 		let matchedEvent = eventController.syntacticCheck(sentence);
 		if (matchedEvent != null && matchedEvent.processed == true) return null;
 
+		const language = this.getLanguage(documentText ?? sentence.value);
+		if (language != Languages.english) return this.processLocalized(sentence, language, matchedEvent, documentText);
+
 		// If the syntax check fails we'll need to perform a semantic check, once
 		// all the sentence elements are defined
 		const auxiliaryStructures = this.getAuxiliaryStructures(sentence);
@@ -112,18 +155,27 @@ class NlpController {
 			const customEvent = this.getCustomEvent(sentence);
 			if (customEvent){
 				const cleanDates = this.cleanJunkDates(dates);
-				const dateRange = this.parseDates(cleanDates);
+				const dateRange = this.parseDates(cleanDates, sentence);
 				if (!dateRange) return;
-				sentence.injectSemanticFields(dateRange.start, dateRange.end, customEvent.value)
+				sentence.injectSemanticFields(dateRange.start, dateRange.end, customEvent.value, dateRange.allDay)
+				sentence.recurrence = this.parseRecurrence(cleanDates);
+				sentence.timezone = smartDateParser.getTimezone(sentence.value);
+				sentence.location = this.filterLocation(sentence.value, caseInsensitiveText, mainCustomEntities)?.parsedValue;
+				sentence.attendees = this.filterAttendees(sentence.value, this.filterProperNames(secondaryCustomEntities)).attendees;
+				sentence.reminder = this.filterReminder(caseInsensitiveText, mainCustomEntities)?.minutes;
 				matchedEvent = eventController.semanticCheck(sentence);
 				// Matched semantic check;
 				if (matchedEvent) return null;
 				const selection = this.getSelectionArray(sentence.value, cleanDates, customEvent);
+				const syncedEvent = eventController.editCheck(sentence, documentText);
 				const event = eventController.createNewEvent(sentence);
 
+				// Custom events are marked by the user
 				return {
 					selection,
-					event
+					event,
+					syncedEvent,
+					confidence: 100
 				}
 			}
 		}
@@ -131,8 +183,16 @@ class NlpController {
 		// Find purpose in text
 		// e.g. "to discuss finances"
 		const purpose = this.filterPurpose(caseInsensitiveText, mainCustomEntities, tokens);
+		// Find where the event takes place
+		// e.g. "at Luigi's"
+		const location = this.filterLocation(sentence.value, caseInsensitiveText, mainCustomEntities);
 		// Find proper names
 		const properNames = this.filterProperNames(secondaryCustomEntities);
+		// Find the people to invite: known contacts and email addresses
+		const attendees = this.filterAttendees(sentence.value, properNames);
+		// Find when the user wants to be reminded
+		// e.g. "remind me 15 minutes before"
+		const reminder = this.filterReminder(caseInsensitiveText, mainCustomEntities);
 		// Find nouns that conform to the concept of event
 		// e.g. meetings, shows etc
 		// The function takes as argument the purpose string in order to avoid entity overlap
@@ -159,25 +219,41 @@ class NlpController {
 		const selectedProperName = this.selectProperName(sentence.value, properNames, selectedEventNoun, selectedIntentionalVerb);
 
 		// Find possible common noun associated to the event noun (board meeting)
-		const backwardsAdjAttributes = this.selectAdjAttributes(tokens, pos, selectedEventNoun, selectedProperName, selectedDateIndex, true);
+		const backwardsAdjAttributes = this.selectAdjAttributes(tokens, pos, selectedEventNoun, selectedProperName, selectedDateIndex, location, true);
 
-		const forwardAdjAttributes = this.selectAdjAttributes(tokens, pos, selectedEventNoun, selectedProperName, selectedDateIndex);
+		const forwardAdjAttributes = this.selectAdjAttributes(tokens, pos, selectedEventNoun, selectedProperName, selectedDateIndex, location);
 
 		// Clean extra dates
 		const cleanDates = this.cleanJunkDates(dates);
 
 		// Fill selection array
 		// The selection array is the object that represent what items will be either highlighted or underlined
-		const selection = this.getSelectionArray(caseInsensitiveText, cleanDates, selectedEventNoun, backwardsAdjAttributes, forwardAdjAttributes, selectedProperName, purpose);
+		const selection = this.getSelectionArray(caseInsensitiveText, cleanDates, selectedEventNoun, backwardsAdjAttributes, forwardAdjAttributes, selectedProperName, purpose, location, attendees.emails, reminder);
 
 		// From natural language to dates
-		const dateRange = this.parseDates(cleanDates);
+		const dateRange = this.parseDates(cleanDates, sentence);
 
 		if (dateRange == undefined) return;
 
+		const confidence = this.getConfidence({
+			hasExplicitDate: cleanDates.some(date => ["date", "dateInterval", "ordinalDate", "ordinalDateReverse", "recurrence"].contains(date.type)),
+			hasTime: cleanDates.some(date => date.type == "exactTime" || date.type == "timeRange"),
+			hasIntentionalVerb: selectedIntentionalVerb != undefined,
+			hasPeople: selectedProperName != undefined || attendees.attendees.length > 0,
+			hasPurpose: purpose != null,
+			hasLocation: location != undefined,
+			nounDateDistance: Math.abs(selectedEventNoun.index - selectedDateIndex)
+		});
+		if (confidence < this.getConfidenceThreshold()) return null;
+
 		// Semantic check
 		if(matchedEvent == null){
-			sentence.injectSemanticFields(dateRange.start, dateRange.end, selectedEventNoun.value)
+			sentence.injectSemanticFields(dateRange.start, dateRange.end, selectedEventNoun.value, dateRange.allDay)
+			sentence.recurrence = this.parseRecurrence(cleanDates);
+			sentence.timezone = smartDateParser.getTimezone(sentence.value);
+			sentence.location = location?.parsedValue;
+			sentence.attendees = attendees.attendees;
+			sentence.reminder = reminder?.minutes;
 			sentence.eventNoun = this.getEventTitle(backwardsAdjAttributes, forwardAdjAttributes, selectedEventNoun, selectedProperName, purpose);
 			matchedEvent = eventController.semanticCheck(sentence);
 		}
@@ -185,18 +261,22 @@ class NlpController {
 		// Semantic check successful
 		if (matchedEvent != null && matchedEvent.processed == true) return null;
 
-		// Semantic check unsuccessful -> new event
+		// Semantic check unsuccessful -> new event, possibly the edit of a synced one
 		if (matchedEvent == null){
+			const syncedEvent = eventController.editCheck(sentence, documentText);
 			const event = eventController.createNewEvent(sentence);
 			return {
 				selection,
-				event
+				event,
+				syncedEvent,
+				confidence
 			};
 		}
 
 		return {
 			selection,
-			event: matchedEvent
+			event: matchedEvent,
+			confidence
 		}
 
 	}
@@ -210,6 +290,107 @@ class NlpController {
 	********************************************************************************************************************************
  	*/
 
+	// The English patterns rely on the POS tags of the English model:
+	// the other languages are read with the localized date parsers and noun lists
+	private processLocalized(sentence: Sentence, language: string, matchedEvent: Event, documentText?: string): {selection: {value, index, type}[], event: Event, syncedEvent?: Event, confidence: number} | null {
+		const caseInsensitiveText = sentence.value.toLowerCase();
+		const parsed = smartDateParser.parse(sentence.value, language, this.getReferenceDate(sentence)) as ParsedResult[];
+		const timezone = smartDateParser.getTimezone(sentence.value);
+		const dateRange = timezone == undefined ? smartDateParser.getDates(parsed) : smartDateParser.fromTimezone(smartDateParser.getDates(parsed), timezone);
+		if (dateRange == undefined) return null;
+		const dates = parsed.map(parsedResult => ({value: parsedResult.text.toLowerCase(), index: parsedResult.index, type: "date"}));
+
+		const customEvent = this._setting.customSymbol != "" ? this.getCustomEvent(sentence) : undefined;
+		const eventNoun = customEvent ?? this.selectEventNoun(caseInsensitiveText, this.filterLocalizedEventNouns(caseInsensitiveText, language), dates[0].index);
+		if (eventNoun.index == -1) return null;
+
+		// Names are the same in every language
+		const properNames = this.filterProperNames(this._secondaryNLP.readDoc(caseInsensitiveText).customEntities());
+		const properName = properNames.map(name => name.value.split(" ").last())
+			.filter(name => {
+				const nameIndex = caseInsensitiveText.indexOf(name);
+				return nameIndex > -1 && !Misc.isLowerCase(sentence.value[nameIndex]);
+			})
+			.map(name => ({value: name, index: caseInsensitiveText.indexOf(name), type: "properName"}))
+			.first();
+		const attendees = this.filterAttendees(sentence.value, properNames);
+		const selection = this.getSelectionArray(caseInsensitiveText, dates, eventNoun, undefined, undefined, properName, undefined, undefined, attendees.emails);
+
+		let eventTitle = eventNoun.value;
+		if (customEvent == undefined && properName != undefined) eventTitle += ` ${Languages.withWords.get(language)} ${properName.value.charAt(0).toUpperCase()}${properName.value.slice(1)}`;
+
+		const confidence = customEvent != undefined ? 100 : this.getConfidence({
+			hasExplicitDate: parsed.some(parsedResult => parsedResult.start.isCertain("day") || parsedResult.start.isCertain("weekday")),
+			hasTime: !dateRange.allDay,
+			hasIntentionalVerb: false,
+			hasPeople: properName != undefined || attendees.attendees.length > 0,
+			hasPurpose: false,
+			hasLocation: false,
+			nounDateDistance: Math.abs(eventNoun.index - dates[0].index)
+		});
+		if (confidence < this.getConfidenceThreshold()) return null;
+
+		if (matchedEvent == null){
+			sentence.injectSemanticFields(dateRange.start, dateRange.end, eventTitle, dateRange.allDay);
+			sentence.timezone = timezone;
+			sentence.attendees = attendees.attendees;
+			matchedEvent = eventController.semanticCheck(sentence);
+		}
+		if (matchedEvent != null && matchedEvent.processed == true) return null;
+		if (matchedEvent != null) return {selection, event: matchedEvent, confidence};
+
+		const syncedEvent = eventController.editCheck(sentence, documentText);
+		const event = eventController.createNewEvent(sentence);
+		return {
+			selection,
+			event,
+			syncedEvent,
+			confidence
+		};
+	}
+
+	// From 0 to 100: every detail that makes the sentence look like an event raises the score.
+	// The event noun (or the intentional verb) and a date are always there
+	private getConfidence(signals: {hasExplicitDate: boolean, hasTime: boolean, hasIntentionalVerb: boolean, hasPeople: boolean, hasPurpose: boolean,
+		hasLocation: boolean, nounDateDistance: number}): number {
+		let confidence = signals.hasIntentionalVerb ? 25 : 20;
+		if (signals.hasExplicitDate) confidence += 20;
+		if (signals.hasTime) confidence += 20;
+		if (signals.hasPeople) confidence += 10;
+		if (signals.hasPurpose) confidence += 10;
+		if (signals.hasLocation) confidence += 10;
+		// "Meeting tomorrow" is more likely an event than "the meeting we talked about yesterday"
+		if (signals.nounDateDistance <= 25) confidence += 10;
+		return Math.min(confidence, 100);
+	}
+
+	private getConfidenceThreshold(): number {
+		if (this._setting.detectionSensitivity == DetectionSensitivity.LOW) return 70;
+		if (this._setting.detectionSensitivity == DetectionSensitivity.MEDIUM) return 50;
+		return 0;
+	}
+
+	private getLanguage(documentText: string): string {
+		if (this._setting.language != Languages.auto) return this._setting.language ?? Languages.english;
+		// Every line of a document is processed with the same document text
+		if (this._detectedLanguage?.documentText != documentText){
+			this._detectedLanguage = {documentText, language: Languages.detect(documentText)};
+		}
+		return this._detectedLanguage.language;
+	}
+
+	private filterLocalizedEventNouns(text: string, language: string): {value, index, type}[] {
+		const words = text.split(/[\s.,;:!?()"]+/);
+		const excludedWords = (this._setting.excludedWords ?? []).map(word => word.toLowerCase());
+		const eventNouns = (Languages.eventNouns.get(language) ?? []).filter(eventNoun => !excludedWords.contains(eventNoun));
+		// User nouns can be made of more words (e.g. "sprint review")
+		const customEventNouns = (this._setting.customEventNouns ?? []).map(noun => noun.toLowerCase()).filter(noun => text.contains(noun));
+		return eventNouns
+			.filter(eventNoun => words.contains(eventNoun))
+			.concat(customEventNouns)
+			.map(eventNoun => ({value: eventNoun, index: text.indexOf(eventNoun), type: "eventNoun"}));
+	}
+
 	private getAuxiliaryStructures(sentence: Sentence): {caseInsensitiveText: string, mainCustomEntities: CustomEntities, secondaryCustomEntities: CustomEntities, tokens: Tokens, pos: PartOfSpeech[]} {
 		const caseInsensitiveText = sentence.value.toLowerCase();
 		const mainDoc = this._mainNLP.readDoc(caseInsensitiveText);
@@ -225,9 +406,11 @@ class NlpController {
 		const its = this._mainNLP.its;
 		return customEntities.out(its.detail).filter(pos => {
 						const p = pos as unknown as Detail;
+			// Durations like "2 hours" aren't dates
+			if (p.type == "dateInterval") return smartDateParser.isDateInterval(p.value);
 			return (p.type == "date") || (p.type == "ordinalDate") ||
 				(p.type == "ordinalDateReverse") || (p.type == "timeRange") ||
-				(p.type == "exactTime") || (p.type == "duration")
+				(p.type == "exactTime") || (p.type == "duration") || (p.type == "recurrence")
 		}) as Detail[];
 	}
 
@@ -265,6 +448,57 @@ class NlpController {
 		};
 	}
 
+	private filterLocation(text: string, caseInsensitiveText: string, customEntities: CustomEntities): {value, index, type, parsedValue} | null {
+		const its = this._mainNLP.its;
+		const location = customEntities.out(its.detail).filter(pos => ((pos as unknown as Detail).type == "location")).first() as Detail;
+		if (location == undefined) return null;
+		const locationIndex = caseInsensitiveText.indexOf(location.value);
+		// The location keeps the case written by the user, without the preposition
+		const parsedValue = text.substring(locationIndex, locationIndex + location.value.length).replace(/^(at|in)\s+/i, "");
+		return {
+			value: location.value,
+			index: locationIndex,
+			type: "location",
+			parsedValue
+		};
+	}
+
+	private filterReminder(text: string, customEntities: CustomEntities): {value, index, type, minutes} | null {
+		const its = this._mainNLP.its;
+		const reminder = customEntities.out(its.detail).filter(pos => ((pos as unknown as Detail).type == "reminder")).first() as Detail;
+		if (reminder == undefined) return null;
+		const minutes = smartDateParser.getReminderMinutes(reminder.value);
+		if (minutes == undefined) return null;
+		return {
+			value: reminder.value,
+			index: text.indexOf(reminder.value),
+			type: "reminder",
+			minutes
+		};
+	}
+
+	private filterAttendees(text: string, properNames: Detail[]): {attendees: Attendee[], emails: {value, index, type}[]} {
+		const attendees: Attendee[] = [];
+		properNames.forEach(properName => {
+			// Skip the potential ad-position (e.g. "with anna")
+			const name = properName.value.split(" ").last();
+			const nameIndex = text.toLowerCase().indexOf(name);
+			// Lower case words aren't names (e.g. "amber")
+			if (nameIndex == -1 || Misc.isLowerCase(text[nameIndex])) return;
+			const contact = contactController.getContact(name);
+			if (contact != undefined && !attendees.some(attendee => attendee.email == contact.email)) attendees.push(contact);
+		})
+		const emails = (text.match(/[\w.+-]+@[\w-]+(\.[\w-]+)+/g) ?? []).map(email => ({
+			value: email.toLowerCase(),
+			index: text.indexOf(email),
+			type: "email"
+		}));
+		emails.forEach(email => {
+			if (!attendees.some(attendee => attendee.email.toLowerCase() == email.value)) attendees.push({email: email.value});
+		})
+		return {attendees, emails};
+	}
+
 	private selectIntentionalVerb(customEntities: CustomEntities, tokens: Tokens, text: string, selectedDateIndex: number): {value, index, type, verb, noun} {
 		const selectedIntentionalVerb = {
 			value: "",
@@ -322,7 +556,7 @@ class NlpController {
 	// The idea:
 	// Look for [|ADP] [...NOUN]
 	// backwards flag -> looks back
-	private selectAdjAttributes(tokens, pos, selectedEventNoun, selectedProperName, selectedDateIndex, backward = false) : {value: string, index: number, type: string}[] | null {
+	private selectAdjAttributes(tokens, pos, selectedEventNoun, selectedProperName, selectedDateIndex, selectedLocation, backward = false) : {value: string, index: number, type: string}[] | null {
 		let selectedAdjAttributes: { value, index, type }[] = [];
 		let adjOffset = 1;
 		if (backward) adjOffset = -1;
@@ -334,6 +568,8 @@ class NlpController {
 		|| pos[eventNounTokenIndex + adjOffset] == "PRON" || pos[eventNounTokenIndex + adjOffset] == "PART"){
 			const adjWord = stringTokens[eventNounTokenIndex + adjOffset];
 			if(selectedProperName != null && adjWord == selectedProperName.value) return null;
+			// The location is not part of the title
+			if(selectedLocation != null && adjWord == selectedLocation.value.split(" ")[0]) break;
 			const selectedAdjAttributedIndex = backward ? cumulativeIndex - (adjWord.length + 1) : cumulativeIndex + (adjWord.length + 1);
 			cumulativeIndex = selectedAdjAttributedIndex;
 			if (selectedAdjAttributedIndex == selectedDateIndex) return null;
@@ -412,7 +648,8 @@ class NlpController {
 	}
 
 	private getSelectionArray(text: string, dates: {value, index, type}[], selectedEventNoun: {value, index, type}, backwardsAdjAttributes?: {value, index, type}[],
-								forwardAdjAttributes?: {value, index, type}[],  selectedProperName?: {value, index, type}, purpose?: {value, index, type}): {value, index, type}[] {
+								forwardAdjAttributes?: {value, index, type}[],  selectedProperName?: {value, index, type}, purpose?: {value, index, type}, location?: {value, index, type},
+								emails?: {value, index, type}[], reminder?: {value, index, type}): {value, index, type}[] {
 		const selection = []
 
 		dates.forEach(date => {
@@ -433,6 +670,9 @@ class NlpController {
 			})
 		}
 		if (purpose) selection.push(purpose);
+		if (location) selection.push({value: location.value, index: location.index, type: location.type});
+		if (emails) selection.push(...emails);
+		if (reminder) selection.push({value: reminder.value, index: reminder.index, type: reminder.type});
 
 		// Order by index (builder.add needs to be called with increasing values)
 		return selection.sort((a, b) => a.index - b.index);
@@ -441,24 +681,59 @@ class NlpController {
 	// There can be just one date (2023/01/01, The second of August ...) and/or one time (at 2, from 10 to 12);
 	// I'm assuming that the first date (syntactically) is the correct one
 	private cleanJunkDates(dates){
-		const dateComponentPatterns = ["date", "ordinalDate", "ordinalDateReverse"];
+		const dateComponentPatterns = ["date", "dateInterval", "ordinalDate", "ordinalDateReverse"];
 		const timePatterns = ["exactTime", "timeRange"];
+		const recurrences = dates.filter(r => r.type == "recurrence");
 		// array.indexOf(element) > -1 is the same as array.contains(element)
 		const dateComponents = dates.filter(d => dateComponentPatterns.indexOf(d.type) > -1);
 		const times = dates.filter(t => timePatterns.indexOf(t.type) > -1);
 		let cleanDates = dates;
 		if(dateComponents.length > 1)
-			cleanDates = cleanDates.filter(d => ((timePatterns.indexOf(d.type) > -1) || (d.value == dateComponents[0].value)));
+			cleanDates = cleanDates.filter(d => ((timePatterns.indexOf(d.type) > -1) || d.type == "recurrence" || (d.value == dateComponents[0].value)));
 		if(times.length > 1)
-			cleanDates = cleanDates.filter(d =>  ((dateComponentPatterns.indexOf(d.type) > -1) || (d.value == times[0].value)));
+			cleanDates = cleanDates.filter(d =>  ((dateComponentPatterns.indexOf(d.type) > -1) || d.type == "recurrence" || (d.value == times[0].value)));
+		if(recurrences.length > 1)
+			cleanDates = cleanDates.filter(d => d.type != "recurrence" || d.value == recurrences[0].value);
 		return cleanDates;
 	}
 
-	private parseDates(dates): DateRange {
-		const timeRelatedString = dates.map(e => e.value).toString().replaceAll(",", " ");
+	// Times followed by a time zone (e.g. "3pm EST") are converted to local time
+	private parseDates(dates, sentence: Sentence): DateRange {
+		const referenceDate = this.getReferenceDate(sentence);
+		const timezone = smartDateParser.getTimezone(sentence.value);
+		const recurrence = this.parseRecurrence(dates);
+		const dateRelatedItems = dates.filter(e => e.type != "recurrence");
+		let timeRelatedString = dateRelatedItems.map(e => e.value).toString().replaceAll(",", " ");
+		// A time followed by a zone ("10:00 CET") isn't recognised as a time entity
+		const hasTime = dateRelatedItems.some(e => ["exactTime", "timeRange"].contains(e.type));
+		const zonedTime = smartDateParser.getZonedTime(sentence.value);
+		if (!hasTime && zonedTime != undefined) timeRelatedString += ` ${zonedTime}`;
 				if (timeRelatedString.indexOf("%") > - 1) return undefined;
-		const parsed = smartDateParser.parse(timeRelatedString) as ParsedResult[];
-		return smartDateParser.getDates(parsed);
+		const parsed = timeRelatedString.length == 0 ? [] : smartDateParser.parse(timeRelatedString, Languages.english, referenceDate) as ParsedResult[];
+		let dateRange = smartDateParser.getDates(parsed);
+		if (recurrence != undefined){
+			// Recurring events start from their first occurrence
+			const hasExplicitDate = dateRelatedItems.some(e => ["date", "dateInterval", "ordinalDate", "ordinalDateReverse"].contains(e.type));
+			dateRange = smartDateParser.getFirstOccurrence(recurrence, dateRange, hasExplicitDate, referenceDate);
+		}
+		if (timezone == undefined) return dateRange;
+		return smartDateParser.fromTimezone(dateRange, timezone);
+	}
+
+	// In daily notes and meeting logs "tomorrow" is the day after the note's date, keeping the current time of the day
+	private getReferenceDate(sentence: Sentence): Date {
+		const now = new Date();
+		const noteDate = Misc.getNoteDate(sentence.filePath);
+		if (noteDate == undefined) return now;
+		const referenceDate = new Date(noteDate);
+		referenceDate.setHours(now.getHours(), now.getMinutes(), now.getSeconds());
+		return referenceDate;
+	}
+
+	private parseRecurrence(dates): string | undefined {
+		const recurrence = dates.filter(e => e.type == "recurrence").first();
+		if (recurrence == undefined) return undefined;
+		return smartDateParser.getRecurrence(recurrence.value);
 	}
 
 	private getEventTitle(backwardsAdjAttributes, forwardAdjAttributes, selectedEventNoun, selectedProperName, purpose): string {
@@ -480,12 +755,30 @@ class NlpController {
 		return eventTitle;
 	}
 
+	// Banned patterns skip the whole line, e.g. "%20th" inside [something](...%20The...)
 	private bannedPattern(sentence: Sentence) {
-		// Consider giving the possibility to specify some patterns that the user dont want to match
-		// e.g. [something](...%20The...)
-		// Forbid %20th
 		if(!this._setting.bannedPatterns) return false;
-		return this._setting.bannedPatterns.some(bannedPattern => sentence.value.indexOf(bannedPattern) > -1);
+		return this._setting.bannedPatterns.some(bannedPattern => this.matchesBannedPattern(sentence, bannedPattern));
+	}
+
+	private matchesBannedPattern(sentence: Sentence, bannedPattern: BannedPattern): boolean {
+		if (bannedPattern.scope == BannedPatternScope.FOLDER){
+			const folder = (bannedPattern.folder ?? "").trim().toLowerCase();
+			const folderPrefix = folder.endsWith("/") ? folder : `${folder}/`;
+			if (folder.length == 0 || !sentence.filePath.toLowerCase().startsWith(folderPrefix)) return false;
+		}
+		// Markdown links, wikilinks, URLs and inline code
+		const texts = bannedPattern.scope == BannedPatternScope.LINKS_AND_CODE ?
+			sentence.value.match(/\[[^\]]*\]\([^)]*\)|\[\[[^\]]*\]\]|`[^`]*`|https?:\/\/[^\s>)]+/g) ?? [] :
+			[sentence.value];
+		if (!bannedPattern.isRegex) return texts.some(text => text.indexOf(bannedPattern.value) > -1);
+		try {
+			const regex = new RegExp(bannedPattern.value);
+			return texts.some(text => regex.test(text));
+		} catch (e) {
+			console.warn("Invalid banned pattern", bannedPattern.value);
+			return false;
+		}
 	}
 
 	private getCustomEvent(sentence: Sentence) {
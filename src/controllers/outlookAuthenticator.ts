@@ -0,0 +1,118 @@
+import * as http from "http";
+import {createHash, randomBytes} from "crypto";
+import {requestUrl, RequestUrlParam} from "obsidian";
+import {Misc} from "../misc/misc";
+
+export interface OutlookTokens {
+	accessToken: string;
+	refreshToken: string;
+	expiresAt: number;
+}
+
+// OAuth2 authorization code flow (public client + PKCE) with a loopback redirect
+// It works with any Microsoft identity platform compatible authority
+export class OutlookAuthenticator {
+	private scopes: string[];
+	private authority: string;
+	private clientId: string;
+
+	constructor(scopes: string[], authority: string, clientId: string) {
+		this.scopes = scopes;
+		this.authority = authority.endsWith("/") ? authority.slice(0, -1) : authority;
+		this.clientId = clientId;
+	}
+
+	async authenticate(): Promise<OutlookTokens>{
+		const codeVerifier = randomBytes(32).toString("base64url");
+		const codeChallenge = createHash("sha256").update(codeVerifier).digest("base64url");
+		const freePort = await Misc.getPortFree();
+		const redirectUri = `http://localhost:${freePort}`;
+
+		return new Promise((resolve, reject) => {
+			// The login is abandoned if the browser doesn't come back in time
+			const timeout = setTimeout(function() {
+				server.close();
+				console.warn("Timeout [30s]: closing oauth server");
+				reject(new Error("Outlook authentication timed out"));
+			}, 30000);
+
+			const server = http.createServer(async (req, res) => {
+				clearTimeout(timeout);
+				try {
+					const url = new URL(req.url, redirectUri);
+					const searchParams = url.searchParams;
+					if (searchParams.has('error')) {
+						res.end('Authorization rejected.');
+						reject(new Error(searchParams.get('error')));
+						return;
+					}
+					if (!searchParams.has('code')) {
+						res.end('No authentication code provided.');
+						reject(new Error('Cannot read authentication code.'));
+						return;
+					}
+
+					const tokens = await this.requestTokens({
+						grant_type: "authorization_code",
+						code: searchParams.get('code'),
+						redirect_uri: redirectUri,
+						code_verifier: codeVerifier
+					});
+					resolve(tokens);
+					res.end('Authentication successful! Please return to the console.');
+				} catch (e) {
+					reject(e);
+				} finally {
+					server.close();
+				}
+			});
+
+			try {
+				server.listen(freePort, () => {
+					const authorizeParams = new URLSearchParams({
+						client_id: this.clientId,
+						response_type: "code",
+						redirect_uri: redirectUri,
+						response_mode: "query",
+						scope: this.scopes.join(' '),
+						code_challenge: codeChallenge,
+						code_challenge_method: "S256"
+					});
+					// open the browser to the authorize url to start the workflow
+					open(`${this.authority}/oauth2/v2.0/authorize?${authorizeParams}`);
+				});
+			} catch (e) {
+				if (e.code == "EADDRINUSE") {
+					console.warn("Address in use, the server connection will be closed soon...");
+				} else {
+					console.warn("OAuth server error: ", e);
+				}
+			}
+		});
+	}
+
+	async refresh(refreshToken: string): Promise<OutlookTokens> {
+		return await this.requestTokens({
+			grant_type: "refresh_token",
+			refresh_token: refreshToken
+		});
+	}
+
+	private async requestTokens(params: Record<string, string>): Promise<OutlookTokens> {
+		const requestUrlParam = {
+			url: `${this.authority}/oauth2/v2.0/token`,
+			method: "POST",
+			contentType: "application/x-www-form-urlencoded",
+			body: new URLSearchParams({client_id: this.clientId, scope: this.scopes.join(' '), ...params}).toString(),
+			throw: false
+		} as RequestUrlParam;
+		const response = await requestUrl(requestUrlParam);
+		if (response.status != 200) throw new Error(`Token request failed: ${response.status} ${response.text}`);
+		return {
+			accessToken: response.json.access_token,
+			// Refresh tokens can be rotated
+			refreshToken: response.json.refresh_token ?? params.refresh_token,
+			expiresAt: Date.now() + response.json.expires_in * 1000
+		};
+	}
+}
@@ -0,0 +1,185 @@
+import {CloudController} from "./cloudController";
+import {DateRange} from "../model/dateRange";
+import {CloudEvent} from "../model/events/cloudEvent";
+import {CloudStatus} from "../model/cloudCalendar/cloudStatus";
+import {SettingInterface} from "../plugin/appSetting";
+import {OutlookCalendar} from "../model/cloudCalendar/outlookCalendar";
+import {OutlookCalendarEvent} from "../model/events/outlookCalendarEvent";
+import {OutlookAuthenticator, OutlookTokens} from "./outlookAuthenticator";
+import {requestUrl, RequestUrlParam, RequestUrlResponse} from "obsidian";
+import safeController from "./safeController";
+import calendarViewController from "./calendarViewController";
+
+export class OutlookCalendarController implements CloudController {
+	private _pluginPath: string;
+	private _accountId: string;
+	private readonly _scopes: string[];
+	private _calendars: OutlookCalendar[];
+	private _currentCalendarId: string;
+	private _settings: SettingInterface;
+	private _tokens: OutlookTokens;
+
+	constructor() {
+		this._scopes = ["offline_access", "User.Read", "Calendars.ReadWrite"];
+		this._calendars = [];
+	}
+
+	async managePushNotifications(){
+		// Graph change notifications need a public HTTPS endpoint
+	}
+
+	async pushEvent(cloudEvent: CloudEvent, calendarName?: string): Promise<boolean>{
+		const outlookEvent = cloudEvent as OutlookCalendarEvent;
+		const calendarId = this._calendars.filter(calendar => calendar.name == calendarName).first()?.id ?? this._currentCalendarId;
+		const response = await this.executeRequest(`/me/calendars/${calendarId}/events`, "POST", this.getBody(outlookEvent));
+		if (response.status != 201) return false;
+		// The Graph id is needed to update the event later on
+		outlookEvent.id = response.json.id;
+		return true;
+	}
+
+	async updateEvent(cloudEvent: CloudEvent): Promise<boolean>{
+		const outlookEvent = cloudEvent as OutlookCalendarEvent;
+		const response = await this.executeRequest(`/me/events/${outlookEvent.id}`, "PATCH", this.getBody(outlookEvent));
+		calendarViewController.postProcessorUpdate();
+		return response.status == 200;
+	}
+
+	async deleteEvent(cloudEvent: CloudEvent): Promise<boolean>{
+		const outlookEvent = cloudEvent as OutlookCalendarEvent;
+		if (outlookEvent.id == undefined) return false;
+		const response = await this.executeRequest(`/me/events/${outlookEvent.id}`, "DELETE");
+		calendarViewController.postProcessorUpdate();
+		// Already deleted events are fine as well
+		return response.status == 204 || response.status == 404;
+	}
+
+	async getEvents(missedDateRange: DateRange): Promise<CloudEvent[]> {
+		// The missed date range includes the whole end day
+		const rangeEnd = new Date(missedDateRange.end);
+		rangeEnd.setDate(rangeEnd.getDate() + 1);
+		const queryParams = new URLSearchParams({
+			startDateTime: missedDateRange.start.toISOString(),
+			endDateTime: rangeEnd.toISOString(),
+			$top: "100"
+		});
+		let endpoint = `/me/calendars/${this._currentCalendarId}/calendarView?${queryParams}`;
+		const outlookEvents: OutlookCalendarEvent[] = [];
+		while (endpoint != undefined){
+			const response = await this.executeRequest(endpoint, "GET");
+			if (response.status != 200) throw new Error(`Graph calendarView error: ${response.status}`);
+			outlookEvents.push(...response.json.value as OutlookCalendarEvent[]);
+			endpoint = response.json["@odata.nextLink"];
+		}
+
+		outlookEvents.forEach(outlookEvent => {
+			outlookEvent.cloudEventUUID = outlookEvent.id;
+			outlookEvent.cloudEventTitle = outlookEvent.subject;
+			// The dates are returned in UTC (see the Prefer header) without offset
+			outlookEvent.cloudEventStartDate = new Date(`${outlookEvent.start.dateTime.substring(0, 19)}Z`);
+			outlookEvent.cloudEventEndDate = new Date(`${outlookEvent.end.dateTime.substring(0, 19)}Z`);
+		})
+
+		return outlookEvents;
+	}
+
+	injectPath(pluginPath: string) {
+		this._pluginPath = pluginPath;
+	}
+
+	injectAccountId(accountId: string) {
+		this._accountId = accountId;
+	}
+
+	injectSettings(settings: SettingInterface) {
+		this._settings = settings;
+		this.selectCurrentCalendar();
+	}
+
+	async tryAuthentication(auth: Map<string,string>): Promise<CloudStatus> {
+		const authenticator = new OutlookAuthenticator(this._scopes, this._settings.outlookAuthority, this._settings.outlookClientId);
+		try {
+			if (auth) this._tokens = await authenticator.refresh(auth.get("outlookRefreshToken"));
+			else this._tokens = await authenticator.authenticate();
+		} catch (e) {
+			console.warn("Error during Outlook authentication", e);
+			return CloudStatus.ERROR;
+		}
+		this.storeTokens();
+		return CloudStatus.LOGGED;
+	}
+
+	async preloadData() {
+		const response = await this.executeRequest("/me/calendars", "GET");
+		if (response.status != 200) {
+			console.warn("Couldn't load the Outlook calendars", response.status);
+			return;
+		}
+		this._calendars = response.json.value as OutlookCalendar[];
+		this.selectCurrentCalendar();
+	}
+
+	getCalendarNames() {
+		return this._calendars.map(calendar => calendar.name);
+	}
+
+	private selectCurrentCalendar() {
+		if (this._calendars.length == 0) return;
+		const currentCalendar = this._calendars.filter(calendar => calendar.name == this._settings.calendar).first() ??
+			this._calendars.filter(calendar => calendar.isDefaultCalendar).first() ??
+			this._calendars.first();
+		this._currentCalendarId = currentCalendar.id;
+	}
+
+	private getBody(outlookEvent: OutlookCalendarEvent): object {
+		return {
+			subject: outlookEvent.subject,
+			body: outlookEvent.body,
+			start: outlookEvent.start,
+			end: outlookEvent.end,
+			location: outlookEvent.location,
+			isAllDay: outlookEvent.isAllDay,
+			recurrence: outlookEvent.recurrence,
+			attendees: outlookEvent.attendees,
+			isReminderOn: outlookEvent.isReminderOn,
+			reminderMinutesBeforeStart: outlookEvent.reminderMinutesBeforeStart
+		};
+	}
+
+	private storeTokens() {
+		const credentialMap = new Map<string, string>();
+		credentialMap.set("outlookRefreshToken", this._tokens.refreshToken);
+		credentialMap.set("outlookAccessToken", this._tokens.accessToken);
+		safeController.storeCredentials(credentialMap, this._accountId);
+	}
+
+	private async executeRequest(endpoint: string, method: string, body?: object, retry = true): Promise<RequestUrlResponse> {
+		// Access tokens last about an hour
+		if (Date.now() > this._tokens.expiresAt - 60 * 1000) await this.refreshTokens();
+		const graphEndpoint = this._settings.outlookGraphEndpoint.endsWith("/") ? this._settings.outlookGraphEndpoint.slice(0, -1) : this._settings.outlookGraphEndpoint;
+		const requestUrlParam = {
+			// Next links are absolute URLs
+			url: endpoint.startsWith("http") ? endpoint : `${graphEndpoint}${endpoint}`,
+			method,
+			headers: {
+				Authorization: `Bearer ${this._tokens.accessToken}`,
+				Prefer: "outlook.timezone=\"UTC\""
+			},
+			contentType: "application/json",
+			body: body == undefined ? undefined : JSON.stringify(body),
+			throw: false
+		} as RequestUrlParam;
+		const response = await requestUrl(requestUrlParam);
+		if (response.status == 401 && retry){
+			await this.refreshTokens();
+			return await this.executeRequest(endpoint, method, body, false);
+		}
+		return response;
+	}
+
+	private async refreshTokens() {
+		const authenticator = new OutlookAuthenticator(this._scopes, this._settings.outlookAuthority, this._settings.outlookClientId);
+		this._tokens = await authenticator.refresh(this._tokens.refreshToken);
+		this.storeTokens();
+	}
+}
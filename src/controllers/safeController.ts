@@ -1,20 +1,27 @@
 import crypto from "crypto";
 import {SettingInterface} from "../plugin/appSetting";
 import {CalendarProvider} from "../model/cloudCalendar/calendarProvider";
+import {CalendarAccount} from "../model/cloudCalendar/calendarAccount";
+import {Misc} from "../misc/misc";
 
 class SafeController {
 	_pluginPath: string;
 	_path: string;
 	settings: SettingInterface;
-	_credentialsMap: Map<string, string>;
 	_key: Buffer;
 	_iv: Buffer;
 	_algorithm: string;
-	_calendarProvider: CalendarProvider;
-
+	// Credentials needed by each provider to log in without user interaction
+	_providerCredentialKeys: Map<CalendarProvider, string[]>;
 
 	constructor() {
-		this._credentialsMap = new Map<string, string>();
+		this._providerCredentialKeys = new Map<CalendarProvider, string[]>([
+			[CalendarProvider.APPLE, ["magicCalendarSyncUsername", "magicCalendarSyncPassword"]],
+			[CalendarProvider.GOOGLE, ["accessToken", "refreshToken", "clientId", "clientSecret", "tokenType"]],
+			[CalendarProvider.ICS, ["icsFilePath"]],
+			[CalendarProvider.CALDAV, ["caldavServerUrl", "caldavUsername", "caldavPassword"]],
+			[CalendarProvider.OUTLOOK, ["outlookRefreshToken", "outlookAccessToken"]],
+		]);
 	}
 
 	injectPath(pluginPath: string){
@@ -29,51 +36,48 @@ class SafeController {
 		this._algorithm = "aes-256-cbc";
 	}
 
-	injectCalendarProvider(calendarProvider: CalendarProvider){
-		this._calendarProvider = calendarProvider;
+	// Credentials are namespaced by account: "<accountId>.<credentialKey>"
+	getNamespacedKey(key: string, accountId: string): string {
+		return `${accountId}.${key}`;
 	}
 
-	checkSafe(): boolean{
-		if (this._calendarProvider == CalendarProvider.NOT_SELECTED) return false;
-		if (this._calendarProvider == CalendarProvider.APPLE){
-			const username = localStorage.getItem("magicCalendarSyncUsername");
-			const password = localStorage.getItem("magicCalendarSyncPassword");
-			if (username == undefined || password == undefined) return false;
-			this._credentialsMap.set("magicCalendarSyncUsername", username);
-			this._credentialsMap.set("magicCalendarSyncPassword", password);
-			return true;
-		}
-
-		const accessToken = localStorage.getItem("accessToken");
-		const refreshToken = localStorage.getItem("refreshToken");
-		const clientId = localStorage.getItem("clientId");
-		const clientSecret = localStorage.getItem("clientSecret");
-		const tokenType = localStorage.getItem("tokenType");
-
-		if (accessToken == undefined || refreshToken == undefined || clientId == undefined || tokenType == undefined || clientSecret == undefined) return false;
-
-		this._credentialsMap.set("accessToken", accessToken);
-		this._credentialsMap.set("refreshToken", refreshToken);
-		this._credentialsMap.set("clientId", clientId);
-		this._credentialsMap.set("tokenType", tokenType);
-		this._credentialsMap.set("clientSecret", clientSecret);
-		return true;
+	checkSafe(account: CalendarAccount): boolean{
+		const requiredKeys = this._providerCredentialKeys.get(account.provider);
+		if (requiredKeys == undefined) return false;
+		return requiredKeys.every(key => localStorage.getItem(this.getNamespacedKey(key, account.id)) != undefined);
 	}
 
-	getCredentials(): Map<string, string>{
+	getCredentials(accountId: string): Map<string, string>{
 		const decryptedMap = new Map<string, string>();
-		Array.from(this._credentialsMap.entries()).forEach(credentialEntry => {
-			const decryptedValue = this.decrypt(credentialEntry[1]);
-			decryptedMap.set(credentialEntry[0], decryptedValue);
+		Misc.credentialKeyList.forEach(key => {
+			const encryptedValue = localStorage.getItem(this.getNamespacedKey(key, accountId));
+			if (encryptedValue == undefined) return;
+			decryptedMap.set(key, this.decrypt(encryptedValue));
 		})
 		return decryptedMap;
 	}
 
-	storeCredentials(credentials: Map<string, string>){
+	storeCredentials(credentials: Map<string, string>, accountId: string){
 		Array.from(credentials.entries()).forEach(credentialEntry => {
 			const encryptedValue = this.encrypt(credentialEntry[1]);
-			this._credentialsMap.set(credentialEntry[0], encryptedValue);
-			localStorage.setItem(credentialEntry[0], encryptedValue);
+			localStorage.setItem(this.getNamespacedKey(credentialEntry[0], accountId), encryptedValue);
+		})
+	}
+
+	deleteCredentials(accountId: string){
+		Misc.credentialKeyList.forEach(key => {
+			const namespacedKey = this.getNamespacedKey(key, accountId);
+			if (localStorage.getItem(namespacedKey) != undefined) localStorage.removeItem(namespacedKey);
+		})
+	}
+
+	// Before multiple accounts were supported, the credentials were stored in flat keys
+	migrateLegacyCredentials(accountId: string){
+		Misc.credentialKeyList.forEach(key => {
+			const legacyValue = localStorage.getItem(key);
+			if (legacyValue == undefined) return;
+			localStorage.setItem(this.getNamespacedKey(key, accountId), legacyValue);
+			localStorage.removeItem(key);
 		})
 	}
 
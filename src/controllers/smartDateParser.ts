@@ -1,10 +1,31 @@
-import {casual, Chrono, Component, ParsedResult} from "chrono-node";
+import {casual, Chrono, Component, de, es, fr, ParsedResult, Parser} from "chrono-node";
 import {ParsedComponents} from "chrono-node/dist/cjs/types";
 import {DateRange} from "../model/dateRange";
 import {IndexedAccessType} from "typedoc";
+import {Languages} from "../misc/languages";
+import moment from "moment-timezone";
 
 class SmartDateParser {
 	private _chrono: Chrono;
+	// Language code -> parser, English is _chrono
+	private readonly _localizedChronos: Map<string, Chrono>;
+	// RFC 5545 day codes, indexed as Date.getDay()
+	private readonly _dayCodes = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+	private readonly _dayNames = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"];
+	private readonly _numberWords = new Map<string, number>([["a", 1], ["an", 1], ["one", 1], ["two", 2], ["three", 3], ["four", 4], ["five", 5],
+		["ten", 10], ["fifteen", 15], ["twenty", 20], ["thirty", 30]]);
+	private readonly _unitMinutes = new Map<string, number>([["min", 1], ["hour", 60], ["day", 24 * 60], ["week", 7 * 24 * 60]]);
+	// Time zone abbreviation -> IANA zone: the daylight saving time is handled by moment-timezone
+	private readonly _timezones = new Map<string, string>([
+		["est", "America/New_York"], ["edt", "America/New_York"], ["et", "America/New_York"],
+		["cst", "America/Chicago"], ["cdt", "America/Chicago"], ["ct", "America/Chicago"],
+		["mst", "America/Denver"], ["mdt", "America/Denver"], ["mt", "America/Denver"],
+		["pst", "America/Los_Angeles"], ["pdt", "America/Los_Angeles"], ["pt", "America/Los_Angeles"],
+		["utc", "Etc/UTC"], ["gmt", "Etc/GMT"], ["bst", "Europe/London"], ["wet", "Europe/Lisbon"], ["west", "Europe/Lisbon"],
+		["cet", "Europe/Paris"], ["cest", "Europe/Paris"], ["eet", "Europe/Athens"], ["eest", "Europe/Athens"], ["msk", "Europe/Moscow"],
+		["ist", "Asia/Kolkata"], ["sgt", "Asia/Singapore"], ["hkt", "Asia/Hong_Kong"], ["jst", "Asia/Tokyo"], ["kst", "Asia/Seoul"],
+		["aest", "Australia/Sydney"], ["aedt", "Australia/Sydney"], ["awst", "Australia/Perth"], ["nzst", "Pacific/Auckland"], ["nzdt", "Pacific/Auckland"]
+	]);
 
 	constructor() {
 		this._chrono = casual.clone();
@@ -16,15 +37,21 @@ class SmartDateParser {
 				parsedDay = parsedDay.replaceAll("rd", "");
 				parsedDay = parsedDay.replaceAll("th", "");
 				return {
-					day: Number(parsedDay),
-					hour: 0
+					day: Number(parsedDay)
 				}
 			}
 		})
+		this._localizedChronos = new Map<string, Chrono>([
+			["de", de.casual.clone()],
+			["fr", fr.casual.clone()],
+			["es", es.casual.clone()],
+			["it", this.getItalianChrono()]
+		]);
 	}
 
-	parse(text: string){
-		return this._chrono.parse(text);
+	// Relative dates ("tomorrow", "next friday") are computed from the reference date
+	parse(text: string, language = Languages.english, referenceDate = new Date()){
+		return (this._localizedChronos.get(language) ?? this._chrono).parse(text, referenceDate);
 	}
 
 	getDates(parsed: ParsedResult[]): DateRange {
@@ -83,7 +110,175 @@ class SmartDateParser {
 			components[9].length == 0 ? start.getMinutes(): components[9][0],
 		);
 
-		return new DateRange(start, end);
+		// Without any time the event lasts the whole day(s)
+		const allDay = [components[3], components[4], components[8], components[9]].every(c => c.length == 0);
+		if (allDay) end.setDate(end.getDate() + 1);
+
+		return new DateRange(start, end, allDay);
+	}
+
+	// "from march 3rd to march 5th" is a date interval, "2 hours" isn't
+	isDateInterval(text: string): boolean {
+		return this.parse(text).some(parsed => parsed.end != undefined);
+	}
+
+	// From "every tuesday and thursday", "every other week", "daily"... to an RRULE (without the "RRULE:" prefix)
+	getRecurrence(text: string): string | undefined {
+		const words = text.toLowerCase().split(/[\s,]+/).filter(word => word.length > 0);
+		const interval = words.contains("other") ? 2 : 1;
+		const byDay = this._dayNames.filter(dayName => words.some(word => word.startsWith(dayName))).map(dayName => this._dayCodes[this._dayNames.indexOf(dayName)]);
+		let frequency: string;
+		if (words.some(word => word.startsWith("weekday"))) return "FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR";
+		if (words.contains("weekend")) return "FREQ=WEEKLY;BYDAY=SA,SU";
+		if (byDay.length > 0) frequency = "WEEKLY";
+		else if (words.contains("day") || words.contains("daily")) frequency = "DAILY";
+		else if (words.contains("week") || words.contains("weekly")) frequency = "WEEKLY";
+		else if (words.contains("month") || words.contains("monthly")) frequency = "MONTHLY";
+		else if (words.contains("year") || words.contains("yearly") || words.contains("annually")) frequency = "YEARLY";
+		if (frequency == undefined) return undefined;
+		let rrule = `FREQ=${frequency}`;
+		if (interval > 1) rrule += `;INTERVAL=${interval}`;
+		if (byDay.length > 0) rrule += `;BYDAY=${byDay.join(",")}`;
+		return rrule;
+	}
+
+	getRecurrenceParts(rrule: string): Map<string, string> {
+		return new Map(rrule.split(";").map(part => part.split("=") as [string, string]));
+	}
+
+	// The first occurrence starts on the first matching week day, unless an explicit date has been written
+	getFirstOccurrence(rrule: string, dateRange: DateRange | undefined, hasExplicitDate: boolean, referenceDate = new Date()): DateRange {
+		const today = new Date(referenceDate);
+		today.setHours(0, 0, 0, 0);
+		const tomorrow = new Date(today);
+		tomorrow.setDate(tomorrow.getDate() + 1);
+		const range = dateRange ?? new DateRange(today, tomorrow, true);
+		const byDay = this.getRecurrenceParts(rrule).get("BYDAY");
+		if (hasExplicitDate || byDay == undefined) return range;
+		const days = byDay.split(",").map(dayCode => this._dayCodes.indexOf(dayCode));
+		let dayOffset = 0;
+		while (!days.contains((today.getDay() + dayOffset) % 7) && dayOffset < 7) dayOffset++;
+		const start = new Date(today);
+		start.setDate(start.getDate() + dayOffset);
+		start.setHours(range.start.getHours(), range.start.getMinutes());
+		const end = new Date(start.getTime() + (range.end.getTime() - range.start.getTime()));
+		return new DateRange(start, end, range.allDay);
+	}
+
+	// Human readable version of the RRULE, e.g. "Weekly on TU, TH"
+	describeRecurrence(rrule: string): string {
+		const recurrenceParts = this.getRecurrenceParts(rrule);
+		const frequency = recurrenceParts.get("FREQ") ?? "";
+		let description = frequency.charAt(0) + frequency.substring(1).toLowerCase();
+		if (recurrenceParts.has("INTERVAL")) description += ` (every ${recurrenceParts.get("INTERVAL")})`;
+		if (recurrenceParts.has("BYDAY")) description += ` on ${recurrenceParts.get("BYDAY").replaceAll(",", ", ")}`;
+		return description;
+	}
+
+	// From "remind me an hour before", "with a 10 min alert"... to the minutes before the event
+	getReminderMinutes(text: string): number | undefined {
+		const match = text.toLowerCase().match(/(\d+|[a-z]+)\s+(min|hour|day|week)/);
+		if (match == null) return undefined;
+		const amount = /^\d+$/.test(match[1]) ? Number(match[1]) : this._numberWords.get(match[1]);
+		if (amount == undefined) return undefined;
+		return amount * this._unitMinutes.get(match[2]);
+	}
+
+	// Human readable version of the reminder, e.g. "15 minutes before"
+	describeReminder(minutes: number): string {
+		if (minutes == 0) return "At the start";
+		const unit = Array.from(this._unitMinutes.entries()).reverse().filter(unitMinutes => minutes % unitMinutes[1] == 0).first();
+		const amount = minutes / unit[1];
+		const unitName = unit[0] == "min" ? "minute" : unit[0];
+		return `${amount} ${unitName}${amount == 1 ? "" : "s"} before`;
+	}
+
+	// From "at 3pm EST", "10:00 CET", "9am Europe/Rome"... to an IANA time zone.
+	// The zone must follow a time and be upper case, otherwise words like "et" or "pt" would match
+	getTimezone(text: string): string | undefined {
+		return this.matchTimezone(text)?.zone;
+	}
+
+	// The time written before the zone, e.g. "10:00" from "Webinar tomorrow 10:00 CET"
+	getZonedTime(text: string): string | undefined {
+		return this.matchTimezone(text)?.time;
+	}
+
+	private matchTimezone(text: string): {zone: string, time: string} | undefined {
+		const time = "\\d{1,2}(?:[:.]\\d{2})?(?:\\s*(?:[aApP]\\.?[mM]\\.?|h))?";
+		const regex = new RegExp(`(${time}(?:\\s*[-–]\\s*${time})?)\\s*\\(?([A-Z]{2,4}|[A-Z][a-z]+\\/[A-Za-z_]+)\\)?(?![\\w/])`, "g");
+		let match: RegExpExecArray;
+		while ((match = regex.exec(text)) != null){
+			const zone = match[2].contains("/") ? match[2] : this._timezones.get(match[2].toLowerCase());
+			if (zone != undefined && moment.tz.zone(zone) != null) return {zone, time: match[1]};
+		}
+		return undefined;
+	}
+
+	// The parsed times are wall clock times of the mentioned time zone
+	fromTimezone(dateRange: DateRange, timezone: string): DateRange {
+		if (dateRange == undefined || dateRange.allDay) return dateRange;
+		const convert = (date: Date) => moment.tz(moment(date).format("YYYY-MM-DD HH:mm"), "YYYY-MM-DD HH:mm", timezone).toDate();
+		return new DateRange(convert(dateRange.start), convert(dateRange.end), false);
+	}
+
+	// The source time of the event, e.g. "15:00 - 16:00 EST"
+	describeTimezone(start: Date, end: Date, timezone: string): string {
+		const startTime = moment(start).tz(timezone).format("HH:mm");
+		const endTime = moment(end).tz(timezone).format("HH:mm");
+		const zoneName = moment(start).tz(timezone).format("z");
+		return startTime == endTime ? `${startTime} ${zoneName}` : `${startTime} - ${endTime} ${zoneName}`;
+	}
+
+	// Chrono doesn't have an Italian locale (yet): oggi, domani, venerdì, 12 marzo, alle 15, dalle 9 alle 11
+	private getItalianChrono(): Chrono {
+		const weekDays = ["domenica", "luned[iì]", "marted[iì]", "mercoled[iì]", "gioved[iì]", "venerd[iì]", "sabato"];
+		const months = ["gennaio", "febbraio", "marzo", "aprile", "maggio", "giugno", "luglio", "agosto", "settembre", "ottobre", "novembre", "dicembre"];
+		const relativeDays = new Map<string, number>([["oggi", 0], ["stamattina", 0], ["stasera", 0], ["domani", 1], ["dopodomani", 2]]);
+		const italianParsers: Parser[] = [
+			{
+				pattern: () => /(?<![\wàèéìòù])(oggi|stamattina|stasera|dopodomani|domani)(?![\wàèéìòù])/i,
+				extract: (context, match) => {
+					const date = new Date(context.refDate);
+					date.setDate(date.getDate() + relativeDays.get(match[1].toLowerCase()));
+					return {day: date.getDate(), month: date.getMonth() + 1, year: date.getFullYear()};
+				}
+			},
+			{
+				pattern: () => new RegExp(`(?<![\\wàèéìòù])(?:(?:il|la)\\s+)?(${weekDays.join("|")})(?:\\s+prossim[oa])?(?![\\wàèéìòù])`, "i"),
+				extract: (context, match) => {
+					const weekDay = weekDays.findIndex(weekDayPattern => new RegExp(`^${weekDayPattern}$`, "i").test(match[1]));
+					// The next occurrence of the week day
+					const date = new Date(context.refDate);
+					date.setDate(date.getDate() + (weekDay - date.getDay() + 7) % 7);
+					return {day: date.getDate(), month: date.getMonth() + 1, year: date.getFullYear()};
+				}
+			},
+			{
+				pattern: () => new RegExp(`(\\d{1,2})\\s+(${months.join("|")})(?:\\s+(\\d{4}))?(?![\\wàèéìòù])`, "i"),
+				extract: (context, match) => {
+					const components = {day: Number(match[1]), month: months.indexOf(match[2].toLowerCase()) + 1};
+					return match[3] == undefined ? components : {...components, year: Number(match[3])};
+				}
+			},
+			{
+				pattern: () => /dalle\s+(\d{1,2})(?:[:.](\d{2}))?\s+alle\s+(\d{1,2})(?:[:.](\d{2}))?/i,
+				extract: (context, match) => {
+					const start = context.createParsingComponents({hour: Number(match[1]), minute: Number(match[2] ?? 0)});
+					const end = context.createParsingComponents({hour: Number(match[3]), minute: Number(match[4] ?? 0)});
+					return context.createParsingResult(match.index, match[0], start, end);
+				}
+			},
+			{
+				pattern: () => /(?:alle|verso\s+le)\s+(\d{1,2})(?:[:.](\d{2}))?/i,
+				extract: (context, match) => {
+					return {hour: Number(match[1]), minute: Number(match[2] ?? 0)};
+				}
+			}
+		];
+		const italianChrono = casual.clone();
+		italianChrono.parsers = italianParsers;
+		return italianChrono;
 	}
 
 	getOnlyIfCertain(parsedComponent: ParsedComponents, component: Component){
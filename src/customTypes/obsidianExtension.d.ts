@@ -1,5 +1,6 @@
 // Import the necessary types from Obsidian
 import { MarkdownView } from 'obsidian';
+import { EditorView } from '@codemirror/view';
 
 // Extend the existing type definition for MarkdownView
 declare module 'obsidian' {
@@ -15,4 +16,8 @@ declare module 'obsidian' {
 			text: string;
 		};
 	}
+
+	interface Editor {
+		cm: EditorView; // The CodeMirror view behind the editor
+	}
 }
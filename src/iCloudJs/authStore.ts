@@ -46,7 +46,7 @@ export class iCloudAuthenticationStore {
      */
     loadTrustToken(account: string) {
         try {
-			this.trustToken = safeController.decrypt(localStorage.getItem("trustToken"));
+			this.trustToken = safeController.decrypt(localStorage.getItem(safeController.getNamespacedKey("trustToken", this.options.accountId)));
         } catch (e) {
             console.debug("[icloud] Unable to load trust token:", e.toString());
         }
@@ -57,7 +57,7 @@ export class iCloudAuthenticationStore {
      */
     writeTrustToken(account: string) {
         try {
-			localStorage.setItem("trustToken", safeController.encrypt(this.trustToken));
+			localStorage.setItem(safeController.getNamespacedKey("trustToken", this.options.accountId), safeController.encrypt(this.trustToken));
         } catch (e) {
             console.warn("[icloud] Unable to write trust token:", e.toString());
         }
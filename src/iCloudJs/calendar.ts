@@ -114,6 +114,22 @@ export class iCloudCalendarService {
 
     }
 
+    // The web client deletes the events with a POST overriding the method
+    async deleteEvent(event: iCloudCalendarEvent, calendarCTag: string): Promise<boolean>{
+        const url = `/events/${event.pGuid}/${event.guid}`;
+        const queryParams = {
+            ...this.getQueryParams(event),
+            "methodOverride": "DELETE"
+        };
+        const extraHeaders = {
+            "Connection": "keep-alive",
+            "Referer": "https://www.icloud.com/"
+        }
+        const body = this.getBody(event, calendarCTag);
+        const requestStatus = await this.executeRequest(url, queryParams, "POST", body, extraHeaders, true);
+        return (requestStatus < 300 && requestStatus >= 200);
+    }
+
     private getQueryParams(event: iCloudCalendarEvent): Record<string, string> {
         const stringifiedStartDate = iCloudMisc.stringifyDateArray(event.startDate);
         const stringifiedEndDate = iCloudMisc.stringifyDateArray(event.endDate);
@@ -128,6 +144,9 @@ export class iCloudCalendarService {
     private getBody(newEvent: iCloudCalendarEvent, calendarCTag: string): object {
         return {
             Event: newEvent,
+            Recurrence: newEvent.recurrenceRule == undefined ? undefined : [newEvent.recurrenceRule],
+            Invitee: newEvent.inviteeDetails,
+            Alarm: newEvent.alarmDetails,
             ClientState: {
                 Collection: [
                     {
@@ -48,6 +48,10 @@ export interface iCloudServiceSetupOptions {
      * Defaults to the ~/.icloud directory.
      */
     dataDirectory?: string;
+    /**
+     * The MagicCalendar account the credentials and the trust-token belong to.
+     */
+    accountId?: string;
 }
 /**
  * The state of the iCloudService.
@@ -297,7 +301,7 @@ export default class iCloudService extends EventEmitter {
 						const credentialMap = new Map<string, string>();
 						credentialMap.set("magicCalendarSyncUsername", this.options.username.toString());
 						credentialMap.set("magicCalendarSyncPassword", this.options.password.toString());
-						if (this.options.saveCredentials) safeController.storeCredentials(credentialMap);
+						if (this.options.saveCredentials) safeController.storeCredentials(credentialMap, this.options.accountId);
                     } catch (e) {
                         console.warn("[icloud] Unable to save account credentials:", e);
                     }
@@ -0,0 +1,394 @@
+import moment from "moment-timezone";
+import {IcsCalendarEvent, IcsProperty} from "../model/events/icsCalendarEvent";
+
+// Minimal iCalendar (RFC 5545) helpers: just what is needed to read and write VEVENTs
+export class IcsMisc {
+	// Properties written by the plugin: every other property of an existing VEVENT is preserved
+	static managedProperties = ["UID", "DTSTAMP", "DTSTART", "DTEND", "DURATION", "SUMMARY", "DESCRIPTION", "LOCATION", "SEQUENCE", "RRULE", "ATTENDEE"];
+	// RFC 5545 day codes, indexed as Date.getDay()
+	private static dayCodes = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+
+	static emptyCalendar(calendarName: string): string {
+		return [
+			"BEGIN:VCALENDAR",
+			"VERSION:2.0",
+			"PRODID:-//MagicCalendar//Obsidian//EN",
+			`X-WR-CALNAME:${IcsMisc.escapeText(calendarName)}`,
+			"END:VCALENDAR",
+			""
+		].join("\r\n");
+	}
+
+	// A calendar object resource holding a single event (e.g. the body of a CalDAV PUT)
+	static wrapEvent(eventLines: string[]): string {
+		return IcsMisc.joinCalendar({
+			prologue: ["BEGIN:VCALENDAR", "VERSION:2.0", "PRODID:-//MagicCalendar//Obsidian//EN"],
+			events: [eventLines],
+			epilogue: ["END:VCALENDAR"]
+		});
+	}
+
+	// Long lines are folded on multiple lines starting with a white space
+	static unfold(text: string): string[] {
+		const lines = [];
+		text.split(/\r?\n/).forEach(line => {
+			if ((line.startsWith(" ") || line.startsWith("\t")) && lines.length > 0) lines[lines.length - 1] += line.substring(1);
+			else if (line.length > 0) lines.push(line);
+		})
+		return lines;
+	}
+
+	static fold(line: string): string[] {
+		const maxLength = 74;
+		const foldedLines = [line.substring(0, maxLength)];
+		for (let i = maxLength; i < line.length; i += maxLength - 1){
+			foldedLines.push(` ${line.substring(i, i + maxLength - 1)}`);
+		}
+		return foldedLines;
+	}
+
+	// Splits the calendar in the lines that precede the events, the events and the closing lines
+	static splitCalendar(text: string): {prologue: string[], events: string[][], epilogue: string[]} {
+		const prologue: string[] = [];
+		const events: string[][] = [];
+		const epilogue: string[] = [];
+		let currentEvent: string[];
+		IcsMisc.unfold(text).forEach(line => {
+			if (line == "BEGIN:VEVENT") currentEvent = [];
+			if (currentEvent != undefined){
+				currentEvent.push(line);
+				if (line == "END:VEVENT"){
+					events.push(currentEvent);
+					currentEvent = undefined;
+				}
+				return;
+			}
+			if (line == "END:VCALENDAR" || epilogue.length > 0) epilogue.push(line);
+			else prologue.push(line);
+		})
+		return {prologue, events, epilogue};
+	}
+
+	static joinCalendar(calendar: {prologue: string[], events: string[][], epilogue: string[]}): string {
+		const lines = [...calendar.prologue];
+		calendar.events.forEach(event => event.forEach(line => lines.push(...IcsMisc.fold(line))));
+		lines.push(...calendar.epilogue);
+		return lines.join("\r\n") + "\r\n";
+	}
+
+	// Returns the properties of the component, ignoring the nested ones (e.g. VALARM)
+	static parseProperties(lines: string[]): IcsProperty[] {
+		const properties: IcsProperty[] = [];
+		let depth = 0;
+		lines.forEach(line => {
+			if (line.startsWith("BEGIN:")) {
+				depth++;
+				return;
+			}
+			if (line.startsWith("END:")) {
+				depth--;
+				return;
+			}
+			if (depth != 1) return;
+			const property = IcsMisc.parseProperty(line);
+			if (property) properties.push(property);
+		})
+		return properties;
+	}
+
+	static parseProperty(line: string): IcsProperty | null {
+		// The value can contain colons (e.g. URLs), the parameters can contain quoted colons
+		const match = line.match(/^([^:;]+)((?:;[^=]+=(?:"[^"]*"|[^;:]*))*):(.*)$/);
+		if (match == null) return null;
+		const params: Record<string, string> = {};
+		match[2].split(";").filter(param => param.length > 0).forEach(param => {
+			const splitParam = param.split("=");
+			params[splitParam[0].toUpperCase()] = splitParam.slice(1).join("=").replaceAll("\"", "");
+		})
+		return {
+			name: match[1].toUpperCase(),
+			params,
+			value: match[3]
+		};
+	}
+
+	static getProperty(properties: IcsProperty[], name: string): IcsProperty | undefined {
+		return properties.filter(property => property.name == name).first();
+	}
+
+	static parseDate(property: IcsProperty): {date: Date, allDay: boolean} {
+		const value = property.value;
+		if (property.params["VALUE"] == "DATE" || /^\d{8}$/.test(value)){
+			return {
+				date: new Date(Number(value.substring(0, 4)), Number(value.substring(4, 6)) - 1, Number(value.substring(6, 8))),
+				allDay: true
+			};
+		}
+		if (value.endsWith("Z")) return {date: moment.utc(value, "YYYYMMDDTHHmmssZ").toDate(), allDay: false};
+		const tzid = property.params["TZID"];
+		// Floating times are interpreted in the local time zone
+		if (tzid == undefined || moment.tz.zone(tzid) == null) return {date: moment(value, "YYYYMMDDTHHmmss").toDate(), allDay: false};
+		return {date: moment.tz(value, "YYYYMMDDTHHmmss", tzid).toDate(), allDay: false};
+	}
+
+	static formatDate(date: Date): string {
+		return moment(date).utc().format("YYYYMMDD[T]HHmmss[Z]");
+	}
+
+	static formatDay(date: Date): string {
+		return moment(date).format("YYYYMMDD");
+	}
+
+	static escapeText(text: string): string {
+		return text.replaceAll("\\", "\\\\").replaceAll(";", "\\;").replaceAll(",", "\\,").replaceAll("\n", "\\n");
+	}
+
+	static unescapeText(text: string): string {
+		return text.replace(/\\([\\;,nN])/g, (match, char) => (char == "n" || char == "N") ? "\n" : char);
+	}
+
+	static toIcsCalendarEvent(lines: string[]): IcsCalendarEvent | null {
+		const properties = IcsMisc.parseProperties(lines);
+		const uid = IcsMisc.getProperty(properties, "UID");
+		const dtStart = IcsMisc.getProperty(properties, "DTSTART");
+		if (uid == undefined || dtStart == undefined) return null;
+		const start = IcsMisc.parseDate(dtStart);
+		const dtEnd = IcsMisc.getProperty(properties, "DTEND");
+		const duration = IcsMisc.getProperty(properties, "DURATION");
+		let endDate: Date;
+		if (dtEnd != undefined) endDate = IcsMisc.parseDate(dtEnd).date;
+		else if (duration != undefined) endDate = moment(start.date).add(moment.duration(duration.value)).toDate();
+		// A VEVENT without end lasts one day if it's all-day, zero otherwise
+		else endDate = start.allDay ? moment(start.date).add(1, "day").toDate() : start.date;
+
+		const summary = IcsMisc.unescapeText(IcsMisc.getProperty(properties, "SUMMARY")?.value ?? "");
+		const sequence = IcsMisc.getProperty(properties, "SEQUENCE");
+		return {
+			cloudEventUUID: uid.value,
+			cloudEventTitle: summary,
+			cloudEventStartDate: start.date,
+			cloudEventEndDate: endDate,
+			uid: uid.value,
+			summary,
+			description: IcsMisc.unescapeText(IcsMisc.getProperty(properties, "DESCRIPTION")?.value ?? ""),
+			location: IcsMisc.unescapeText(IcsMisc.getProperty(properties, "LOCATION")?.value ?? ""),
+			allDay: start.allDay,
+			sequence: sequence == undefined ? 0 : Number(sequence.value),
+			rrule: IcsMisc.getProperty(properties, "RRULE")?.value,
+			attendees: properties.filter(property => property.name == "ATTENDEE").map(property => ({
+				name: property.params["CN"],
+				email: property.value.replace(/^mailto:/i, "")
+			})),
+			icsLines: lines
+		} as IcsCalendarEvent;
+	}
+
+	// The occurrences overlapping the range: recurring VEVENTs (RRULE, RDATE, EXDATE) are expanded
+	// and the modified occurrences (VEVENTs with a RECURRENCE-ID) replace the generated ones
+	static expandEvents(eventsLines: string[][], rangeStart: Date, rangeEnd: Date): IcsCalendarEvent[] {
+		const overlapsRange = (icsEvent: IcsCalendarEvent) => icsEvent.cloudEventStartDate < rangeEnd && icsEvent.cloudEventEndDate >= rangeStart;
+		const masterEvents: {icsEvent: IcsCalendarEvent, properties: IcsProperty[]}[] = [];
+		// Map that connects the UID and the original start of an occurrence with its modified version
+		const modifiedOccurrences = new Map<string, IcsCalendarEvent>();
+		eventsLines.forEach(eventLines => {
+			const icsEvent = IcsMisc.toIcsCalendarEvent(eventLines);
+			if (icsEvent == null) return;
+			const properties = IcsMisc.parseProperties(eventLines);
+			const recurrenceIdProperty = IcsMisc.getProperty(properties, "RECURRENCE-ID");
+			if (recurrenceIdProperty == undefined){
+				masterEvents.push({icsEvent, properties});
+				return;
+			}
+			const recurrenceId = IcsMisc.parseDate(recurrenceIdProperty).date;
+			modifiedOccurrences.set(`${icsEvent.uid}-${recurrenceId.getTime()}`, IcsMisc.toOccurrence(icsEvent, recurrenceId));
+		})
+
+		const icsEvents: IcsCalendarEvent[] = [];
+		masterEvents.forEach(masterEvent => {
+			const icsEvent = masterEvent.icsEvent;
+			const isRecurring = ["RRULE", "RDATE"].some(name => IcsMisc.getProperty(masterEvent.properties, name) != undefined);
+			if (!isRecurring){
+				if (overlapsRange(icsEvent)) icsEvents.push(icsEvent);
+				return;
+			}
+			IcsMisc.getOccurrenceStarts(masterEvent.properties, rangeEnd).forEach(occurrenceStart => {
+				const occurrenceKey = `${icsEvent.uid}-${occurrenceStart.getTime()}`;
+				const modifiedOccurrence = modifiedOccurrences.get(occurrenceKey);
+				modifiedOccurrences.delete(occurrenceKey);
+				const occurrence = modifiedOccurrence ?? IcsMisc.toOccurrence(icsEvent, occurrenceStart, true);
+				if (overlapsRange(occurrence)) icsEvents.push(occurrence);
+			})
+		})
+		// Occurrences moved into the range from outside of it
+		modifiedOccurrences.forEach(modifiedOccurrence => {
+			if (overlapsRange(modifiedOccurrence)) icsEvents.push(modifiedOccurrence);
+		})
+		return icsEvents;
+	}
+
+	// Every occurrence gets its own UUID, the UID still identifies the whole series
+	private static toOccurrence(icsEvent: IcsCalendarEvent, recurrenceId: Date, shift = false): IcsCalendarEvent {
+		const occurrence = Object.assign(new IcsCalendarEvent(), icsEvent);
+		occurrence.cloudEventUUID = `${icsEvent.uid}-${IcsMisc.formatDate(recurrenceId)}`;
+		occurrence.recurrenceId = recurrenceId;
+		if (shift){
+			const unit = icsEvent.allDay ? "days" : "milliseconds";
+			const duration = moment(icsEvent.cloudEventEndDate).diff(moment(icsEvent.cloudEventStartDate), unit);
+			occurrence.cloudEventStartDate = recurrenceId;
+			occurrence.cloudEventEndDate = moment(recurrenceId).add(duration, unit).toDate();
+		}
+		return occurrence;
+	}
+
+	// Starts of the occurrences before the limit: DTSTART, the ones generated by the RRULE and the RDATEs, without the EXDATEs.
+	// Only the rule parts needed by common calendars are supported: FREQ, INTERVAL, COUNT, UNTIL, BYDAY, BYMONTHDAY and BYMONTH
+	private static getOccurrenceStarts(properties: IcsProperty[], limit: Date): Date[] {
+		const dtStartProperty = IcsMisc.getProperty(properties, "DTSTART");
+		const dtStart = IcsMisc.parseDate(dtStartProperty);
+		const getDates = (name: string) => properties.filter(property => property.name == name && property.params["VALUE"] != "PERIOD")
+			.flatMap(property => property.value.split(",").map(value => IcsMisc.parseDate({...property, value}).date));
+		const excludedTimes = new Set(getDates("EXDATE").map(date => date.getTime()));
+		const occurrenceStarts = [dtStart.date, ...getDates("RDATE")];
+
+		const rrule = IcsMisc.getProperty(properties, "RRULE")?.value;
+		if (rrule != undefined){
+			const ruleParts = new Map(rrule.split(";").map(part => part.split("=") as [string, string]));
+			const frequency = ruleParts.get("FREQ");
+			const interval = Number(ruleParts.get("INTERVAL") ?? 1);
+			const count = ruleParts.has("COUNT") ? Number(ruleParts.get("COUNT")) : Infinity;
+			const until = ruleParts.has("UNTIL") ? IcsMisc.parseDate({name: "UNTIL", params: {}, value: ruleParts.get("UNTIL")}).date : undefined;
+			// The occurrences keep the wall clock time of DTSTART, also across daylight saving changes
+			const tzid = dtStartProperty.params["TZID"];
+			const start = dtStartProperty.value.endsWith("Z") ? moment.utc(dtStart.date) :
+				(tzid != undefined && moment.tz.zone(tzid) != null ? moment.tz(dtStart.date, tzid) : moment(dtStart.date));
+			// DTSTART is the first occurrence of the rule
+			let generated = 1;
+			let isOver = false;
+			// The periods are bounded as well, in case of rules that never match
+			for (let period = 0; period < 100000 && !isOver; period++){
+				const candidates = IcsMisc.getPeriodCandidates(start, frequency, period * interval, ruleParts);
+				if (candidates == undefined) break;
+				for (const candidate of candidates){
+					const candidateDate = candidate.toDate();
+					if (candidateDate <= dtStart.date) continue;
+					isOver = generated >= count || candidateDate >= limit || (until != undefined && candidateDate > until);
+					if (isOver) break;
+					occurrenceStarts.push(candidateDate);
+					generated++;
+				}
+				// Rules without occurrences in some periods (e.g. the 31st of each month) could never reach the limit
+				if (IcsMisc.getPeriodStart(start, frequency, (period + 1) * interval).toDate() >= limit) isOver = true;
+			}
+		}
+		return occurrenceStarts.filter(occurrenceStart => !excludedTimes.has(occurrenceStart.getTime()) && occurrenceStart < limit);
+	}
+
+	// Start of the period (day, week, month or year) that is the given number of periods after DTSTART's one
+	private static getPeriodStart(start: moment.Moment, frequency: string, periods: number): moment.Moment {
+		switch (frequency){
+			case "WEEKLY":
+				// Weeks start on Monday
+				return start.clone().subtract((start.day() + 6) % 7, "days").add(periods, "weeks");
+			case "MONTHLY":
+				return start.clone().date(1).add(periods, "months");
+			case "YEARLY":
+				return start.clone().date(1).month(0).add(periods, "years");
+			default:
+				return start.clone().add(periods, "days");
+		}
+	}
+
+	// Candidate starts of a period, sorted. Undefined if the frequency isn't supported
+	private static getPeriodCandidates(start: moment.Moment, frequency: string, periods: number, ruleParts: Map<string, string>): moment.Moment[] | undefined {
+		const periodStart = IcsMisc.getPeriodStart(start, frequency, periods);
+		const byDay = ruleParts.get("BYDAY")?.split(",");
+		let candidates: moment.Moment[];
+		switch (frequency){
+			case "DAILY":
+				candidates = [periodStart].filter(candidate => byDay == undefined || byDay.contains(IcsMisc.dayCodes[candidate.day()]));
+				break;
+			case "WEEKLY":
+				candidates = (byDay ?? [IcsMisc.dayCodes[start.day()]])
+					.map(dayCode => periodStart.clone().add((IcsMisc.dayCodes.indexOf(dayCode) + 6) % 7, "days"));
+				break;
+			case "MONTHLY":
+				candidates = IcsMisc.getMonthCandidates(start, periodStart, ruleParts);
+				break;
+			case "YEARLY": {
+				const months = ruleParts.get("BYMONTH")?.split(",").map(month => Number(month) - 1) ?? [start.month()];
+				candidates = months.flatMap(month => IcsMisc.getMonthCandidates(start, periodStart.clone().month(month), ruleParts));
+				break;
+			}
+			default:
+				return undefined;
+		}
+		return candidates.sort((a, b) => a.valueOf() - b.valueOf());
+	}
+
+	// Days of the month selected by BYMONTHDAY ("15", "-1") or BYDAY ("TU", "2TU", "-1FR"), DTSTART's day otherwise
+	private static getMonthCandidates(start: moment.Moment, monthStart: moment.Moment, ruleParts: Map<string, string>): moment.Moment[] {
+		const daysInMonth = monthStart.daysInMonth();
+		const monthDays = Array.from({length: daysInMonth}, (_, i) => monthStart.clone().date(i + 1));
+		const byMonthDay = ruleParts.get("BYMONTHDAY");
+		const byDay = ruleParts.get("BYDAY");
+		if (byMonthDay != undefined){
+			return byMonthDay.split(",").map(Number)
+				.map(day => day < 0 ? daysInMonth + day + 1 : day)
+				.filter(day => day >= 1 && day <= daysInMonth)
+				.map(day => monthDays[day - 1]);
+		}
+		if (byDay != undefined){
+			return byDay.split(",").flatMap(dayRule => {
+				const match = dayRule.match(/^([+-]?\d+)?([A-Z]{2})$/);
+				if (match == null) return [];
+				const weekDays = monthDays.filter(monthDay => IcsMisc.dayCodes[monthDay.day()] == match[2]);
+				if (match[1] == undefined) return weekDays;
+				const position = Number(match[1]);
+				const weekDay = position > 0 ? weekDays[position - 1] : weekDays[weekDays.length + position];
+				return weekDay == undefined ? [] : [weekDay];
+			});
+		}
+		// Months without that day (e.g. the 31st) are skipped
+		return start.date() <= daysInMonth ? [monthDays[start.date() - 1]] : [];
+	}
+
+	static toIcsLines(icsEvent: IcsCalendarEvent): string[] {
+		const lines = ["BEGIN:VEVENT"];
+		lines.push(`UID:${icsEvent.uid}`);
+		lines.push(`DTSTAMP:${IcsMisc.formatDate(new Date())}`);
+		if (icsEvent.allDay){
+			lines.push(`DTSTART;VALUE=DATE:${IcsMisc.formatDay(icsEvent.cloudEventStartDate)}`);
+			lines.push(`DTEND;VALUE=DATE:${IcsMisc.formatDay(icsEvent.cloudEventEndDate)}`);
+		} else {
+			lines.push(`DTSTART:${IcsMisc.formatDate(icsEvent.cloudEventStartDate)}`);
+			lines.push(`DTEND:${IcsMisc.formatDate(icsEvent.cloudEventEndDate)}`);
+		}
+		lines.push(`SUMMARY:${IcsMisc.escapeText(icsEvent.summary ?? icsEvent.cloudEventTitle)}`);
+		if (icsEvent.description) lines.push(`DESCRIPTION:${IcsMisc.escapeText(icsEvent.description)}`);
+		if (icsEvent.location) lines.push(`LOCATION:${IcsMisc.escapeText(icsEvent.location)}`);
+		if (icsEvent.rrule) lines.push(`RRULE:${icsEvent.rrule}`);
+		(icsEvent.attendees ?? []).forEach(attendee => {
+			const commonName = attendee.name ? `;CN="${attendee.name}"` : "";
+			lines.push(`ATTENDEE${commonName};RSVP=TRUE:mailto:${attendee.email}`);
+		})
+		lines.push(`SEQUENCE:${icsEvent.sequence ?? 0}`);
+		// The alarms of existing events are preserved below with the other nested components
+		if (icsEvent.reminder != undefined && icsEvent.icsLines == undefined){
+			lines.push("BEGIN:VALARM", "ACTION:DISPLAY", `DESCRIPTION:${IcsMisc.escapeText(icsEvent.summary ?? icsEvent.cloudEventTitle)}`,
+				`TRIGGER:-PT${icsEvent.reminder}M`, "END:VALARM");
+		}
+		// Preserve the unmanaged properties and the nested components of the original VEVENT
+		if (icsEvent.icsLines != undefined){
+			let depth = 0;
+			icsEvent.icsLines.forEach(line => {
+				if (line.startsWith("BEGIN:")) depth++;
+				const isManaged = depth == 1 && IcsMisc.managedProperties.some(name => line.startsWith(`${name}:`) || line.startsWith(`${name};`));
+				const isEventDelimiter = line == "BEGIN:VEVENT" || line == "END:VEVENT";
+				if (!isManaged && !isEventDelimiter) lines.push(line);
+				if (line.startsWith("END:")) depth--;
+			})
+		}
+		lines.push("END:VEVENT");
+		return lines;
+	}
+}
@@ -0,0 +1,62 @@
+// Vocabulary of the languages the NLP module can read
+// English is the reference language: its patterns live in the NlpController and its nouns in Media
+export class Languages {
+	static english = "en";
+	static auto = "auto";
+
+	static names = new Map<string, string>([
+		["en", "English"],
+		["it", "Italiano"],
+		["de", "Deutsch"],
+		["fr", "Français"],
+		["es", "Español"]
+	]);
+
+	static eventNouns = new Map<string, string[]>([
+		["it", ["riunione", "incontro", "appuntamento", "cena", "pranzo", "colazione", "aperitivo", "chiamata", "telefonata", "videochiamata",
+			"conferenza", "lezione", "corso", "esame", "festa", "compleanno", "visita", "colloquio", "concerto", "partita", "allenamento",
+			"viaggio", "volo", "presentazione", "seminario", "scadenza", "meeting", "call"]],
+		["de", ["treffen", "besprechung", "termin", "sitzung", "abendessen", "mittagessen", "frühstück", "anruf", "telefonat", "konferenz",
+			"vorlesung", "kurs", "prüfung", "party", "feier", "geburtstag", "arzttermin", "vorstellungsgespräch", "konzert", "spiel", "training",
+			"reise", "flug", "präsentation", "seminar", "frist", "meeting", "call"]],
+		["fr", ["réunion", "rendez-vous", "rencontre", "dîner", "déjeuner", "petit-déjeuner", "apéro", "appel", "conférence", "cours", "examen",
+			"fête", "anniversaire", "visite", "entretien", "concert", "match", "entraînement", "voyage", "vol", "présentation", "séminaire",
+			"échéance", "meeting"]],
+		["es", ["reunión", "cita", "encuentro", "cena", "almuerzo", "comida", "desayuno", "llamada", "videollamada", "conferencia", "clase",
+			"curso", "examen", "fiesta", "cumpleaños", "visita", "entrevista", "concierto", "partido", "entrenamiento", "viaje", "vuelo",
+			"presentación", "seminario", "meeting"]]
+	]);
+
+	// Preposition used in the title before the proper name (e.g. "Cena con Marco")
+	static withWords = new Map<string, string>([
+		["en", "with"],
+		["it", "con"],
+		["de", "mit"],
+		["fr", "avec"],
+		["es", "con"]
+	]);
+
+	// Frequent words used to guess the language of a note
+	static stopWords = new Map<string, string[]>([
+		["en", ["the", "and", "is", "with", "for", "at", "to", "on", "of", "tomorrow", "today", "i", "we", "you"]],
+		["it", ["il", "lo", "gli", "di", "che", "e", "per", "con", "non", "sono", "alle", "domani", "oggi", "ho", "della"]],
+		["de", ["der", "die", "das", "und", "ist", "nicht", "mit", "ein", "eine", "um", "morgen", "heute", "ich", "wir", "uhr"]],
+		["fr", ["le", "les", "et", "est", "une", "des", "avec", "pour", "demain", "aujourd'hui", "je", "nous", "à", "du", "pas"]],
+		["es", ["el", "los", "las", "y", "es", "una", "con", "para", "mañana", "hoy", "que", "yo", "del", "por", "muy"]]
+	]);
+
+	// The language with the most stop words wins, English in case of a draw
+	static detect(text: string): string {
+		const words = text.toLowerCase().split(/[\s.,;:!?()"*#[\]-]+/);
+		let detectedLanguage = Languages.english;
+		let maxCount = 0;
+		Array.from(Languages.stopWords.entries()).forEach(languageStopWords => {
+			const count = words.filter(word => languageStopWords[1].contains(word)).length;
+			if (count > maxCount){
+				maxCount = count;
+				detectedLanguage = languageStopWords[0];
+			}
+		})
+		return detectedLanguage;
+	}
+}
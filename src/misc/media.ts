@@ -20414,7 +20414,10 @@ export class Media {
 	static base64Media = {
 		"appleIcon": "data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAA0EAAAP/CAQAAACsNA9XAAAABGdBTUEAALGPC/xhBQAAACBjSFJNAAB6JgAAgIQAAPoAAACA6AAAdTAAAOpgAAA6mAAAF3CculE8AAAAAmJLR0QA/4ePzL8AAEL1SURBVHja7d13mFXluffx78zQu9JRFAUF1EhRrNgQxIYFxa6JJpbEGJOcGJOYapJz9E3MiYkxajSJiihiiaJiBY2IKE2QIk0QRenS27T3D8yRMsCuq34/+zrXMTp777Xu59nzm/tZa69VgiTFU132ZV/a0Ip2tKIle9KYxjTmLm6xOPFQyxJIilHoHEgXOtOVDuxHG0pq/KluFsoIkqTC2JvudKM73dmPsgx+/lBLFhcllkBSJDXmCI7iKI6kZdbPbcFyCyhJylYjzuB/mUwF1Tk/TrSM8eBCnKRoKKM7fenLcdTN+7X253ULagRJ0u59hb6czAk0Ktgr7mNRjSBJ2pVSejCAizmw4K9sBBlBkrQTZRzNIM5jryK9/r6W2AiSpO3Vox/nchbNi/oudkGSpK2UcAL/ZHUe57ll/lhpuSVJW+zFzcwOJHy2PKpc4ZEk1WMQw/P6jk9uj+aWXpLS7DDuZFng4bPl0cnyS1I61eUKJocUPlsevRyEOHC9VFJh7cX1XE2LkLeisQNhBElKl8O4kYuoHYEtqe1gGEGS0qI253Ajx0Zme+o4JEaQpDRowvXcQNtIbZMRZARJSrzGfIsfsmcEuzIZQZISrDnf5QaaRnLbjCAjSFJiteDbfDei8QNQ7hAZQZKSqCXX8z2aRHobNzlMRpCkpGnOLVxH/chvpxFkBElKlDp8k1/SLBbbagQZQZISo5TzuJ39YrO9RpARJCkh+vL/6BGrLTaCYvKXjSTtysEM55WYBZARZBckKfb25r+5NJZ/qm528CQpzn+g3hjQbbaL8ejgANoFSYqrE/gLB8d4+zc6hJIUR825l6rY9j/VVFPlBXokKX5KuSK0m20X7rHCgYwHF+Ikfaknd3NkAvZjmUMZl794JAmgKfcwLhEBBMsdTrsgSfFxCvfTPjF7s9QBtQuSFA9NuJcXExRALsTZBUmKiX7czz4J2ycjyC5IUuQ14E5eSlwAeSzILkhS5B3H3+mUyD3zWJBdkKQIa8RfeSOhAQSLHWC7IElRdTBDY335nd350CG2C5IUTVfwbqIDqJqPHGS7IEnR04T7uDDh+7iY9Q60ESQpanrxGPsnfi/nOdBx4UKclBYl3MjoFASQR4LsgiRFTEv+yekp2Ve7ICNIUoQcz2O0Tc3eznfA48KFOCn5ruGVFAWQC3F2QZIiog53cXXK9tkuKDZKLIGUYC0Yxokp2+f1NKbKobcLkhSuHjzNvqnb66kGUHx4LEhKqosYncIAgvcdeiNIUpjKuI1HaZDKfTeCYsSFOCl5mvI4p6R276c6AeLD0xGkpGnL8/RI8f638m5BdkGSwtGVEak8AvQfnxlAceKxIClJjuSNVAcQTHESGEGSwnAWI2mZ8hp4MoIRJCkE1/JUSs+BM4KMIEmhupl7KLMMvG0J4sQz4qT4q8W9XGUZgGW0otoyxGnqSoq3Mh7kEssAwFsGkBEkKTi1eYyBluELLsMZQZICU4ehnGMZtuqCFCseC5LiHECPc7Zl+D/lNGWDZbALkhREAA3jLMuwlQkGkBEkKQh1eYIzLcM2xlgCI0hS8dXnGfpZhu14MkLseCxIip96PMfJlmE71bRjkWWIF6+OIMVNGYMNoBpMNoCMIEnFVcI9nGcZavCyJTCCJBXXb/iGRajRK5Ygjn9RSYqPb/EXi1CjDTT3lGy7IEnFcxF/tgg78boBZARJKp4+/NNP7E65DGcESSqaw3mGupZhpzwZIZY8FiTFQSfGpP6W3LuykL0tgl2QpGLYg+cMIHsgI0hS8GozjM6WYZf+ZQniyYU4Ker+ynUWYZfW0srz4eyCJBXeTQbQbj1vABlBkgrvDP7HIuzWU5YgrlyIk6KrB2/S0DLsxkZascYy2AVJKqQ9edIAysBLBpARJKnQn80h7GcZMuAynBEkqcB+Q3+LkIFynrMIRpCkQhrAjyxCRkaxwiIYQZIK5wAe9lShDA21BHHmNJeipj5v0cMyZGQDbVllGeyCJBXK/QZQxp42gIwgSYXzDS6xCBl70BLEmwtxUpR0YiKNLUOGPmUfKi2DXZCkQqjL4wZQFh42gIwgSYVym0eBsvKIJYg7F+KkqOjPCD+RWRhPL4tgFySpEFrxTwMoKw9ZArsgSYX5JI7wgjxZ2Uh7llkGuyBJ+fu2AZSloQaQXZCkQtiPKTSyDFk5gnEWwS5IUv6fwn8YQFl6xwAygiQVwvWcYBGy9BdLkAwuxEnh6sD79kBZWkZ7NloGuyBJ+f4ReJ8BlLW/GUBGkKT8XU8/i5ClSu6zCMn5G0xSWFyEy8UznGMR7IIk5esuAygHf7IEdkGS8jWQJy1C1sZxhEWwC5KUnwbcYRFycLslMIIk5evXdLAIWZvF0xbBCJKUn0O4wSLk4HdUWYQk8ViQFMbnbjTHWIasLWI/vxFkFyQpP183gHLyBwPILkhSfpozk+aWIWsr2ZfVlsEuSFI+fmUA5eRuA8guSFJ+ujCF2pYha+vYnyWWwS5IUj5+ZwDl5E4DyC5IUn5OYqRFyMEq9meFZbALkpTP5+33FiEndxhAdkGS8vMN/mYRcrCMjp6KYBckKR+NuNUi5OQ2A8gIkpSfH9LWIuTgU+62CEaQpHy05HsWISe/ZYNFMIIk5ePH3p4uJ/O53yIkl6cjSEFoy1zqW4YcXMxjFsEuSFI+fmoA5WQsQy2CXZCkfOzDLOpahqxVcxTvWga7IEn5+JkBlJPBBpBdkKT8dGAmdSxD1jbQhQWWwS5IUj5+ZQDl5P8ZQHZBkvJzINMpswxZW0hn1lkGuyBJ+bjJAMrJjwwguyBJ+WnDPOpZhqyNoTfVlsEuSFI+bjSAclDB9QaQESQpP425ziLk4Pe8ZxGMIEn5uY5mFiFrH/Ebi5AWHguSiqU2c2lvGbI2gOcsgl2QpPxcZgDl4DEDyC5IUv6frfc52DJkaTVd+dQy2AVJys9pBlAObjaAjCBJ+fuWJcjaaO6zCOniQpxUDPsy16siZGkdPZhtGeyCJOXfAxlA2brJALILkpS/uiyglWXIymv084oIdkGS8neBAZSlVVxlABlBkgrhm5YgS9/x3kDp5EKcVGjdvMJZlp7lbItgFySpEK63BFlZxrUWwS5IUiE05jMaWoaMVTOQf1kGuyBJhXCeAZSVPxtAdkGSCuU1+liEjE3hSDZaBiNIUiG0Y4FfSs3YWg5npmVIMxfipEK6zADKwnUGkBEkqZARpEzdxyMWIe1ciJMKpzuTLEKGpnEE6y2DXZAke6CgrWOQASQjSCrkp+kii5CRar7ODMsgI0gqnL7sZREychtDLYKMIKmQzrMEGXmZn1kEbeHpCFKh/pz7hLaWYbdmcSQrLYPsgqRCOsoAysAaBhpAMoKkQvN2A7tXzZVMswwygiQjKHi/4EmLoK15LEgqhC6eZLxbQ7nYm3PLLkgqvHMtwW6M4yoDSEaQVAwuw+3aPM70agjakQtxUv7a8YmfpV1YRW+mWgbZBUnFcJoBtAubOccAkhEkFYv3Sd25aq7hdcsgI0gqjhJOsgg79RsetAja+YdHUn4O8uuWOzWEyzwPTnZBUvGcbAl24iVPxJYRJBWXy3A1e5Vz2GQZtCsuxEn5KWMJe1qGHYyhP2stg+yCpGLqYQDVYBJnGEAygqRi84TsHU2hr7dkkBEkFZ9HgrY3nb6ssAzKhMeCpPw+QStoZhm2MocT+NQyyC5IKr5OBtA2ZnGyASQjSApGL0uwlWmcxALLICNIMoKC9q5LcDKCJCMoDCM5meWWQdnxdAQpd2WsoqFlAJ7hIjZaBtkFScE52AAC4GHON4BkBEnBchkO4C6+RoVlkBEkBeuw1Fegmh9xA1VOBeWmliWQjKAcrecKnnQaKHeejiDlbhVNUrz3n3E245wEsguSwtA21QE0hQF+DVX58liQlKsDU7zvIzjOAJIRJIWnc2r3/E+cyWongPLnQpyUqwNSudcV3MjdDr6MIMkuKGifchFvOvQqFBfipFyl71jQGxxuAMkIksJXi/1Ttb/V/Im+fObAq7AfI0m52J/aKdrb5VzOCAddRpAUlQhKj3e4wFOwVQwuxEm5aZeaPb2P4w0g2QVJUdIqFXv5OdcyzMGWESRFS5sU7OOrXMknDrWKx4U4yQiqyQZ+RH8DSHZBkhEUtHFcwQcOsuyCpGhqndg9q+B2jjWAZBck2QUF7QMuZ7zDK7sgKbrq0jSBe1XJ/9LTAJJdkBT1Hih5dxx+j2t516GVXZAUdc0Ttj9ruJHDDSDZBUlx0DhRe/Mc13v9A9kFSXHRKDF7spDzGWAAyQiSjKBgVfAnuvKkw6mwuBAn5aJhAvbhJX7AVIdSRpAUNw1ivv3T+AEvOowKmwtxUtr+eFvOd+luAMkPkuQnJ1ibuYefs8oBlB8kyU9OkKp5gpuZ5+ApOlyIk3JRFrv4eY5eXGAAyb/lpPirjtW2DudWJjhoMoKkZNgYmy19lZ8wzgFTNLkQJ+VifSy6n+foRT8DSHZBkhEUpCqe5tdMdqBkBEnJE+WFuLUM4Y/McJBkBEl2QUGax73cx+cOkIwgKblWRnCb/s2dPEOlgyNJydaR6gg9NvIgPR0USUqHBpGJn2ncTCsHRJLSZFXo4bOCe+19JCmNPggxfCp4hUHUcRAUd56OIOVmIZ1DeNcq3uYJhrDEAZARJKXXXPoE+n6VjGUYw/jU0ssIktJudmDvtJ6RDOMZ7/IjI0jSFrMCeI8ZvM4LvBqji6JKRpAU8wiaxeu8zigWWWYlW4klkHL882019QsePf/mdUZ5vEd2QZJ2pYLJHFWA16liPpMYz3jGR/KyP5IRJEXQYzTkAOrl8Mx1fMiHzGY67zODdZZSaeVCnJTfJ6g9B9CJA2hNS1rTlGZAM0qAtZQDn7OSVazicz5hCR+ziPkstnCSJEmSJEmSJEmSJEmSJEmSJEmSJEmSJEmSJEnaCa8RJylqGtGO5jShCXvQmCY0piG1afTFf6u91U9WshooZy0VrKGKVVSxkpV8zipWspKVlFtOI0iSalZKOzqwHx1oTxta0pZWBb0P0zpW8jmfsHib/9tk4Y0ghek/f1NusYoqS6LAfuvsQ2e60IUD6UB76oSwDUtZzIfM+eKxgEqHxQhSodSiFa1pS0ua04xmNGMPmlGfJtSmKXVpsJPnbWADK7+4tcAqPudTFrGIT1nMMouqPLWhG93pRhc673QGhmUz85jD7C8CaZ5/kBlBymYhoz37si/t2Zv2dKAVrQr+HpuYx4dfPOYyi82WXRnZjyPoSXe60To227yeaUxhKu8zhaUOoRGkHbXkEDrTiU4cQEfqBvzuFcxlGjOYynSmU+FwaDvNOIIjOYIjivDnULAWfnFL9QmGkRGUdo3oxqEcQle+QovIbNVGJjORCUxgmucepV47juc4jufgBP5m+YhxjGEME53nRlCaNOYwetKTnnSmNNJbupHxvMUY3vbvxdRpQz9O5DgOSMG+rmc8oxnDW6x04I2g5I5LF47iaI7iIMpit/WzeItRjGShA5lwdTmW/pxCtxT+JqlkIqMYyWjWORGMoKQoowcncCK9aZaAvZnFSEYx0vPpEuhA+tOfE2mY+kps5h1G8hLvemK3ERTncehGX07kOJok8K/Fd3meF3iPagc69prSh/70p4Ol2M5yXuYFXnIZ2giKl9b0pT/9aJP4PV3IC7zAKy5bxNQ+nMs59KaWpdiFKsbxAs/ynqUwgqJe+Z6cxZn0SNkYbOINnud55joFYqMzAxnIYf62yMKHPMVTjLXzN4Kipx59OIsz2SvVVfiAJ3mcKU6HSOvJuQzkIAuRc+f/NE/xb48SGUFRCZ9+DOLsBB7vydU8hjOM0RYiYkrpwQAu5kBLUQAreIKHecuOyAgKTwNO53zO9PyhGs1gGI8zzUJEwpFcwiDaWogCm8UQhjDbQhhBwSrjJC5jII0txW5M53EeZ4aFCE0XLuESOlqIInqHwTzC5xbCCApCNy7nYtpZiCxM4kEeZYmFCNReXMQl9LQQgdjIE/yNN12YM4KKpykXcq0f6RxVMoqHeYL1lqLomnEWgzjVU60DN5sH+Id/bBlBha/oiXyd86hnKfK0kqE8xNv+rVgkdTidr3Fq4NdZ15c28wx/4Q0jSIWxB1dxHZ0sRAHN4WEeZp6FKKhDuZJLaWkhIuE9/swQNhpBykcPruNSz3grkgncx2AX5gqgGRdwBcdaiMj1/A9xBwuMIGWvFudzA8dYiCJbzmDuZ6qFyFEZ/bmSAS68RVY5T3IH440gZa4pV3MD+1iIwIzlfoay1kJkpTNXcrnnZsbCK/wPo4wg7V4HruPaRNxUIW428Bz38aqFyEBdzuIaTvaTHiuT+CODqTKCtDMH82Mu9ETWUL3PvQxmlYXYqW5czaX+kRRTU7mNoVQYQdpeL37C2VYuEtYzlHt5x0JspzEX8w16WYiYm8utPJLsi5z6izQ7x/FTTrEMETOZe3mE1RYCgKP4BhfSyEIkxHR+wZPJ/XacEZTNR/sWzrQMEbWR4ak/PtSUC/km3Z0MiTOVWxlmBKXZofyUQZYhBn8xPsR9qbwI5GFcw2U0cAok1lhuYaQRlEaH8FsGWKnYWMuj3MuE1Oxva77G1znAgU+BEfxX0q4l7y/WXduLn/N1yixE7EzgPh5lTaL3sZQ+XMM51Ha4U6OCv/OzJF3c1AjauWbczI3UtxCxtYYh3MfERO7bvlzJlX4pOpVWcCt3U24EJVltvsXPaG4hEmAcD/BYgr4/VJdzuYqTKXVoU2wmP+A5IyipTuMPdLEMCbKeJ3ggATcJ68bXuZQ9HVABr/BtZhlBSXMgd3jqdULNZgh/j+nViJtyoVe41nbK+QO/jPdtHoygbT/mv+R6D+4mWgUjeIDnY3ThkzL6cjkDPSqpGs3km3G+rKkR9KUB/IX2liEVVvAED/NW5BfmDuZyrqCtA6ZdGsa343qWnBG0RSfuor9lSJmPeIy/R3Q1fS/O5wp6OkjKyEp+yZ/jeG1tIwjq8xNu8kZeqTWWRxjK0shsT2PO43JO9Iw3Zel1rmS+ERQ3x/M3DnT2plwFL/Mkw0MOoj0ZwEBOoZ4Dopys4Qf8LV7nfaY7gprwa77tX5v6QhWTeI7H+CDwd27B6QziFOo4CMrTy3yDj42gODidezz9QDWYznCeC+hkhX04lzM50dsfqmBW8UPuM4KibQ/u4hLnqnZhAS/xKq+xvCivXp/j6M+pHGShVQRPc108zpFLZwSdygO0c5YqA1VMYhRvMoZlBXm9uvTiBE6gt9/zUVEt5Wu8YARFTyN+zzWehqGsfcAYJvIek1mbw7M7chiHcwRHGD0KSDV38JOoX840bb+Ke/Mg+zs3lVdfNJfpzGEOs/mYT3caSM1pw350oTOdOYQ9LJxC8A4XM88IioZa/JyfeO8fFdgGFrOczaxjMxU0oAF1aU4bT61WJKzkap4wgsK3L4Pp7XyUlDoPcx3rjaAwXcLdNHUmSkqlyVwQzUtRpeFrmQ15kEcMIEmp1Y13OSOKG5b8IyOdeYlTnIGSUq0eF1OfkVG7fE/SF+Iu5R4aOfskCRjOZayO0gYleSGuLncy2ACSpC8MYHS0vpaS3C6oA0/RwxknSdtYzkW8GpWNSeqxoJN5mY7ONUnaTgMuYS1jjaDiuYYhNHamSVINSunP3oyIwl1Wk7cQV4+/8jXnmCTt0jNcEv4XVpMWQXvzrEeAJCkD7zAg7FvWJyuCujHcm9BJUoY+5HRmhrkBSTopeyBjDCBJytj+jAn32pnJiaAbGUYDZ5QkZWFPXuWC8N4+GWfE1eYBfuRt6CQpa7UYyEImGUG5asRTDHIeSVJOShnAqnC+KRT/CGrDKxzvHJKknJVwKtW8YQRlqxOvcbDzR5LydBL1g79wT7wj6BhGspczR5IKoDeNecUIylQfnvdGdJJUwD/r2/JCkPcUim8Enc3TnoQtSQV1GAfwbHBXj4trBF3BI9RxtkhSgX2F/XgmqE4onhF0A/em4JbjkhSGbrRnuBG0M7/kdr+GKklF04NGvGwE1eRX/ML5IUlFdQylvG4Ebe/X/My5IUlFdwKbGG0Ebe233OK8kKRA9GUNbxtBW5TwR25yTkhSYE5hAe8ZQQC/53vOB0kK9E//M5nO9GK+QTz8mp86GyQpcBvpV7xjQvGIoO9zh/NAkkKxnGOLdXvvOETQd7jTOSBJoZnH0SwuxgtH/8bd1/BHx1+SQrQfzxbnmpxR74LO4QkvxSNJoXues6ks9ItG+9d7H56mtiMvSaE7kNY8l6YI6sWL3o5BkiLicNYW+quq0Y2grrxKM8dckiKjL+/zQSFfMKrHgvbibdo73pIUKWs4qpBfVY3mGXGNec4AkqQI/nb+VyHXp6IYQbUZRndHWpIi6ACGFu4QThSPBf2FixxlSYqojpQxMqkR9HOvhy1JkXYcM5hWiBeK2ukIl/KwN+WWpIhby1GFCKFo/bo/jH/7TSBJioF59GJ5vi8SpdMR9uY5A0iSYmE/Hs4/QaJzLKg+L9LZUZWkmDiADbyV30tEZSGuhCGeBydJsVLBCYzJ5wWishD3cwNIkmKmFoPz+6JqNBbizuQez4OTpNjZg04Mi3cEdWIE9R1JSYqhg1jIxFyfHH7vUZ+36OEoSlJMbeRIpuT21PCPBd1jAElSjNVjSK4rWWEvxN3IzY6fJMVaK/bk+VyeGO5C3FH82xtzS1ICnMgb2T8pzIW4PRhiAElS7K3nR7yZyxNrhbbJJfyd/Rw5SYq5N7mKObk9Nbwu6Luc48hJUuz7nxNzDaDwjgX1YjR1HD1JSmf/E2YX1JShBpAkxbr/uZ4T8gugsI4F3eVRIEmKsXe5gpn5v0wYXdB5XOb4SVJMVXA7vQsRQGEcC9qbyezpGEpSLH3A5Ywv1IsF3QWV8rABJEkxdR89CxdAwR8LuokTHUNJiqHVXMtjhX3JYBfiDmIC9RxHSYqdSVzI7EK/aJALcbV40ACSpBh6mGMLH0DBLsT9lMMdR0mKmdVcw9DivHRwC3HdedeLkkpSzIznAuYV68WDWoirzQMGkCTFzBCOL14ABRdBP6OnYylJMVLBd7mUDcV8i2AW4g5hgteEk6QYWc5FvFrsNwnidIRS7jGAJClGpnBOMRfgvoyH4vsWxzqekhQbQzkmiAAKYiGuLdNp5ohKUixUcyu/ojqYNyv+QtzdBpAkxcRqLmJEcG9X7Ag619tzS1JMLOBM3g/yDYu7ENeAaXRwVCUpBqZwBp8E+5bFPR3hZwaQJMXCSxwXdAAVtwvqzBRPxpakGLib71AZ/NsWswv6owEkSTFwO9eHEUDFPB3hAk51XCUp4ir5NveE9ebFWohryAfs7dhKUqRt5FKeCu/ti9UF/dAAkqSIW8U5vB7mBhSnC9qLmTR0dCUpwj7nNN4JdxOK0wXdbgBJUqQt5hSmhL0RxeiCjmBsgHdjlSRl62P6Miv8zSjGSdl3GECSFGHzOSkKAVSMhbgL6O34SlJkzeRkFkZjUwrdr9RmBh0dYUmKqNmcFJUAKvxC3LUGkCRF1kf0i04AFboLasgc2jjGkhRJCziB+VHaoMJ2Qd83gCQpsgF0YrQCqLBdUAvm0sRRlqQI+pjjoxZAhe2CbjGAJCmSltE/egFUyC5ob2ZTz3GWpMhZRR8mRnHDCtcF/dgAkqQI2sBZ0QygwnVB7ZlNXUdakiKmnHN5PqobV6gu6McGkCRFThVfjW4AFaoLsgeSpCj6Hn+M8uYVpgu6xQCSpMi5J9oBVJguaB9mU8exlqRIeZrzqYr2JhaiC/qBASRJETOOy6MeQIXogprzkfdIlaRI+ZCjWRL9zcy/C/q+ASRJkbKcU+MQQPl3QU34iGaOtyRFRjmnMjIem5pvF/QtA0iSIuXGuARQvl1QPT6kreMtSZHxd74en43Nrwv6qgEkSRHyOtfFaXNL8nruNLo64pIUEfM5gqVx2uB8uqDTDCBJioy1DIhXAOUXQd93xCUpMr7J1Lhtcu4LcYcwpaC3/ZYk5e5P3Bi/jc69C/ovA0iSIuJdborjZucaI635yKtjS1IkLOcwPorjhufaBV1rAElSJFRxeTwDKNcIqsXVjrokRcJvGRHXTc8tggawt6MuSRHwBr+K78bnFkHXO+qSFAEr+SqV6YqgA+jjuEtSBHwzrkeBco+gb3s6tiRFwIM8Fu8dyD5MGvKJN2iQpNB9SA9Wx3sXsu+CBhlAkhS6Ci6LewDlEkFXOfKSFLrf8Hb8dyLbhbgD+cAjQZIUsnEcQ0X8dyPbLugqA0iSQraZq5IQQNlGUC0ud+wlKWS/jd9tGWqWXU8zgGcde0kK1RR6sTkZu5JdF+SpCJIUrgq+npQAyi6C9uR0R1+SQvV7xidnZ7KJoIup4+hLUohmcmuSdiebCLrU0ZekEFXzDTakM4I6cpTjL0kh+iejk7VDmUfQZX4jSJJCtJpbkrZLmUfQxY6/JIXoFj5L2i5l2tkcyVjHX5JCM4lecb45XX5dkD2QJIWnmuuTF0CZRlAJ5zoDJCk0/0jCdbFrCpdMHJu0szAkKUY+pwtLkrhjmXVB5zsDJCk0tyYzgDLrgkqYzz7OAUkKxTy6simZu5ZJF3S0ASRJoflxUgMoswga5AyQpJCM4/Hk7lxJBj/hMpwkhaUPo5K7c7vvgnoYQJIUkueTHECZRNBZzgFJCkUlP0r2Du4+gs52FkhSKB5karJ3cHfHgvZhvlfIlqQQbOYAFqS7CzrbAJKkUPwj6QG0+wjySJAkhaGc25O/k7uOoKYc7zyQpBA8xLy0R1Bf6jgPJClwlWnogXYXQf2dB5IUgoeZnYbd3PXJBh/5tVRJCqEHOpiZae+CDjKAJCkEj6YjgHYdQS7DSVLwqvjvtOzqriLoVGeCJAXuBWakZVd3fiyoPsup71yQpID141W7oOMNIEkK3FReS8/O7jyC+jgTJClwd1Kdnp3d+ULcOA53LkhSoJaxDxvsgprRw7kgSQG7J00BtPMIOpEy54IkBaqce9O1wzuLoJOcC5IUsKF8YgQZQZIUhrvStsM1n47QikXeqk6SAjWVr6Rtl2vugo4zgCQpYPenb5drjqDezgVJCtRmhhhBWxzrbJCkQP2LpUYQQH26ORskKVB/T+NO1xRBR3m7bkkK1CfpuTTp7iLIZThJCroHqjSCjCBJCl41D6Vzx0tr+DdHOR8kKUAjmWsEbdGFZs4HSQrQo2nd8R0jqJezQZICVMGzRpARJElhGJnGbwQZQZIUBcPSu+vbXwuuDqup64yQpIBU0M4u6D8ONYAkKUCj0htAO0aQy3CSFKRhad757SPocOeDJAWmgn8ZQV/q6YyQpMCkehlu+wiqTVdnhCQF5l/p3v1tI6iLJyNIUoBeNIK+5H2CJCk4s/jQCDKCJMkeyAiSpBR5Ke0F2PbqCIto7ZyQpEBsojnr7IL+o40BJEmBeSPtAbRtBB3ijJCkwLxkCbaOoIMshyQZQeFEkF9LlaSgfMI0i7B1BHWxHJIUkFcsgQtxkhSOtyzB1hHUnFaWQ5KMoDAiyCNBkhSUz5lpEYwgSQqnB6q2CFtHkCcjSFJQ3rYE20ZQJ4shSYF1QdomgjpaDEkKRDnjLMLWEVTC/hZDkgIxifUWYesI2ov6FkOSAjHGEmwbQS7DSVJQxlqCbSPIkxEkKSgTLYFdkCSFYT1zLYIRJElhmEaVRdg2gjpYCkkKxBRLsH0E7WMpJCkQ71uCbSOoLq0thSQZQWFEUHtKLIUkGUFhRJDLcJIUjEUstQjbd0GSpCB4MoJdkCSFxGW4HSJobwshSYGYZgm2jyAX4iQpGF4ZYYcIamshJCkQ8y3B9hHUxkJIUgDKWWgRto2gMlpaCEkKwMdUWoRtI6glZRZCkgIw3xJsH0Euw0mSEWQESZIRZARJkowgI0iSjKDkRpDnw0mSERRSBO1pGSQpAOV8ahG2j6AWlkGSArDEbwXtGEHNLYMkBWC5JTCCJCkcyyzBjhHksSBJsgsKJYJK2cMySJIRFEYENfUKcZIUCBfidoggl+EkKRgrLMH2EdTMIkiSXVA4EdTYIkhSIDwWZARJkhFkBElSurgQZwRJUkg+twTbR1ATiyBJgVhnCeyCJCkMVWyyCEaQJIVhvSXYMYIaWQRJCsAGS7BjBDWwCJJkFxROBNWzCJIUgI2WwAiSpHBUWAIjSJLC4U27jSBJMoKMIEkygowgiyBJAfBYUA0RVNciSFIAqizBjhFU3yJIUiC/b7VDSWpbBEkKQJkl2DGCzGVJCkItS7BjBJnLkmQXZBckSUaQXZAkqdBciLMLkiQjyC5IktLFr8DYBUlSSLw72w5KqKLEMkhS0ZVTxyJs3wVJkoJQ2wjaMYK8apEkBcOjQTtEkJcPl6RgNLQERpAkhaORJdg+glyIk6Rg7GEJ7IIkyQgygiQpVfa0BEaQJBlBRpAkGUFGkCSp+DwWtEMEVVgESQpEc0tgFyRJ4WhrCbaPoM0WQZKMoHAiaINFkCQjyAiSpCTbg3oWwQiSpDCU0NoibBtB6y2CJAWknSXYNoI2WgRJCsjelmDbCHIhTpKC0sESGEGSZAQZQZJkBBlBkiQjyAiSpMTajxKLsHUEeVK2JAWlvt8M2jaCVlsESQrMgZbACJKkcHSxBFtH0CqLIEmB6WwJjCBJsgsygiTJLsgIkiQVXwdv2LB1BHk6giQFp4yDLMKXEbSGKssgSYHpZgm+jKBq1lgGSTKCwoggPBokSUaQESRJydfd68RtHUGfWwZJCkwz2luELyNomWWQpAAdZgm+jKCllkGSAnSEJbALkqRwHGkJ7IIkKRyHU2YR7IIkKQyN6WoR7IIkKRwuxdkFSVJIjrEEdkGSFI7jLAFACVCPDRZCkgK1F59ahFJgI2sthCTZB4URQR4NkqSgHW8J/hNBiyyEJNkFhRNBrkhKUrAOoa1FMIIkKQwlnGwRtkTQZxZCkgLWzxLYBUlSOE7x1nVGkCSFow1fMYKMIEkKqw8ygowgSQrFGWkvwH9WItdT39kgSYGqpDXL7YI8J06SglfGqekuwH8iyKU4SQreACPICJKkcJxKbSMIFjgTJClwTTnBCIKPnAmSFIJBRpARJEnhGEgtI2i+80CSQtCCk4wgI0iSwpHipbgvL5K3nD2dCZIUuGW0pSLdXZBHgyQpHC3Se9uGLyNovvNAkkJxuRFkFyRJ4TiXpkaQJCkM9RiY9gia7yyQpJCkdCnuywia5xyQpJCcQId0R9Acqp0FkhTS7+Kr0rjbJVv986e0dR5IUig+Y5/0fTuodKt/nu0ckKSQtOW0NDZ/RpAkRcHVRpAkKRyn0z7NETTHGSBJoSnjOrsgSVI4rqFemrsgT8uWpPC04KL0RtB6PnUGSFKIvpPeCHIpTpLC1YPe6Y0gT0iQpHB9P70RNNPRl6RQnUPXtEbQdEdfkkJVwvfStLNb6+D1siUpZJvYj8/S2AV9xFpHX5JCVZcb0rKr20ZQNR84+pIUshtomcYIgmmOvSSFrBHfTWcEzXDsJSl0N9IqjRHkOXGSFL6G/FcadrNku//d0a+nSlIErKMji9PWBc1jvSMvSRHog25KXxcEE+nh2EtS6DbSiYXp6oI8J06SoqEeP0z6Lu4YQVMcd0mKhGvYO20RNNlRl6SI9EE/TfYO7ngsqFXyz8GQpJiopGeS16Z27IKWsMhRl6RIKON/k7x7pTX8O5fiJCkq+nC2ESRJCscfqGsESZLCsD/fSequldTw7w5mqmMuSZGxhs7JvIldTV3QTDY64pIUGY25NZk7VlMEVXi9bEmKlKs4PC0RBO853pIUqd/Vd9R44MQIkiQV3fFclZYIGu9oS1LE3MFe6YigSZQ72pIUKU2Td6WEmiNooyckSFLkDOKcNESQS3GSFEV308wIkiSFoS3/bQRJksJxLcclZ2d2dp55HVYn98J4khRjs+iWlGvYlO3k31dyVvJO/5OkBGhObV5Nxq6U7vS/uBQnSdF0E32SHkETHGVJiuhv7gfZM9kRNM5RlqSI2pu/JmE3dn7ZuzJW0MRxlqSI+ioPJbcLqvRokCRF2F84ILkRBG87wpIUWY14hNrx3oWyXfy3+lziGEtSZO1FJW/EeQd2dQuk5ixN4i2SJCkxKjiJ0fHd/F0txC1nluMrSRFWiydol8wI8miQJEVda4ZRJ64bX7abXRvg+EpSpLWnIS8nMYI2801HV5Ii7mhmMC2OG77r0w1KWUFTR1eSIm4tR8UxhHZ9LKjKy/RIUgw04qk4Ngylu/nvbzmykhQDB3J//L5GU7bbiPqqIytJMXAQ5bwZr03eXWY24PP4nu4nSalSzWUMidMG724hbr33DZKk2DQVD3B0kiKIeF9/SJJSpR7P0jFJEfSmYypJsdGC4TSLT9u2O01YsduTFiRJ0fEyZ1CRjC5oNe85npIUI6dwTzw2NJP+pku8Dm9JUur1ZD1jkhFB9bnI8ZSkWOnLQiZGfSMz+S7tnizNYMFOkhQllVzMsGhvYibRsiKeV2CVpFQr42H6xD+CYJRjKUmxU5fhHBP/CHrNkZSkGGrAMxwU3c3L7LqqjVlBLcdSkmJoIb2ZH+cuaA3jHUVJiqW9eJl2cY4gGOkoSlJMHcDr7BXnCPJokCTFOYRGRTGEMr3HXj1WUN9RlKTYms1JLIxnF7QxDpd6kCTFqRPK/KoHLsVJkiEUUgS96uhJUgJCqH10Nqck458sYyl7OH6SFHMLOIWZceuCKr1MjyQlwD68Sc+4RRC85MhJUgK05A36RmFDSrL42b352JGTpETYxCU8Facu6BNv2iBJCVGXx7ky7I0oy+qn94/2Zb8lSVm0IANYw9j4RFA1lztqkpQQJfRnL0ZQFd4GZNe4LaORoyZJCfISF7A6rEYsG5t4w9GSpETpz5thfV21NMuff9HRkqSEOZSx9DCCJElhaMco+kU/guYwx7GSpMRpyghuDvpNy7J+xgEc6VhJUuKU0pf9eZGK6HZBMNxxkqSEuoIx7Bvc25Vk/YzaLKWp4yRJCbWMQbwe1S6onFccIUlKrBa8xDXBvFVZDs+pz7mOkSQlVhkD6MjLlBf7jUpyeE5zFucUXZKk+PiAQUwt7luU5vCc5eFe1k6SFIAuvM0l0Ysgz4qTpDRoxCM8RP3ivUFJTs86yDsHSVJKTORiZkWpC5ruNRIkKSV68h43Fuelcz2toCNHOS6SlAq1OZVuvMqGaHRB8KxjIkkpci6T6VPoFy3J8Xm1WERzx0SSUqSKO/gZm8LvgirsgyQpZUq5iYn0KtwL5v4V0youdjwkKWVaciUNeZPKQrxYSc7PrMsSmjgakpRCU7mS8WF2QZX04GDHQZJSqBVXUou38+2FyvJ67vmOgySlUhkncBHTmZfPi5Tk8dxGLKWe4yBJqVXNYL7H8lyfXprHW6/lVesvSSlWwuVM5cIwIgiesv6SlHJteIyRuZ0bUJLXGzdnEbWsvySlXjl/5aesCbILWs4b1l2SRG2+w3QuCDKC4HHrLkkCYG+G8ja9M39CSZ5v2ILPXIqTJG3lOb7L3CC6oGWMtNqSpK2cyQzupeXuf7As77eqw9nWW5K0TbYcxjeACVTs6sdK8n6jPVhEHestSdrBfH7CY1QXrwvayFEcaJ0lSTtoxnmcz1qm1hxDZQV4izLOtc6SpBq14lzOqzmGSgrw8o1ZTH2rLEnahencziPbXlu7EF3QZg6ni9WVJO1CS85lEGuZ8WUMlRXkhUu8bYMkKYMYOodraMT7bNgSHoXQiMU0sLaSpIys40H+wvSSAr3cEC62ppKkLIwuLdALPWItJUlZaVSoCHqJxVZTkpSFFwsVQRVeM1uSlF3zUlKwlzqSsdZTkpShNbQoLdiLvcMsKypJytDzbC4t4Ms9akUlSRl6slDfC9qiI7ML+nqSpKTaQEvWFbILmss7VlWSlIGXWJf/XVO35beDJEmZeBIo8MJZSz7x9nWSpN3YTGtWFroLWsrzVlaStBuvsRIKHUHwTysrSdqNp7b8v0KfwVaLj2ljdSVJO1VJO5YUowuq8JQESdIu/XtLABU+guAfVleStAuD//MPxfgq6TgOt8KSpBptpO2WkxGK0QXZB0mSdu7Z/wRQcSLokS33BJckaQeDv/zHYkTQKp61xpKkGqzgpeJGkN8OkiTV7FE2f/k/inNl61I+ZF8rLUnaztFb3960OF1QlackSJJ2sN0dFUqL9DYPUGmtJUnbGEx1EBH0CS9Ya0nSNoZs+z9Li/ZGf7PWkqStvM2soCLoBRZYb0nS/9nhGqLFi6BKT0mQJP2fcoYGF0GekiBJ+tKLLAsygj7mRWsuSQJqvGhBaVHf0FMSJEkAixkedAQ9zyfWXZLEQ5Tv+C/LivqWVTTiJCsvSal39Y5Hgop1jbgvteEj6lh7SUq1Nzm+pn9dWuS3XcRT1l6SUu6Bmv91SdHfuDdvWn1JSrFVtGN9GF0QjGai9ZekFBtScwAFEUFwr/WXpBR7YGf/oSSAN2/AJ+zhGEhSKk2i587+UxBd0HoecgwkKaXu2vl/KglkAzoxM5CwkyRFy0r2Zl2YXRDM4TXHQZJS6MGdBxCB9SZ/chwkKYV2ea3QkoA2ooTpdHEsJClVRtFnV/85qC6omr84FpKUMn/dXXcSlAZ8zJ6OhySlxiL2qen62MF3QbB+519OkiQl0P27DqAguyDYh7nUckwkKRUq6MiCXf9IkN/WWcDTjokkpcTTuwsgAv7C6B8dE0lKiTt3/yMlAW/SWI50XCQp8SZy2O5/KOjL5vgVVUlKgz9m8kNBd0G1mUt7x0aSEm0RHdgUvS6o3ONBkpR4f80kgILvgqAhH9Hc8ZGkxNpEBxZl8oPB30JhHfc5PpKUYI9lFkBhdEHQmvnUc4wkKaF6MT6zHwzjRnKLGewISVJCvZlpABHSvUx/R5WjJEmJdEfmPxpOBM3iWUdJkhJoJsOjHkHwP46TJCXQ77NZ5SoJbTNHc6xjJUmJsoR92Rj9Lghud6wkKWH+lE0AhdkFlTCeno6XJCXGOvZleTZPCK8Lqub/OV6SlCB/yy6AwuyCoIxpdHbMJCkRKujER9k9pTTEza30eJAkJcbj2QZQuF0Q1GYWHRw3SUqAw5iY7VNKQ93gcn7nqElSArySfQCF3QVBPT6krWMnSTHXl9eyf1JpyBu9kT84cpIUc+/kEkDhd0HQkHm0dPwkKcbO5PlcnlYW+oaXU4c+jp8kxdZ7/CC3J5ZEYOMb8aF9kCTF1nk8ldsTyyKw8ZupxcmOoSTF0gy+Q3V8uyCPB0lSfF3KkFyfWhaJHSinjL6OoyTFzly+mft9sEsjshN/ZokjKUmx81sqcn9yWUR2opxS+jmWkhQrC7iaytyfXhqZHfmLfZAkxcxtbM7n6WWR2ZFy4BTHU5Ji41OuzGcZLkpdEPyVxY6oJMXG/2R3m+4od0FQTjmnOqaSFAsLuDKf40BR64Lgr8xzVCUpFn7DpnxfoixSO1TJas52XCUp8ubzjXx7oKh1QfAQMxxZSYq8X+R3LtwWJZHbrfMZ5thKUqTN4uD8zoWLZhcET/KOoytJkfbzQgRQFLsg6M+Ljq8kRdZUuuV+Xbhod0HwEqMcYUmKrJ8VJoCi2QXBEYyN6JZJUtpNoFeu9wfaXlkkd3Ah3eniOEtSBF3N7EK9VFR7jc68T21HWpIiZgzHFu7FyiK6k8tpSy/HWpIi5grmF+7FonvEpSVzaOJoS1KEPMeAQr5cWWR3dD21OcnxlqTIqGRQYe/sFuXzzuozk/aOuSRFxP1cXdgXLIvwzlawmrMcc0mKhA0MYnVhX7I00jv8T9531CUpEu7g40K/ZNS/AHoaLzjukhS6ZXQsdA8U9S4IRvCqIy9Jobu18AFEDC6DcxCTqeXoS1KIPqRrIe4PtL2yyO/4Utr4JVVJCtW1xTkyH4eLge7JLJo7AyQpJO9yVKEuTBq3Lgg2sIlTnQOSFJLLmVecF47HLRFqM8UrZ0tSKIYX7xuacbkrT19ecR5IUuA2cygzi/XipTEpwquMcCZIUuD+VLwAIkb3Ju3CFO8gJEmBWsKBrCrey5fFphDL2IOjnQ+SFKAbebuYL18So1I05gPaOSMkKSCTOJyqYr5BWYyKsZklDHROSFIgqrmQj4r7FqWxKshgXndWSFIghvBmsd+iJGYlOZhJnpQgSUW3nq4sKPablMWsKEs9KUGSAvArniv+m5TEriyelCBJxbaArqwv/tuUxq4wa/ihs0OSiup7QQRQHLsggJGc5AyRpCIZRZ9g3iieEXQwE6njLJGkIqikJ1OCeauyWBZoKfU43nkiSUXwJx4K6q1KYlqiukymszNFkgrsM7oW86pw2yqNaZE2cV1x7uEnSan27eACKL4RBK8z2LkiSQU1gqeCfLuSGJeqOTNo6YyRpAJZzyHFukV30rogWM7NzhhJKphfBRtA8e6CoIRXONlZI0kFMJWelBtB2ejMe9Rz5khSnqo5jreCftOymBdtOVX2QZKUt/u5O/g3LYl92WrxNoc7eyQpD8voyrLg37Y09oWr4Otsdv5IUh6+H0YAxX8hDmAxtTjRGSRJOXqD/wrnjUsSUb5avEsPZ5Ek5WAz3ZkRzluXJqKAFVxDhfNIknLw27ACKBkLcQCf0oDeziRJytJkrqAqrDcvSUwZ6zGJLs4mScpCOUfwXnhvX5qYQm7ksqC/1ytJMfffYQZQchbiAD6jjjeyk6SMTeEKKsPcgJJElbMWY+jlrJKkDFRwNOPD3YTShBX0q2xwXklSBm4PO4CStRAHsIxNnOLMkqTdmMGl4X+ZpSRxZS3lNa+VIEm7VMnRjIvCL+ykqeJKVju/JGkXfheFAEreQhzASpZxljNMknZiJhdH44oyZYks70QO4mBnmSTVoIqBfBiNTSlNaImvY4HzTJJq8AdGR2VTShJb5BN5NaE9niTlbiY9ovPlleT+kp7vtRIkaTsVnMX86GxOaYJL/UvGON8kaZvfi+9EaXNKEl3s9kxmD+ecJAHwFieEe0247SX7aMlqPmSQs06SgLWcxvJobVLSD9hPZ3+6OfMkiasZFbVNKkl80Rsygc7OPUkp9xTnRW+jSlJQ+MMYQx3nn6QUW8ihrIjeZqXhmzOfsZl+zkBJqVXFeUyP4oaVpqL8v+cV56Ck1PpfXovmhpWkZABaM5nWzkNJKTSNw9kYzU0rTckQLOZKqp2JklJnE5dENYBI0VXU5tCcI52NklLmBzwb3Y0rSdFA1GUs3Z2PklLkFfpHeQWoJFWDcRDjaOCclJQSn9ONj6O8gem6ncFSlnOms1JSSnyNt6O9gWm7o84EunKI81JSCvyd/4n6JpakblCa8R77OjclJdyHdGdN1DeyNHXDspLLo3WxckkquAoui34AkcpbWy+gtvdTlZRov2ZwHDazJJWDU4s3OMY5KimhxnMM5UZQdHk/VUlJtY6ezIrHppamdIg+5hrnqaREujEuAZTOY0FbTKeD10qQlDj/4ub4bGxJigeqEePo4nyVlCCf0J3l8dnc0hQP1VoGsd4ZKykxqvhqnAIozQtxAEtYygBnraSEuJV/xGuDy1I+YBPpSDfnraQEeJOr4nZftJLUD5pHhCQlwef04KO4bXRp6odtLRewwdkrKeauil8AuRAHsIRl3sJBUqz9mf+N42YbQQAT6MShlkFSTE3lQiriuOEeC9rCI0KS4modvZgRz033WNAWHhGSFFc3xDWAXIj70hJWcIZlkBQzj3NLfDfeCPrSeG/qLSlm5nAmm+K7+R4L2loTxnOAZZAUExs5hklx3gGPBW1tNeexzjJIiokb4h1ARtD23udqiyApFh7l/rjvgseCtjeVVvSyDJIibhpnxePm3LvisaAd1WYUx1oGSRG2liOZHv/dcCFuR+VczFLLICnCvpWEADKCavYxF1FpGSRF1N08nIwd8VhQzeZRwcmWQVIETY7rFeGMoMyN5lC6WgZJEbOSk5NzqMCFuJ2p5irmWgZJkfvN9GFydscI2tXfGud56VJJkfI7nk7S7rgQtyuLmc9AyyApIl7jKqqMoPR4nzYcbhkkRcA8TknaJcT8auru1OZlTrQMkkK2gd5MTNpOeSxod8o5P0kH/yTFUjVXJi+AjKBMLGeg18+WFKrbGJrE3XIhLjMDecJaSQrJK5yWzCu2eDpCZmZQm+Mtg6QQzOaUpH5BxAjK1Ov0oLNlkBSwtfTj46TunMeCMlXFZUy1DJICVc2VTEvu7hlBmVvDWSyzDJICdCtPJHn3PMSenX68QC3LICkQzzAwWVdD2J7HgrLzIWvpbxkkBWASA9iU7F00grI1lg50twySiuwT+rA86TvpQlz2ajPC29lJKqo1HM97yd9NT0fIXjnneW6cpCKq5LI0BJARlJtVDGCxZZBUJN/l2XTsqBGUm/mc6XXjJBXFH7grLbvqsaDcncm/PJ1DUoE9z9nJvB5cTfwVmrtZrOZUyyCpgCZyRtJPxDaCCmUse3KkZZBUIAvpm/wTsY2gwnmZQ+lqGSQVwBpOZna6dtljQflqyCh6WQZJedrM6byWtp32jLh8reMM5lgGSXmp4vL0BZARVAhLOZsVlkFSHm7g8TTuthFUCNM5jTWWQVKOfsnd6dxxjwUVykm8QD3LIClr9/DNtO66Z8QVynymcb5dpaQsPcbXqTaClK8PmMc59pWSsvAsF6fnWghGUHFNYRlnWAZJGXqVgWxOcwGMoMIaRxUnWQZJGXibM1mf7hIYQYX2bxpxjGWQtBvv0Z/VaS+CEVSM1rodh1kGSbsMoL5+n9AIKo4X6MLBlkHSLgJouWXwe0HFUodnvJGDpBpNpC+fWwbw6gjFspmzec4ySNrBJE4xgOyCiq8eT9sJSdrGBPoZQHZBQdhoJyRpG6M52QAygoKymfMYbhkkAfA6p7PKMhhBQYbQBXZCkoBnOdUr6m/PY0HFV5uHudAyJPjPjGUsZTFLWcMq1rCWdaxiNZXAui8uvrKB2tQCoC4NgFo0pikNaEhTGtGEFrSkFS1oYDkT61G+SrllMILCUMZ9XGUZEmEjH7GABSxgPgv4jMWsLOCrN6AFe9Oe9uzDvrRnX/a05InwV25I88VIjaDw63wnN1iGmFrIB8ziA2Yyi4+oCvS9W3AgnTmQA+jKgV90UoqXan7Gby2DERS23/ITixAbFXzAe0zmPSZF5lvs9TiEbnSjG91p4hDFRDnX8E/LYARFwQ380RNAIu4zJjCB0YyJ+BWM96c3h3EsPZxRkbaOC3jBMhhBUXEhD1LXMkTQTEbxOm/xScy2uwm9OYkT6eH1HiNoEQMYbxmMoCjpw9MuokTIAl7mdUbxacz3oxnH0ZfTOMAhjYzJDOBjy2AERU13XqCtZQjZRv7NS4xgRsL2qyOnchoneXp36J7lUtZaBiMoivblOQ6xDCFZwrM8w8hE362yPv05hwGe0h2a33NzwOdOGkHKQhMe4zTLELC5PM0zjEnNr4ZanMBALqCFQx+oTXyLv1sGIyjayvgtN1uGgCznSR7mLapTOdNO4grOpZHTIBALOZ+xlsEIioNruIvalqGoVjKcYYygIuV1qM+ZXMGpfrm1yP7NhSyyDEZQXPTjUZpbhqJYz3Ae5UU2WYr/05aLuIyeFqIoqrmDH6f+jx3FTAcmUu2joI8qRnGZC0871Y27WeU8KfBjFec7tRRH9XjAD3DBHp9xG52cVBnMukG84nwp2GOcs05xdg2b/Bjn+ajkFQZ5bC0rB3EbK5w7eXfdd1LHyaR4O4p5fphzfszlFto5iXLSiKuZ5BzKo+/u5yRSEjTjCT/QWT8qeJp+nlaTt+MZRrnzKevHv2jt5FFyXME6P9YZPxZxG/s6aQqmLb9kqfMq48fnXOOkUdIcyjQ/3Bk83uRi19+LoB5XuSyX0WO4S79K6i+B31HpR3ynjzXcw6FOkyIvyz1BhXNtp48VfNVJoiQ7ipl+0Gt4zOJmL70ZkHb8kmXOuRoej3v8R8lXn9vshbY75XqApx0E3pFfwVRn3zZ/BHn+m1K0HDLdDz3VLOI3tHc6hKSEUxlBlfOQ9fzE449Klzr8lPWp/tiP9rSDSOjMnaxM9ddPB7OP00BptD8jUvmh38BDdHf4I7Ys914q5+IYjnH4lWaDmJuqj/xMvkszhz2iy8ND2ZyiuTiDsxx0qS438XkqrnbwL692EHlt+QWfpOLkg696hyXpP1pwV6IvovIp/+16e2yUcTrDEnx53ZlcYfxI2zuAhxL4pcHNPMUAP/Cx/LPoRiYnbj5O5zLKHFypZvtxb4K6oenc7Ff9Yu5gbkvM1eVG+/0zafe6Mjj2MfQ5d9PLoUyIepzHo6yO8Xxcy910cSClTLXn9pieorCOYQyinkOYwCA6h8Ex/AbReL7NHg6flK1GXBOrayhsYDhX0NiBS7S69OVOlsTkkqP30sMhk3JXSl+GsCHy4fMUF9PI4UqNOvTnj8yIcPg8yFne6l0qjD24nvGR/Kgv5REusvNJrQ5cyxOR6okWcjf9DJ8o8MyPpOnKeQyMyMJCJZN4kecZR6UD4+8aunICx9ObvUPbho28xUheZTxVDogRpOLZn/M4hyND+m5DNVMZySjeYKVDoR20pRe96MXhNA/oHdcziTd4jTFstPxGkILSlBPpy8l0Dej9VvMuYxnLWJZbfGWgDYdwCAfzFToVIY7WM5nxTGACM+zDjSCFZy96cziH05MmRXj1RUz+4jHD5Q3lrAn7sx/7sy9taUNr2tEw6+57KUuYw2zmMIfZfEK1ZTWCFB2lHEhPDqITB9Ipj9MDlrKAOV98zGex1MKqKBrSkqY0pgmNaUozSoAm/7e4XM1KYA0VrGExS1jGUnsdI0jx0ZaOtKQtLWlJa5pRj/qUbdUnraIKWMlKVn3xf5/xKQv5jE0WT1Ih/H+ZLiB1WIyf8AAAACV0RVh0ZGF0ZTpjcmVhdGUAMjAyMy0wOC0yNlQwMjoxOToyNCswMDowMFBFTTsAAAAldEVYdGRhdGU6bW9kaWZ5ADIwMjMtMDgtMjZUMDI6MTk6MjQrMDA6MDAhGPWHAAAAAElFTkSuQmCC",
 		"googleIcon": "data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAlgAAAJmCAYAAACAFv4BAAAAAXNSR0IArs4c6QAAAERlWElmTU0AKgAAAAgAAYdpAAQAAAABAAAAGgAAAAAAA6ABAAMAAAABAAEAAKACAAQAAAABAAACWKADAAQAAAABAAACZgAAAACxjYR/AABAAElEQVR4AezdCXxcVdn48XPuzKRJ0w2alF12ZVGkTVJ2aNMCIiDSUiy4gb5uuOCOCL5vVXB//y4or4obitIWiijiAk0bFURIwl5F9kWgS7qnW2bmnv8zgWCaTJJZ7nrubz6ffpK5c+45z/M9k+bJvXfO1YoHAgggEJDA4nkqdcrG6a/K5vV+Ruf310bvp5Xax1Vqd/m6m4QxRf4VvqYDCGmTMma11nqNjP+Co9TzyugXjFHPOY56yu3NP934164XA4iDIRBAwEIB+T+NBwIIIFC5wKZZ0yf3ajNVubrJVWa6o9U0o9R+lfcYmz0fNUo/qHT+AaX1vcZNde3Wdveq2ERPoAgg4KsABZavvHSOQPwF1p3S/FrjOie7rpqttDleMpoQ/6yCysD0KOP8xdXun1NGtTcs67wnqJEZBwEEwhWgwArXn9ERiITAC7OnHVpjnDPliMzpEtCJkQgqAUHIf8ArlNK3ujp/y5SlXXckIGVSRCAxAhRYiZlqEkVAqe5Tmg4xeec8ZdS5SqtDMImqgOnRSt+ojXP95GV33xbVKIkLAQSGF6DAGt6GVxCIrYBcA6W7W1vOkAu4322UOSu2iRD4YIF/yGnan2W27/jRpDseWj/4RZ4jgEB0BCiwojMXRIJAxQLds1tmy6ffLpYOzqi4E3aMq8CTEvjV+dSO7+9+24Nb4poEcSNgmwAFlm0zSj7WC6ye0bK7TpmPyUGqD0uyddYnTIJlCxhjbnNS+msNt3e0lb0zOyCAgCcCFFieMNIJAv4JdM9qaZHeL5HTfnP9G4WebRaQ/+iflmu6rpjcds+Pbc6T3BCIkgAFVpRmg1gQEIE1M6c1KSf1Ffl2NiAI+CTwonzQ4X8al3Vc41P/dItA4gUosBL/FgAgbIHCKT8npb4iR6jeGXYsjJ9MAXnvPSRHuD7b2HbP75IpQNYIeC9AgeW9KT0iMKrAmlnN75NrqL4uDceP2pgGCAQsIAXXtWPS6Y9P/NNd6wIemuEQsEaAAsuaqSSRKAusPOWIKan8mB9JjGdGOU5iQ2CwgPySeFa55iMNyzt/M/g1niOAwPACFFjD2/AKAlUJFJZOUK66xmi1X1UdsTMCkREwrqz2f/mUto4vRyYkAkEgogIUWBGdGMKKp0D37OZ3GKO/L9GzfEI8p5CoyxCQ5SCuapzc+TF9g8qXsRtNEUiEAAVWIqaZJP0UWNPa/FGl9f/KGI6f49A3AlEWcJT+wa677vtBfcMNFFtRnihiC0yAAiswagaySUBuQ3OBnPorXFOVsikvckHAEwFjvtm4rPPjnvRFJwjEVIACK6YTR9jBC6xpbTlTPl21SGtO/wWvz4ixFdDmY41LO78V2/gJHIEKBSiwKoRjt2QIrJrdcoDjqluVVockI2OyRMA3gc3a6Dc3LLtnmW8j0DECERKgwIrQZBBKNAQWyLVUH5zVcq1E87ZoREQUCFgnsGz71vQZ+9x11zbrMiMhBF4WoMDirYDAywKy+Od8+faXsgAoF6vzrkAgIAGt3Y80LO26KqDhGAaBwAQosAKjZqAoCrxwZtPYzFZnucQ2PYrxERMCSRGQaxsfTm/ffuKkOx5an5ScydNuAQosu+eX7IYRWD275UJt1E+GeZnNCCAQooDR5t1Tlnby8xniHDB09QIUWNUb0kNMBBbItVUXtU6/RWvzxpiETJgIJFrAKHNrY1vnmfKLSj7AywOBeAlQYMVrvoi2AoF1s6YdkVepv8mu9RXszi4IIBC+wOaMVkdOWtrxZPihEAECpQlQYJXmRKsYCqye1XKxvMFZfyeGc0fICIwg8LbGtg75MAoPBKItQIEV7fkhugoEpLC6Ud7YcyvYlV0QQCAuAlp9q3Fpx8fiEi5xJk+AAit5c25lxs8dc0xdbX32QWX0QVYmSFIIIFBUQK6pvK1haeepRV9kIwIhClBghYjP0NULvNA6dd+MTq+Qnri+qnpOekAgtgLyqeCHJ7v1U3V7ey62SRC4VQIUWFZNZ3KSWTVr+jGOMndKxryHkzPtZIpAKQIvyirxB7JKfClUtPFTgF9OfurSt+cCq1qbTnG08yfPO6ZDBBCwTaBbba85oPHOOzfblhj5xEOAAise85T4KFe3Tp8n11osTjwEAAggUJ6AVmtMbusBU9pX9JS3I60RqE6AAqs6P/b2WaB7Zssc46glPg9D9wggYLuAVi9uyKzf/+A/PL7D9lTJLxoCFFjRmAeiGCSwZvb005Uxvxu0macIIIBAtQL/+l5bx2ELlHKr7Yj9ERhJgAJrJB1eC1yge1ZLi9wT457AB2ZABBBIloBRf25c1jEjWUmTbZACFFhBajPWsALrZxy9Xy6Vf1wapIZtxAsIIICA5wL6B41t97zf827pMPECFFiJfwuEC7DylCPqU/kxqyQK1rEKdyoYHYFEC8j5wg/u1tZxdaIRSN5TAQosTznprByB7taWh4xWry1nH9oigAACfgrIh2qmTrm9434/x6DvZAhQYCVjniOV5ZrWll/K8qDnRyoogkEAAQT6BYza3OPWT9m/vX17/ya+IlCuAAVWuWK0r1hgzeyW9yijflhxB+yIAAIIBCggH7j5y5S2jpMCHJKhLBKgwLJoMqOaiqy+fqCsvl64gJ0HAgggEDsBrcyHGto6vxe7wAk4VAEKrFD57R5c/vrTa1qbV2mtG+3OlOwQQCABAsbk1Z5T2jtWJiBXUvRAgALLA0S6GCogpwN/KKcD3zP0FbYggAACsRZ4oLGt48hYZ0DwgQhQYAXCnJxB1s4+6mjXuHclJ2MyRQCBJAoYbd49ZWnnT5KYOzmXJkCBVZoTrUYRkNOBjiy70C2fDtxllKa8jAACCNgi0NuwNT1J33XXNlsSIg/vBBzvuqKnpAp0z2r+qtziJk9xldR3AHkjkFiBmu6xua2rZzVfm1gBEh9WgCNYw9LwwmgCa09s2cfNqGdHa8frCCCAQBIEUtrdd9elXfyfmITJLiFHjmCVgESToQJrZrXcQ3E11IUtCCCQXIG8cZ6RhZT/nFwBMh8owBGsgRp8P6rA6taWE7VW/AcyqhQNEEAgyQKuq4/cbfk9DyTZIOm5U2Al/R1QRv7yl9lzcp3V3mXsQlMEEEAguQJGdTUu62hOLkCyM6fASvb8l5R99+zms4zRN5fUmEYIIIAAAjsJZHX+sD2X3vvPnTbyxHoBCizrp7i6BOVaq+elhz2r64W9EUAAgWQLyC/bZQ1tHbOSrZCs7CmwkjXfJWfbPWv6m40yvy55BxoigAACCIwqUJNOT574p7vWjdqQBrEX4FOEsZ9C7xOQo1ZPUlx570qPCCCAQG8ut3b1rBZuHJ2AtwJHsBIwyaWmuHp281Rt9L2ltqcdAggggEBlAvJH7I7Gts46+SUsN8LgYaMABZaNs1pBTvIX1d/kzXBMBbuyCwIIIIBApQJan9G49J5bK92d/aIrQIEV3bkJJLK1px01we11NwYyGIMggAACCBQTuLexraOp2Atsi68ABVZ8567qyOVaq89JJ1+ouiM6QAABBBCoWsDkt46f0r6ip+qO6CASAhRYkZiG4IOQmzOvlxP/k4IfmRERQAABBIYV0Op9jUs7fjjs67wQGwEKrNhMlTeBrpk1/dVyTeW/vOmNXhBAAAEEfBB4VE4ZvsaHfukyQAEKrACxwx5q9azma7XS7wg7DsZHAAEEEBhdoCFfX6fb27eP3pIWURSgwIrirPgQk1xvtVW6rfOha7pEAAEEEPBJIO+as3Zf3vlbn7qnWx8FKLB8xI1C15wSjMIsEAMCCCBQlcAyOWXIbXaqIgx+Z1ZyD948sBFXz275JtdbBcbNQAgggIBfAq1yiQenCv3S9alfjmD5BBt2t3JKcJXEMCXsOBgfAQQQQMA7AZNXe0xp71jpXY/05JcABZZfsiH1u3rG4eN0auzmkIZnWAQQQAABnwXkNjv/NaWt88c+D0P3VQpwirBKwCjtvrq1+TSKqyjNCLEggAAC3gvIp8F/JGcp2rzvmR69FOAIlpeaIfa1prXlN0qrN4UYAkMjgAACCAQrsFEufmfB6GDNSx6NAqtkqug2XDOreb1Smh+y6E4RkSGAAAK+CTRscGt0V1fWtwHouCIBCqyK2KKxk5l3eE33urE7ohENUSCAAAIIhCWg8+6hDe1dj4Q1PuMOFeAarKEmsdiyekbLkRRXsZgqgkQAAQR8FzAp559yHe6HfB+IAUoWoMAqmSo6DVfParlUp9R90YmISBBAAAEEwhbQWl/VPavlxrDjYPyXBDhFGLN3gnxyZLmEPCNmYRMuAggggEBAAkapp6e0dewf0HAMM4wABdYwMFHcLEeuumXCJkcxNmJCAAEEEIiOgBRZ26XI4v6zIU4JBVaI+KUOLT8oWg775qU981UqGu0QQAABBFTDrvul9Q03FH5/8AhYgF/YAYOXO9za046a4Pa6G8vdj/YIIIAAAggUBGrS6ckT/3TXOjSCFeAi92C9yxpt5Yzm11JclUVGYwQQQACBQQK9udzaF2dNPWzQZp76LECB5TNwpd3L4qHzUyn9UKX7sx8CCCCAAAL9AmmVXlG4nVr/c776L0CB5b9x2SNIcfW/crnV9WXvyA4IIIAAAggMIyDLOPxePon+iWFeZrPHAlyD5TFotd3Jm//30gd/ZVQLyf4IIIAAAsUFtPl049LOrxd/ka1eCVBgeSXpQT/yScGH5RODh3vQFV0ggAACCCBQRMAsb2zrbC3yAps8FqDA8hi00u7WtLaslkUYGivdn/0QQAABBBAYWcDcKsXVGSO34VWvBNJedUQ/lQvIacGtsjcLwlVOyJ4IIIAAAiMIaKVvbGjrmDdCE17yWICL3D0GLbc7Ka5ysg/FVblwtEcAAQQQKElATlVd29B2D8VVSVreNaLA8s6y7J6kuJJLrlSq7B3ZAQEEEEAAgRIEpLi6Wo5cXVBCU5p4LECB5TFoKd0Vbn3zcnFVSnPaIIAAAgggUL6AUf8rxdUHy9+RPbwQ4BosLxTL6GPxPJXqXtd3WrCMvWiKAAIIIIBAWQJfaFzW8T9l7UFjTwX4FKGnnCN3ZmbMSHentmRHbsWrCCCAAAIIVCXwyca2DlmwmkeYAlz/E5C+Oe2gMd0m1RvQcAyDAAIIIJBIAfN+WYrhqkSmHrGkKbACmJDHpLhye3fZHsBQDIEAAgggkFABV5t3Tmnr/ElC049c2hRYPk+JaWrKuJmxO3wehu4RQAABBBIsYJSZt1tbJ/ewjdB7gGuwfJwMrrnyEZeuEUAAAQT6BIwxb5yyrPMPcERLgGUafJoPM29eigvafcKlWwQQQACBPoGcclsprqL5ZmCZBp/mpXvd04UV2nkggAACCCDgi0A+7xyzR3vH333pnE6rFuAUYdWEQztgEdGhJmxBAAEEEPBOwGgzbcrSzvu865GevBagwPJYVIorV7rE1WNXukMAAQQQeElAp9xDG27regSPaAtwitDD+ZHiqnBakOLKQ1O6QgABBBD4j4Cr1YG73db15H+28F1UBSiwPJoZKa42SVcse+GRJ90ggAACCOws4OSdfRrb7/73zlt5FlUBCiwPZqZ7VsuzcgPn8R50RRcIIIAAAggMEXCVs7sUV6uGvMCGyApQYFU5NVJcdUhxtU+V3bA7AggggAACRQUyO8bsOumOO9YXfZGNkRWgwKpiarpnTb9BVs9trqILdkUAAQQQQGBYAafHmTjp7jsKl6DwiJkABVaFEyZHri6V4uqcCndnNwQQQAABBEYUaBjr1uu2jq0jNuLFyArwibcKpmbV7GmnOib1xwp2ZRcEEEAAAQRGFdhQs7724D88zn1sR5WKbgMKrDLnZvWMaQfpVOqxMnejOQIIIIAAAiUJNOTrM7q9nbuBlKQV3UYUWGXMzVMzZtSOS23ZVsYuNEUAAQQQQKBkgYa2jpT8Yi4sWM0j5gJcg1XGBFJclYFFUwQQQACBsgSkuHKkuJIPpvOwQYACq8RZlIVEsyU2pRkCCCCAAAJlCTS2dXBGqSyx6Dd2oh9i+BGuaW15TqKgGA1/KogAAQQQsE6A4sq6Ke1LiAJrlHktrHUldxfce5RmvIwAAggggEC5Aobiqlyy+LSnwBphrta0Np/HWlcjAPESAggggEClAq4UV/wOrlQvBvtxzneYSXqhdeq+GZ1+epiX2YwAAggggEClAjkprjKV7sx+8RCgei4yT/IRDofiqggMmxBAAAEEqhXopbiqljAe+1NgFZknuQ0OC7wVcWETAggggEBVAluluBpTVQ/sHBsBCqxBUyXLMTwpmzh1OsiFpwgggAACVQlsluKqvqoe2DlWAhRYA6ZLLmr/pjzdf8AmvkUAAQQQQKAqAfmLfZ0UVxOq6oSdYyfAkZqXp2zNzKOalON2xm4GCRgBBBBAIMoCq6W42i3KARKbPwIcwRJXM29eiuLKnzcYvSKAAALJFTAvUFwld/YpsGTuu9c9zW1wkvszQOYIIICAHwJPNbZ17uVHx/QZD4HE3/5FboPzsEwVp0rj8X4lymQIbJU0H5Njy/+WH83nXWNelDvgvmi0Xp9y3Q1ZozZmnPTmlHa375CGzg53W4HFHePUpY1T65pcrVZavlVjjes0Oto0ytIrDfJvijaqUWu1v3x/oOyya2E/Hgh4LmDUI43LOg71vF86jJVAogus1bNaLpbZOjxWM0awCMRUwBj1tBQ3d0qRc2fe6L/ttvyeB6KYyqpZR+2mlTtVCrPjjdEnSozHyr9UFGMlpugJyPv8gSnLOo6MXmREFLRAYo/cbJrR1LAj5awJGpzxELBbwLxglL457Zhbd7m984/yH4xrW76bZk2fvN2YM+X6irONVqdJfqzIbdskV5qPMXc3Lus8utLd2c8ugcQWWLLelZwl4IEAAlUI3KKMuqZhWcfv5D+SxP88/VsKr1qjzjfavEtMOYJRxRsrjrvKz0B7Q1vHzDjGTsz+CCSywJLiSq7tUFx86M97il5tFNCqy1XmO7st7fy5jen5ldPqGYePS6Xr35M35hL5z5aP6vsFHXK/Mrd/kuLqDSGHwfARE0hcgbW6tfkyrfUVEZsHwkEgUgJyOGqR0uarU5Z23hepwCwIZuXs5rNSRn9eUnm9BekkPgW55urXcs3VnMRDADBEIFEFVuHaiR3KdA9RYAMCCRfQxtymtbNgcts9dyWcIvD0V8+a/k6tzFdlYI5wBa5f3YDyC/Q6OXL19up6YW9bBRJVYHHdla1vY/IqV0COUG2XfS6Z0tbxnXL3pb1/Ai//EfhdGWG+f6PQsycCcv2hLMXwXk/6ohMrBRJTYHXPalkhv1QOs3IWSQqBUgRkbR75GXifnM74SynNaRO+gNwf9X+U1gvCj4QIdhYw/08WEf3Eztt4hsDOAokosFbNbJnjOGrJzqnzDIFECPwjp5x5e7Td/Y9EZGtxklJsfVSKrcIN6XmEKCCfEr1Srk28PMQQGDomAtYXWGaeSnWva8nFZD4IEwEPBMwzruucFdWFPD1IMPFdrJ7d8hVZsPWSxEMEDaDNpxuXdn496GEZL54C1hdYcmpwh5wWqYnn9BA1AiUL5OR2Mm+dvLRjccl70DD2AmuOO268qu29WRJpjX0yEU/AGPcjU5Z1XRXxMAkvQgJWF1irZ0+/Sj4d9aEIeRMKAp4KyD33ftLQds+7Pe2UzmIpIPdVPVPuqvprCZ7b+ng8g3K08EJZUPdnHndLd5YLWFtgsSSD5e/cZKe3URm3tXFZ173JZiD7YgJmxox0t7Plj1JszSr2OtvKEzCuesuU5RwZLk+N1gUBawsslmTgDW6bgCxouFg+Fj5ffmjlrDcPBEYXkP8HC590+8boLWlRVMCoN8nP3C1FX2MjAqMIWFlgyXVXt8lvoJNHyZ2XEYiHgNHvaVx2z4/iESxRRlFgzcnTm5VrCovIpqMYXxRjyrtq9u7LO9qiGBsxxUPAugJrVWvTgY52Ho8HP1EiUFxAfjB7Vd59fUN71yPFW7AVgfIFVp5y7BQnn/2HvL8ml793cvZwjTput2Udf0tOxmTqh4B1BRanBv14m9BngALdY5Q+ZELbPWsDHJOhEibw1Iz9asenGv8lR/pflbDUR0/XuE1c3zg6Ey1GF7CqwJJTg3fJfxhHj542LRCInMATDbtuPUzfsKI3cpERkLUCnU1NmX0nOYWjpAdYm2QZiTmueu3k5R0rytiFpggMK2BNgbVmZvNrlKM5nTLsVPNCRAUeW75rx6Hn3qDyEY2PsBIg8NSMGbXjUlueklR3T0C6RVM0+fzBU9rv5fKSojpsrETAngJrVoscvOKBQGwEnl+9cusBh6/giFVsZiwBgW44/nW7ZMfUPi+p1iUg3VdSzJrcfnsuu++ZVzbwDQIeCFhRYMmpwT9KdXWqBx50gYC/AkZtNu7WPae0r+jxdyB6R6BygXWzm16XN86DlfcQnz1NXu0xpb1jZXwiJtK4CMS+wFpzQtMeqsZ5IS7gxJlYAeNqddBuSzueTKwAicdOYM3slvfKqms/iF3gJQa8Q+mGvflASYlaNCtXIP4FFqcGy51z2gcsoF01t2F5x00BD8twCHgmIJ/O/r10dppnHUago03anXTg0q6NEQiFECwViHWB1T27+SpjNPcatPTNGfe05Ifrew1tHbw/4z6RxN8n8NhpB42Z2LvLBnlf18adJJ/aMW732x7cEvc8iD/aArEtsPrut5Xako02L9ElVGClFFZ7yg8XH7xI6BvA5rTlD9uz5A/bm+OaY0++vm7/9vbtcY2fuOMjENsCa/Wsli0S/Nj4UBNpEgSMk331lNvvfywJuZJjsgXktGGHCDTHSeGZDW5Nc1cXf5jHadJiHKsTx9jXzmp5C8VVHGfO5pjNDxrbOjTFlc1zTG4DBeT93iIf3Dhw4LYof9+w635piqsoz5B9scXyCBa3w7HvjRjjjLY15Osn6Pb2XIxzIHQEqhJY0zr9VqXNG6vqxMed5ZS9I7/sOGXvozFdDxWIXYElxdVfJI0ThqbCFgQCFjDqvY3LOq4JeFSGQyCSAmtnHLW3m3Kfi1pwhSPLUYuJeJIhEKs3nix+N1EWv9uQjKkhy6gKyA/NWvmLuCGq8REXAmEKyB/Bd8v408OMoX9siqt+Cb6GIRCra7CkuFobBhJjItAvIMXV2ymu+jX4isBQASlqjnJ0/pihrwS6xVBcBerNYEUEYnMEq7u15QKj1U+L5MAmBIIQ2CL/YY8LYiDGQMAWAbmN2Qa58GliwPm48rOaCnhMhkNgiEBsjmBRXA2ZOzYEJ/AFiqvgsBnJHgE52jtJri3/WoAZ5SmuAtRmqBEFYnEES87p3yJZnDFiJryIgA8CJr91PDdm9gGWLhMlEMQF8PLLrFcKujGJgiXZSAtEvsAyTU2Z7klOb6QVCc5GgU75S7jFxsTICYGwBOSP5cK9/yb4MP52+Xmt86FfukSgYoHInyKU4mpNxdmxIwKVCGh9BsVVJXDsg8DIAvJzNVFrdcPIrcp91fRQXJVrRvsgBCJ9BGvljObXplL6oSAgGAMBETCrV26tPXzFCo6Y8nZAwEeB7pNbZhlXLfVgiI1SXMl1XjwQiJ5ApAssOZzMyrvRe8/YGtED8h/1kbYmR14IRE1g9YzDx+nU2M2VxiW/HNZOYT26SvnYLwCByJ4ilFsv/FcA+TMEAoX7Z1xMccUbAYFgBQofHpGfu8If+VsrGPlFiqsK1NglUIHIFlhyXytuQRLoWyGZg+3IO/vIf9TfSWb2ZI1A+AJSZNVLlVXypSDS9mnZZ8/wIycCBEYWiOQpwu5Z039slHnXyKHzKgJVCRTWy0lX1QM7I4CAZwJrWluuVlp9YJQOH5Of21eP0oaXEYiEQCSPYFFcReK9YXEQ5p8UVxZPL6nFUkBunH6RfM7kvOGCl6MBKyiuhtNhexQFIldgyV8x7VGEIiZLBIz5fmNb52GWZEMaCFglID+bC/PaPWJwUlJcdcoioq8dvJ3nCERZIFIFllxs7Mgh4pOiDEZs8RXQ2ry5cVnnaKcg4psgkSNggcDuS7seyubdxldS0epOKa5Y9PcVEL6Ji0CkrsGSG4M+JUXWfnHBI874COTyqf33aP/70/GJmEgRSLbAUzP2qx2XarxFTguenGwJso+rQGQKrJWnHFGfyo/piSskcUdXoKFmfa3+w+M7ohshkSGAAAII2CYQmU9ROfkxz9iGSz6hC7jy128q9CgIAAEEEEAgcQKRuAZrw/Gv20UOpU1OnD4J+ymwjeLKT176RgABBBAYSSASBVa2ppajVyPNEq+VK7BSiqux5e5EewQQQAABBLwSCL3A2nLVPnvKJwfHe5UQ/SRe4F9SXO2ReAUAEEAAAQRCFQi9wKo5dOWjEz68IlQEBrdEwKguKa4OsSQb0kAAAQQQiLFAqAWWWa4axK7eGZdVky69X+mafIwpCT1cAdMuK0E3hxsDoyOAAAIIIPCSQKgFVj6feXzgREz8xEMqc8iGgZv4HoESBMxyWQF6ZgkNaYIAAggggEAgAvLhvXAe5nY1MaczRaup3HP1que6g8MJjFFjJWCMuW3Kss5TYxU0wSKAAAIIWC8Q2hGsnE4/Opxuep8tatIlDwz3MtsR6Bf4K8VVPwVfEUAAAQSiJBDKESzzA5XJHZjpLQVi8zWHqHx3bSlNaZMsgU65oJ37kyVrzskWAQQQiI1AKAVW79LMP2TgQ0tV2tHRqLYt3avU5rSzXcCoR+SC9pLfP7ZzkB8CCCCAQPQEQimwskszck/n8h7ulrTa9J3XlrcTra0TkDfOqiltHbtblxgJIYAAAghYJRD4NVjZ29O3ViLo1OdYyqESOLv22UJxZdeEkg0CCCBgq0DgR7AqOXo1GH/rb/dVvSt2GbyZ53YLGLnmKvA/COwmJTsEEEAAAb8EUn51XKzf7NKar8n244q9Vs62zGs2qvQBm1XvA9wfuhy3OLeluIrz7BE7AgggkDyBgI8ImE95RZzei6UcvLKMej+rV24dE/UYiQ8BBBBAAIGBAoEVWLm21LyBA3vyvWP6rstKNW7zpDs6iZ5Ab1a96vAVK0pa0iN60RMRAggggEBSBQK7BsuLa69GmqQd901W2/64z0hNeC12AvrMxrZ7fhe7sAkYAQQQQCDxAoEcwTJ/Ur5XPmOmrlUTLn448RNqC4BU/t+muLJlNskDAQQQSJ5AIEew5OjVOqEN7GN/G7/5OmW2B3r9fvLeOX5mzEKifurSNwIIIIBAAAJBFVhlLyxabe5bb3mV6n1412q7Yf/gBbLyicGa4IdlRAQQQAABBLwT8P0wT3Zp+kal9GHehVxaT31LORy0SfXez1IOpYlFo5UUV+loREIUCCCAAAIIVC4QwDVYem7l4VW3Z3qPrWrSZ+6vrhP2DkzA5NUegQ3GQAgggAACCPgo4GuB1Xt75h0+xl5a13ISdNKl96vUbizlUBpYOK2MMv81pb1jZTijMyoCCCCAAALeCvh6DZbfSzOUS1E4Xbj1D75/oLHcsGivVKecGmwBAgEEEEAAAVsEfCuwzB1qfG57ZlPUoMy2tNr4rddGLawEx2PcxrZO368FTDAwqSOAAAIIhCDg2ylCKa7+GkI+ow6p63J9pwx1bW7UtjTwX6DhhM6M/6MwAgIIIIAAAsEK+FZgSRqvDzaV8kab+LGHVc2Ra8vbidYeCziteoFyPe6U7hBAAAEEEAhdwJcCK9+W+UDomZUQwNjTnlPj3/WvElrSxHMBo/7c2Hb3cs/7pUMEEEAAAQQiIODLNVhRu7h9VGdZBnXDV+WAm/GFY9ThE9jAyEXtvhT3CbQkZQQQQACBCAp4/kvuhVvU2AjmOXJIUldN+swDKiXrZvHwX6AnXx+/94j/LIyAAAIIIGCRgOcFVmNt5k9x9Rl/waNq7OnPxjX8WMStjfnw/u3t22MRLEEigAACCCBQoYDn58Rid3qwCFzhRtGFG0bz8FZAzsR2T2nraPS2V3pDAAEEEEAgegKeHsGS+w7Ojl6K5Ueka/MvLeUwlqUcytcbfg+Kq+FteAUBBBBAwC4BTwssuanzb2zimXjxw2pMU7dNKYWWi6vMKaENzsAIIIAAAggELODpKUIbTg8W88+vqlObf/KaYi+xrTSBJ+RTgweV1pRWCCCAAAIIxF/AsyNYcnrwc/HnKJ5B4UbRkz5zv1KOXEXEo2wBiquyydgBAQQQQCDmAp4VWHJ68Asxtxg5/MJSDpfIUg57bRm5Ha/uJOAY59SdNvAEAQQQQACBBAh4corQLFfpXD6TTYBXX4q9K3ZRW3+7b1LSrSbPF+Xo1Z7VdMC+CCCAAAIIxFHAkyNY2Vzm53FMvtKYaw5fryZ+/KFKd0/MfhRXiZlqEkUAAQQQGCTgSYGltTpvUL/WP9VjXl7KYVxiDtyVNaeO1h8vawcaI4AAAgggYJFA1acI1y9Xk8blM+stMik7lW1L91I7WD/zFTd5U+Ub2jrSr2zgGwQQQAABBBImUPURrHH59MKEmQ1Jt27282r8ex4Zsj2pG1L5bENScydvBBBAAAEECgJVF1jy6UE+JSaQqYbtfau/J30pB2PUnbu037+BHy8EEEAAAQSSLFDVKcKepWq3MSqzMsmAxXLvue4glXtuXLGXrN8mF7ZX9Z6yHogEEUAAAQQSIVDVESwprq5LhFKZSY572+Nq7JufLnMvG5qb99uQBTkggAACCCBQrUBVRxtsvTVOtaj9+5teR2383yP6n9r+1cjRq6oKdtuByA8BBBBAIDkCFf9CNH9VuySHqbJMdY3bd12WM97+pRzSJrd/ZUrshQACCCCAgH0CFRdYuR3pn9rH4U9GEz60Qo05erU/nUehV6PW7LLsvmeiEAoxIIAAAgggEAWBigss+fTgWVFIIC4x1M18QY1/3z/jEm5ZcT6z0d2rrB1ojAACCCCAgOUCFRVYZrFKWe7iS3qpXXdYuJSDuaO5q8v+c6C+vCPoFAEEEEDAVoGKCqzc5MzXbQUJIq9Jlzyg0vtuDmIo38dobOs8wfdBGAABBBBAAIGYCVRUYCmjPhazPCMX7rjzn1D1c5+KXFxlBsQyHWWC0RwBBBBAIBkCFS3TwPIM3r05TFaWcvhGPJdyYFFR794H9IQAAgggYJdA2Uewcktr3mYXQbjZ6MzLSzlM6A03kHJHN+ab5e5CewQQQAABBJIiUPYRLDl6tV5wJiUFKMg8t/95D7X9b7sFOWTFY3H0qmI6dkQAAQQQSIBA2UewxITiyqc3Ru1JL6oJ7/+HT717163c0Pkr3vVGTwgggAACCNgnUNYRLLNc7Z3LZ56zjyF6GW342uuVypc1PYElwdGrwKgZCAEEEEAgpgJlHcHK59NcdxPQRE/6tCzlsH/0lnIw2nw3IAKGQQABBBBAILYCZR0i4dODwc9z9okJasviA4IfeJgROXo1DAybEUAAAQQQGCBQ1hGsAfvxbUACmQM3qYmfejCg0UYdZtGoLWiAAAIIIIAAAqrkI1iyPMM5RpkbMAtPYNPVhyl3Y01oAXD0KjR6BkYAAQQQiJlAGUewDJ8cC3lyJ1z0D1V7wsqQojCROYwWEgDDIoAAAgggULJAyQWWUerAknuloW8CtcevVIVCK+jHMxtMc9BjMh4CCCCAAAJxFSipwJJ1j0o+lRhXiDjF7UzsVZMuvV+ptBtU2Fubu7qyQQ3GOAgggAACCMRdoKQCSz49eHHcE7Ux/kly8XtaLoL3++Eop8XvMegfAQQQQAABmwRKOjIlBdZaSXpXmxK3KZfsk+PVlkX+ncHl4nab3i3kggACCCAQhEBJR7AkEIqrIGajwjEyB2xWE2VhUp8en/SpX7pFAAEEEEDAWoFRj2CZBcrJHZ/JWytgWWKb/u9Q5W4Y41lWHL3yjJKOEEAAAQQSJDDqEazs8ZkPJcgj9qlO+MA/VeGm0R49Oj3qh24QQAABBBBIlMCoBZZW5pJEiViQbO2xq9SED66oOpOGse5JVXdCBwgggAACCCRQYNQCSym9ZwJdYp+yMyH70lIOmcqXctC3dG2NPQQJIIAAAgggEIJACQVWCFExpGcCkz75oMocvLHs/uS2SJwaLluNHRBAAAEEEHhJYMSL3HfcXnOWo83NYMVfIPfMONXzq4NKToSL20umoiECCCCAAAJDBEY8guU45mND9mBDLAXS+/aUvJSDVN3PxTJJgkYAAQQQQCAiAiMWWMooLnKOyER5EYZOmb7rspzJ20fsrlfnTx2xAS8igAACCCCAwIgCI54ilBXc5R7PPGwU2H73FLV9WfHPL3B60MYZJycEEEAAgSAFhj2CZf7I6u1BTkTQY9UetVpN+HDRpRx+F3QsjIcAAggggIBtAsMWWLl0+oO2JUs+Ows4415aykEPWMrB5Leet3MrniGAAAIIIIBAuQLDniLMLU0/b1gDq1zP2Lbf8uv9VPaRSYrTg7GdQgJHAAEEEIiQQHq4WCiuhpOxc3v92U8rd03dItVmZ35khQACCCCAQJACw54iDDIIxoqGQM3Bm94VjUiIAgEEEEAAgXgLFC2wzO11r4p3WkRfiYBuVtwapxI49kEAAQQQQGCQQNECK6eyFw5qx1PbBYz6s+0pkh8CCCCAAAJBCRQtsIzWFwQVAONEQyBvnPdEIxKiQAABBBBAIP4CRS9yl48W7hf/1MigHIHaU3Y8Vk572iIQJYHWK3tYFDlKE0IsCCREIF1jdrvtU+NXF0u36BGsYg3ZZrXAZquzIzkEEEAAAQR8EMj1pj4+XLdDCiyzWKWGa8x2OwXkT39u6m3n1JIVAggggICvAubDw3U/pMDK71pz9nCN2W6nQM3s7I/tzIysEEAAAQQQ8FPAjB2u9yEFljEut0oZTovtCCCAAAIIIIBACQJDCiyl9Vkl7EcTewSW2pMKmSCAAAIIIBCswMwre04tNuLQAktxDVYxKFu3GaM+bWtu5IUAAggggIDfAlrpi4qNUazAKtaObZYK1Jycvc/S1EgLAQQQQACBAATMm4oNslOBZZaroutiFduRbQgggAACCCCAAALFBXYqsPK5mtOLN2OrjQKyPMMiG/MiJwQQQAABBMIW2KnAUtq8OeyAGD84gYyjvxjcaIyEAAIIIICAnQKzruw5eXBmOxVYcsEzR7AGC1n8XLf2rrA4PVJDAAEEEEAgEAGj1dsHD7RTgaW0ahzcgOcIIIAAAggggAACIwgYfe7gV3cusAa/ynObBdptTo7cEEAAAQQQCE7AjBk8FgXWYJGEPNeu882EpEqaCCCAAAIIBC7wSoElSzSMC3x0BgxNIH3Kjt+GNjgDI4AAAgggYJnAMR97rm5gSq8UWHk3NXPgC3yPAAIIIIAAAgggUJrA2IZJO91q8JUCyyiHAqs0QxtaZW1IghwQQAABBBCIioDRzpyBsbxSYCmjKLAGylj8vVbq5xanR2oIIIAAAggEL2DMmQMH/U+BpdSRA1/ge3sFUo66xt7syAwBBBBAAIFQBGoHjjqwwBq4ne8tFtCt2bstTo/UEEAAAQQQCF2AAiv0KSAABBBAAAEEELBNgALLthklHwQQQAABBBAIReDEK7bu0z9wX4El9yCU6555JETg9oTkSZoIIIAAAggEKpBx3Nb+AfsKrOztmdf3b+Cr3QJSSf/S7gzJDgEEEEAAgXAEXKN2LrDk+NW0cEJh1KAF1q3LLgl6TMZDAAEEEEAgGQL6lSWv+o5gUWAlY9oLWU45V/UkJ1syRQABBBBAIDgBrczO12DJaSOOYAXnz0gIIIAAAgggYLnAS0ewlJpqeZ6khwACCCCAAAIIBCbQX2DttPpoYKMzUNAC9wU9IOMhgAACCCCQRIH+AiuJuScwZ31bApMmZQQQQAABBAIUMH1LX1FgBUge/lDun8KPgQgQQAABBBCwV2DmV3oPK2RHgWXvHA/JLD0r9+chG9mAAAIIIIAAAp4JaDfb98FBCizPSKPfkdbKjX6URIgAAggggECMBVx1RCF6CqwYzyGhI4AAAggggEDkBF46RWh+ryZELjQCQgABBBBAAAEE4iig1cvXYNVlDohj/MSMAAIIIIAAAghEUGC/QkxO3rgUWBGcHa9DMko96nWf9IcAAggggAACxQUc7Tp7F3+JrTYJyMV299qUD7kggAACCCAQZQHHVXqvKAdIbN4IGGVYxd0bSnpBAAEEEEBgVAFH7vxMgTUqkxUNHrQiC5JAAAEEEEAgBgKOXJtDgRWDiao2xFw+969q+2B/BBBAAAEEEChNwFFa7V5aU1rFWaDuVPVUnOMndgQQQAABBOIk4ChjGuIUMLEigAACCCCAAAJRF5APl+ldox4k8SGAAAIIIIAAAnERmLHA1EqBxe1y4jJhxIkAAggggAACMRAYs333QoHFAwEEEEAAAQQQQMAjgVS2t5ECyyNMukEAAQQQQAABBAoCJqUaKLB4LyCAAAIIIIAAAl4KmBQFlpee9IUAAggggAACCIjAZI5g8T5AAAEEEEAAAQS8FNBmIgWWl6D0hQACCCCAAAKJFzBGT6DASvzbAAAEEEAAAQQQ8FJAa0OB5SUofSGAAAIIIIAAArKIOwVWQt4G+YTkSZoIIIAAAghEQEDXcYowAtMQQAjZAMZgCAQQQAABBBAQAWMMBRbvBAQQQAABBBBAwEsBrdUYjmB5KRrVvoyqiWpoxIUAAggggIBtAlopjmDZNqlF89Hc0LuoCxsRQAABBBDwQcAoVcMRLB9g6RIBBBBAAAEEEixgVIoCK8HzT+oIIIAAAggg4L2A0YYCy3tWekQAAQQQQACBJAtopR2OYCX5HUDuCCCAAAIIIOCDgOYIlg+qdIkAAggggAACiRYwLkewEv0GIHkEEEAAAQQQ8FzAUGB5bkqHCCCAAAIIIJBwAa3zHMFK+HuA9BFAAAEEEEDAYwGj+gqsnMfd0h0CCCCAAAIIIJBcAa16Ha3M2uQKkDkCCCCAAAIIIOC1gNnuuEpTYHntGsH+zGKVimBYhIQAAggggIB1AlrrbY7c8flF6zIjoSECvRNrDh6ykQ0IIIAAAggg4LmAcdV2xxj1vOc902HkBFJO/jWRC4qAEEAAAQQQsFLAyBEsZSiwrJzcnZPKKz115y08QwABBBBAAAFfBLTaKPfK0RRYvuhGq1OZaAqsaE0J0SCAAAIIWCpgjN7k5Iz7b0vzI60BAtqoaQOe8i0CCCCAAAII+CTgOHqjo9KpJ3zqn24jJGCU3jtC4RAKAggggAAC1goY12xyanp6n7Q2QxJDAAEEEEAAAQSCF1jr6DPV1uDHZUQEEEAAAQQQQMBSAa27uRehpXNLWggggAACCCAQjoB2FAVWOPThjGqWq3HhjMyoCCCAAAIIJEcgm8tSYCVnupXK52pOTVK+5IoAAggggEAYAlvyW1dxijAM+bDGdMwbwhqacRFAAAEEEEiKQNeCPbdSYCVltiVPYyiwEjTdpIoAAgggEKJAX4GlldoUYgwMHZgAa2EFRs1ACCCAAAKJFugrsIxS9yZageQRQAABBBBAAAEPBfpPEVJgeYhKVwgggAACCCCQbIG+Ast19X3JZkhO9jv+VHNIcrIlUwQQQAABBMIReOkIlsMpwnD4gx/VSbvzgx+VERFAAAEEEEiWQF+BNWZ27z+SlXZyszWufkdysydzBBBAAAEEghHovwYrmNEYJXQBrdX+oQdBAAgggAACCNgr0FtIjQLL3gkmMwQQQAABBBAIXuDRwpAUWMHDhz6iWaxqQg+CABBAAAEEELBSQA8qsLSS5bB4JEEgu2vmwiTkSY4IIIAAAggELqAHF1iuuifwIBgwHAGj3h/OwIyKAAIIIICA7QJu3wcHB5wi1MttT5n8XhKQC92PxAIBBBBAAAEEfBAwekWh1/8UWMalwPLBmS4RQAABBBBAIDkCY1a+sHOBld4r156c9Ml02+11r0IBAQQQQAABBLwV+MNVB+8o9PjKESx9uOpbt8HbYegtqgJpnft4VGMjLgQQQAABBOIu8EqBFfdEiL9MAa0uKnMPmiOAAAIIIIBAiQIUWCVCWdfMqIx1OZEQAggggAACERHYqcDSSj0bkbgIIwCB5xarugCGYQgEEEAAAQQSJ7BTgaW0ujVxAglOeMou6UsSnD6pI4AAAggg4LXAM/0d7lRgmby5uf8Fvtov4Gj9GfuzJEMEEEAAAQSCEZB1Jv/eP9JOBVb65Nzt/S/wNRECYxKRJUkigAACCCAQgIBRTvECSyov7kcYwAREaQjzF9UYpXiIBQEEEEAAgbgKaJW7uz/2nY5g9W/ka3IE8r2ZLycnWzJFAAEEEEDAP4F87/iO/t6LFVjb+1/kq/0Ccsjy3fZnSYYIIIAAAgj4L9C+QOf6RxlSYMlpwhv6X+QrAggggAACCCCAQPkCQwoslXcXlt8Ne8RZILe05pw4x0/sCCCAAAIIRE1gSIGVPiX/+6gFSTz+ChjlftffEegdAQQQQAAB6wXcgRkOKbAGvsj3SRHQuyUlU/JEAAEEEEDAHwFz58B+KbAGaiT4++1Lx7w6wemTOgIIIIAAAlUJaKOWDuygeIGl1cMDG/G9/QIp4/7Y/izJEAEEEEAAAZ8EnNROi7Wniw3jGPMzV+lvFHuNbZYKaHW8pZmRViIE9LZEpEmSMRUwKQm8JqbBE3aJAm2frXtlFffCLrrYfmapmpxTme5ir7HNXoF0KtuoZyrm3d4pJjMEEAhBYNaVPV+TNQc/FcLQDBmgwLLLxu1UUxU9Rahnq7UBxsRQERHI5dPXRSQUwkAAAQRsEjjZpmTIpTSBogVWabvSyjaBHlNzqm05kQ8CCCAQtoAcvToy7BgYP3iBkQqsR4MPhxHDErh1+z7q5LWnqamL53Hz57AmgXERQAABBOIq8Mo9CPsTGLbAMkZ9v78RX+0WuGDDieqKnql9SabyeW6VZPd0kx0CCCCAgMcCWuubB3c5bIGVqc9SYA3Wsuy5fFJUHdd9pvpXbtJ/MtP6pP884TsEEEAAgWoETlmweUo1+7NvXATc0gssfaziY89xmdcK4vynFFWF4qpQZA1+TF94NouODkbhOQIIIFCBQC6jL6xgN3aJmUDbZ8f/Y3DIRdfBGtyI53YJfH7zNPXHHXsPm5SrnD/KiwcM24AXEEAAAQRKFDDvGmZFpBL3p1lcBUYpsMzv5I1xRlyTI+6hArPlQvYtJjP0hZ237L/zU54hgAACCFQmoDkjUBlc7Pca9hqsQma5vPpm7DMkgT6Bde4YdUz3m0oprvraNy88Zz50CCCAAAIIIDCagHmsWIsRC6y6U3PLiu3EtngJLNp2gDp9XblLXJlfxitLokUAAQSiJXDiF7dxNiBaU+JPNNpZVKzjEQusYjuwLV4C89e3qm9teW0lQTvKLOD9UYkc+yCAAAIikHbcTwNhv4CTM4uLZVnKL9B/FduRbdEWyCmn75TgM/lxFQfatPCh6yvemR0RQACBxAuY9yWeIAEAS/973EPF0hy1wDJafaXYjmyLrsA92UZ1Qnf1n03QWp0b3SyJDAEEEIi8wNB1cCIfMgF6JTBqgVUzK/szrwajH/8FPrVpurp44zGeDdS8aO4bPeuMjhBAAIGECJxw5ZY9EpIqaQ4jMMoyDcPsxeZICpy09nTVa1LexmbUb6VD3ifeqtIbAghYLpBR5muWp0h6IiC3FSysG1n0MeoRrMJecozzmaJ7szESAi/mx/Zdb+V5cfVSdqkZP72gNhKJEgQCCCAQH4G3xSdUIq1UwHGcHw+3b0kFlmvU54frgO3hClyz9TVqzvrZvgbRU7f5Ll8HoHMEEEAAAQRiKND22bolw4VdUoFVc3L2p8N1wPbwBN687mT1EymwAngcGcAYDIEAAghYITDzyp7zrUiEJEoQ0Ga4RiUVWMPtzPZwBLbLdVaFVdlXuXWBBdB0/dyvBzYYAyGAAAKxFjDfjXX4BO+JQMkFlpRo93oyIp1UJdC+Yw81Uy5mD/ohSzZ8MugxGQ8BBBCIo4BWepc4xk3M5QqY5SPtUXKBpZX5zEgd8Zr/Ah/YeJy6dHOL/wMNM0Lz9XPePsxLbEYAAQQQEIEZV2w8GohkCBiT+t5ImZZcYGVm524fqSNe80+gcIL3eFk49P7sZP8GKaVnrX9eSjPaIIAAAkkVcHT6uqTmnrS8l18+dtgL3AsWJRdYSYOLSr5P5CaoY+V6q3xEpmrqr872bhXTqCATBwIIIOCZgDnQs67oKNYCZRVYciTlR7HONmbB/2/P69TbNsyIVNQpx7kzUgERDAIIIBARgVlf2nRCREIhDP8F3NGGKKvA2rI5+6nROuR1bwROW/cGdeP2/b3pzNte9JE3zj3Y2y7pDQEEEIi/gHH1TfHPggxKETBa/3S0dmUVWLucrTaM1iGvVyew2c30LcGwwa2priMf907n1D987J6uEUAAgXgKaN0Qz8CJulwBY9xvjbZPWQVWoTO5bc6zo3XK65UJ/G77PuqUdadVtnOwe6WnLZ53ULBDMhoCCCAQXYHWL27+QHSjIzKvBdovG//waH2WfxNf416ktPO70Trm9fIE3rnhJPVobmJ5O4XY2nHdf8rwmRBDYGgEEEAgOgKOvjo6wRBJFATKPoKVPjl/axQCtyWGvBwTPLb7zFgVVy/bp6ded9ZhtswDeSCAAAKVCjS9t5M/NivFi+F+8oG/zlLCLrvAernTwtJMPKoUeCi7i6xvdaYyhROvMXyk0ulRD5HGMC1CRgABBMoSmLjvIX8oawcax1vAOF8pJYHKCixj/ruUzmkzvMD/bG5S790Y+0/06qnXv3nW8FnyCgIIIJAIAf4fTMQ0v5TkaAuM9lNUVGBlTs5d0d8BX8sXmL32jeq2HXuVv2ME90jp1NIIhkVICCCAQCACM67oeWsgAzFI7AQqKrBil2VEAu52a/uWYNhiyv9sQURSKBpG88K5Hyr6AhsRQAABywUcra6zPEXSGyAg10c9NeDpiN9WXGDJVUM/GbFnXtxJ4FfbDlRnrjtlp20WPbnKolxIBQEEEChJ4OSvbtmzpIY0skZAK/cLpSZTcYGV6s1eVOogSW83f32rumrL4VYztFw/92dWJ0hyCCCAwCCBXM7cP2gTTy0XWHbZhJ+VmmLFBZZ+o9pR6iBJbddrnL5Tgs/kx1lPYLR6Z2w/Dmn97JAgAgh4LrDAyNlB1eh5v3RojUDFBVZBQM5FLrJGwuNE7s5OUSetPcPjXqPdnVyL9Wy0IyQ6BBBAwBuB1kzPX73piV5iJFDWbeKqKrDW5bPvjhFMYKF+YtNR6qMbjw5svMgMpNXeU5fM2Tcy8RAIAggg4JuAPta3ruk4kgJa68vKCayqj7PtfqrakuVD+jt5F45aFU4NJvWRyuqnJfd4rpya1EkjbwQQKEug9Us9Py+cwuGRLIG2z9bfXE7GVVcCxqhfljOgrW2fz4/tu94qycVV/9w2XX/O5/q/5ysCCCBgnYBRb7cuJxLyXKDqAiuzS/ZCz6OKWYf/t+VQdc762TGL2r9wtTZf8K93ekYAAQTCE2i9YvMPwxudkcMSMMb8ptyxqy6wdLPKljuoTe3fvO5k9fNtB9uUkie5NC+a+5wnHdEJAgggECUBrd8TpXCIJRgBk8p8styRqi6wXh7w2+UOHPf2W2U19mO636RWuXVxT8Wf+I3au3nxvOn+dE6vCCCAQPACM6/o+VnwozJiFATaL619vNw4PCmwMrOzHy134Di3b9uxp5ol9xPkMYqA6949SgteRgABBGIjoAvr/fFIoIDeXknSnhRYLw+ciM9UvH/j8eryzc2VWCdyn+ZFc9oTmThJI4CAVQJy9OoPViVEMiULaGU+U3LjAQ09K7BkSVurb51TqB6P7z5TPZDddQAf344qYPRJU3/J2lijOtEAAQSiK2CMLIGk3hDdAInMT4G2y8ZVdBmUZwVWalb2+34m1+0wZgAAKOpJREFUGGbfj+cmqGPleqs8yztVNA2pVN/aWBXty04IIIBA2AKtX9ryVNgxMH78BDwrsF5K3ayOH8HIEX+t5wj19g0zRm7Eq6MKyG10WJJ2VCUaIIBA1ARmLNjUIDHtG7W4iCcwgcWVjuRpgeUq5+RKA4nifqeufYP69fb9ohhaHGOadeQv57KeRRxnjpgRSLCAk3FeSHD6iU9da7fiy588LbDGzO590IbZ2OjW9C3BsMnU2JBOZHJIp9SjkQmGQBBAAIFRBFqv2Hq2NMmM0oyXLRZo++yEtZWm52mB1ReEMUsqDSYK+928fV/1hnVcy+jXXMipwn/61Tf9IoAAAp4KaPcmT/ujs3gJGLOimoA9L7DSs3PnVhNQmPu+Y8NJ6qs9rw8zhCSMfUjz4jlvSkKi5IgAAvEVkAvbK772Jr5ZE/lAAZNy3jnwebnfe15gyUdZXQkiX24gYbYvfDrwWFmC4bHcxDDDSM7Yrv6NWqA8f+8lB5BMEUDAT4Fj/p+pU8bM83MM+o6+wPJL67uqidKXX3Kucd9STVBB7vtgbte+9a0MSzAEya6aD5mzI9ABGQwBBBAoUaBu25aNJTalma0CxnRXm5ovBdaYk/OxuA7rsk3N6n0bjq/WkP0rEtBpuR7r5op2ZScEEEDAJ4HWKzf9l3TNhe0++cam25R+a7Wx+lJg9QVlzG3VBufn/q1yL8FlvXv6OQR9jy5wVsvCOS2jN6MFAgggEJSAc01QIzFOdAWWXTqu6hrGtwIrnc6dHkW6bre2bwmGbSYdxfASF5Ocmr2H67ESN+0kjEAkBVqv7LFusexIQkc9KGM2eBGibwWWnqlyEmDhX2Qe1207SJ257pTIxEMgLwk0HzK3FwsEEEAgTIHZV2w5S8ZvDDMGxo6IgHbO9yIS3wqsvuBcE5mjWOesn6W+t+UwL8zow3uBVPP1c+72vlt6RAABBEoTcLXhmtDSqKxvteyy+j94kaSvBVbmlFzV5zCrTbLXOH2nBJ/P11fbFfv7KaD19KaFcz/g5xD0jQACCBQTaL2ip+LVuov1x7b4ChijVnoVva8FViFIbdR3vQq23H7u6p2iTlp7Rrm70T4kAa3U1a+/dt5eIQ3PsAggkECBmVds/ois0rNrAlMn5WICjntOsc2VbJPfaf4/skszxv9Rdh7hoxuPVndnp+y8kWexEOicv6RQ+Af+nokFDkEigIBnAocvWFGzW2Zf1uTzTDT+HS27bJxndZHvR7AK3PKb8skg2U/sPoPiKkhwj8dqXjgnVncC8Dh9ukMAgYAEpLjaHtBQDBMHAaPu8zLMQAqszJbskV4GPVxfz+fH9l1vleUuLMMRxWS71rII6TMxCZYwEUAghgKtV25eJmF7drQihgSEPEggldOeXlMU2JtLThNmJRffFp8qfEKwsAwDD6sEfiOnC99sVUYkgwACoQvMuGLT8Y52/hp6IAQQKQEvTw8WEgvkCFafoDEz/ZIsrG1FceWXbqj9ntW0cM6HQ42AwRFAwCqBefNMiuLKqin1JBn59OC1nnQ0oJPACqzMybk7BozrybdbZTX2Y7rfpAqrs/OwU0Ar/R1up2Pn3JIVAmEIrD1yS+FsCg8EdhJYnqt/104bPHgSWIFViFUGu9iDmPu6uH3HXmqW3E+Qh/0ChdvptCyet7v9mZIhAgj4KTDzyp7CRcyBXRrjZy707aGAls/iLdCuhz32dRVogZWanf2OFwm8Z8MJ6r83N3nRFX3ERMC47ouHL55XE5NwCRMBBCImMOvKnk9IZRXIB64iljrhjCaQV+8erUklrwdaYBUClDf4DysJtLBPYWGk47rPVA/ndqm0C/aLsUCd67JeTYznj9ARCEtg5hc3vUZ+f3wjrPEZN9oCyz437qd+RBh4gZWenX1fJYk8mpuojpXrrVyO7lbCZ80+snxDoc7mgQACCJQkULioXTvOIyU1plESBR72K+nAC6yXEymsP1Ly48ubX6/eueGkktvT0G4BKbJydmdIdggg4JWAXNTO/xdeYVrYj5t1Z/qVVmgX+5V6+5xT175BbTJceuPXGyCu/cphrB1d85fw8dG4TiBxIxCAQOuVPRtkmIkBDMUQMRXweu2rgQxhHcEqxLBiYCCDv9/g1vQtwUBxNViG5wUB+ctgjBzJ2owGAgggUEyg9UtbOmU7xVUxHLa9JGDUp/ykCO0Illmu0rl83+ruQ/Jbsn0/9Y2eI4ZsZwMCRQQ2ymrvk4psZxMCCCRUQG6Dc7X8GfaBhKZP2iUK+Hn0qhBCaEew9EyVk9M8zw52eOv6GRRXg1F4PpLARDmSVTgNwAMBBBBQM6/YfBHFFW+EUQX0yGfRRt2/hAahFViF2DK92Vf3x5iTkz6FVdmfzE/o38RXBEoVmNi8aO6mUhvTDgEE7BSQta5O1lp/z87syMpLgR2pbcd42V+xvkItsPQb1Q5ZQPXF+7KT1QmyvhUPBCoWMGq8HMnaVvH+7IgAArEWmPWlzYfJWZHbYp0EwQclYO68pNH3a3hDLbAKkmdvO+2gizYeFxQq49gtUCtFFvcZs3uOyQ6BIQInfnHD/sboET84NWQnNiRWwDHOvCCSD+0i94HJyS/FwrVY+wzcxvcIVCMgF75H4r1dTQ7siwACowvMWNCzu5NRL47ekhYIvCTg98Xt/c6hH8EqBGI2Tj6wPyC+IuCFgBTtpukHTRkv+qIPBBCIpsCpCzbuSnEVzbmJalRGmYpv11duTpH5K19+IRZuZfCachOgPQIjCWxznMkrzr1h3UhteA0BBOIncMqCzVNyGb0qfpETcZgCQR29KuQYiSNYhUA6H3ndYYWvPBDwUkBuEL122q/msqial6j0hUDIAidesXYfiquQJyGewz8aZNiRKbDUggWuMuauIJNnrGQIOI56oGXhOW9NRrZkiYDdAq1f3HBgWo8pXLfLA4GyBOqz9VPL2qHKxpE5RdifR+Hamf7v+YqAlwLyxvqZ3L/wQi/7pC8EEAhOYMYVW492tMsf4sGR2zTSDjk9GOj9a6NzBOuVaTQ/f+VbvkHAQwH5a+ICKeD/5WGXdIUAAgEJtH5563kUVwFhWziMyZumoNOK3BGsAgBHsYJ+GyRuvKws41CTuKxJGIGYCsjtb/5bVmj/fEzDJ+wICAR5cXt/uhE8giXLNmjzuf4A+YqADwKZQhF/zOJ5u/rQN10igICHAnL7mz9SXHkImsCutOueHUbakTyCVYDgKFYYb4fkjekaM+fe8276dfIyJ2MEoi/QemXPvyXKvaIfKRFGWSCMo1cFj0gewSoEljd6duErDwT8FHC0vkmK+T/5OQZ9I4BA+QJSXPXKXhRX5dOxxwABY9QnBjwN9NvIHsEqKMgvvsJ95dKBijBYUgW2yXVZY5OaPHkjEBWBY2R19rpMam1U4iGOeAuEdfSqoBbZI1iF4Hp7Xf56KUDwCEKgrnBauulXcw8JYjDGQACBoQIzr9xyOsXVUBe2VCYgR5C+XNme3uwV6SNYhRSbr5/7hNLqAG/SpRcERheQe1Vd3TX/pg+O3pIWCCDglYCcErxe+prvVX/0g0CYR68K+pE+glUIsPO8JdwIugDBIzABrfRFzYvmbgpsQAZCIOECUlxtFAKKq4S/D7xN31zlbX/l9xb5I1iFlFoWzf22XKj2kfLTYw8EqhTI54/qfOvN91TZC7sjgEARgROu3LJHRpkXirzEJgSqEgj76FUh+MgfwSoE2fGWJRcXvvJAIHCBVOpuOU19Z+DjMiAClgu0XrH5ixRXlk9ySOkZpb8X0tA7DRuLI1iFiJuvP2eG0mb5TtHzBIEABZwdbsM97/w1n24K0Jyh7BRovXLzBqX0RDuzI6uwBaJw9KpgEIsjWIVAO8+7sV2+cF1MAYNHKALuGKe7eeGca0MZnEERsECg9cot0+R6K7nvOsWVBdMZyRTkqNHXoxJYbI5gFcBmLJ+R7lk1ubA2Fg8EQhXIbcvvcv+FN8tf4TwQQKAUgaaFc/+S3n7QCfXPcye0UrxoU5lAVI5eFaKPzRGsQrDtM9tzcqfCnxe+54FAmALputT6puvnLgozBsZGIA4CR103Z+/CGnPy1/wJ+drH1aYDLpSw5SAWDwQ8FpB7Vl7mcZdVdRerI1j9mRZ+WPu/5ysCYQvkM2a/++be9EzYcTA+AlETkP+rb5eYit72bNxzVyind5+ohUw8MRaI0tGrAmOsjmD1z7tWZnr/93xFIGyBVFY/Lb9IHgw7DsZHICoCTTfOPeTlP4SLFleFOHv2uVxta/xZVEImjpgLyFGXt0YthVgewSogykKQz8lR5r2jBko8yRaQRUrf1TH/xp8mW4HskywghdUjkv9rSjXQ+XFq/NOR+FR9qSHTLoICUTt6VSCKbYFVCP7lv5AK3/JAIEoCbsqt2fPu869fFaWgiAUBPwXkmsT3a63+r9Ixxj/1PaXdcZXuzn4JFtCOnt52aX1H1AhiXWDJp1IulgS+FTVU4kHgZYGHOucvOQINBGwWmLp4XmPKzcsfE1JeVfmoW3OBymyaWWUv7J4sAb1j2WX1tVHMueofiLCTkqNYhWUb0mHHwfgIDCfAzaOHk2F73AXkqNWjUlYd7GUeKbnwvV4ugOeBQCkCmbr6yX/6uF5XStug28S+wNrvpzNqG+ombwsajvEQKFvAmHd0nnfTL8rejx0QiJiA3D7qx3KBybv8C0urCU/8RLqP5eew/GOh50EC5slll40/cNDGyDyNfYFVkJTVtb8jh6c/HBlVAkFgBAFt9HEd5934txGa8BICkRSo9jqrcpOq//fnVGrHQeXuRvuECETxwvaB9FYUWIWE5FShK1+syWfgJPG9lQKuo9xD75n/60etzI6krBJovn7Om+QSq9+EkVSm52hVt+oDYQzNmBEWMEZdu/zycRdEOER7CpLX/fL0XcakaiN5HjbKbwBiC12g16j0YV3zFz0ReiQEgMAggZZFc2fLL7LCYqGhPrRbp8Y/9f1QY2DwaAlE/ehVQcuqIz5yXcAvJKO3RettQDQIlCSQSznO6+8+94Z/lNSaRgj4KNB0/ZzT5bYjv/NxiIq6Hv/0t5XOT6poX3aySMA4c5ZdPvbXUc/IqgKrgM2pwqi/5YhvRAG5TYH8UJ7S8ZYlS0dsx4sI+CDQsvCcC+VTr4WryyP7qF17rqrZcHpk4yMw3wVycvQq4/soHgxgXYF11HWnTcinx270wIYuEAhVwDXqvfeet+SaUINg8EQISGH1DSmsPhGXZJ3sFDXu2a/HJVzi9FCg16nf9Y5L9XoPu/StK+sKrIKUnCr8rpwq/KBvanSMQJACRl3Xed6Stwc5JGPZL3D44nk1dfl8u1y8fkxcs53w5I+VMiyDGNf5Kz9u/TdZVPS48vcLZw8rC6wCpdyrMCv3KuQnL5z3FaP6ImCeM1l1VNfbb3rRl+7pNBECzYvmHCcnopdJsjU2JDz2hU+r9LbDbUiFHEYRiMOF7QNTsHYVN7Nh8tiBifI9AvEX0PvojH6hcA/OpoVzLop/PmQQpIC8b35UeO9IcXWHjGtFcVXw27rn19TW3b8ZJCVjhSCgjboghGGrGtLaI1gFFblX4QckwaurEmJnBCIsYJR6TLm9x3adf0t3hMMktJAEpi085wxHmSUyvDUF1bCUJqMmPPmjYV/mhVgL9MrRqzFxy8DqAqswGU2L5q6SyndK3CaGeBEoV8AofXXX/Bu59rBcOMvav37xvL0yrltYYuFIy1IrKZ3Cxe+Fi+B52COwrXv92Lu+uU/sbolnfYFVeIv1HRa3571GJgiMImBkbUh1cdf8m64apSEvWyLQtHjeROW6i+U/9FMsSamqNMasP0uNWTenqj7YOSoCZqHcb/C8qERTThyJKLCm/WruEY6jHigHhrYIWCKQleUePshyD5bM5oA0mpbM2UNn9c9kE0XVAJf+b3VuFzX+mW/1P+VrTAXidmH7QOZEFFiFhOUo1m/ly5kDk+d7BJIkIIe1XMeYyzvOv+nLScrbplyn/ersVsdxfig5HWhTXn7mMv7JHyptYnf5jp8ksenbdfIHt1868fHYBDwo0MQUWIW85U7wea2VtZ+cHDS3PEVgFAGzUK4L/njXXJZ9GAUqtJdn/PSC2s1jN39VriP9SGhBWDBw3coPq8yWZgsySVAKRt237PJx0+KccbIKrB80ZfTE/XrjPGHEjoBPAhvluq3/6Zq/5DvSv3zLIwyBeYvnpZ4y+U8Yoz8n/zmPCyMGW8dMbTtU1b/wGVvTsy6vOJ8a7J+MRBVYhaSbF55zlvz+uLkfgK8IIDBUQCqs56XMukIKrh/IXREouIYSebJl6uJ5jem8+wm5AeXF0mGtJ53SyfACJiVLOUT6VovDx56gV1zjHNN++di/xz3lxBVYhQlrWTj3LvmNcXTcJ4/4EQhQoFdWqPyBSstSEOcseSTAca0ZqnBrmjH5/Pla6w/Jf7xN1iQWw0Tqn/uSSvXuFcPIkxCyeVQ+NfgaGzJNZIFVmDi56N2VL4nN34Y3LzmELrBOrmm8xhj3us75v3449GgiFIDcD3Wq2JzrKjNfK71fhEIjlJcFajaerGq734ZHxARsODXYT5rYAqOJ67H63wN8RcBrgfvldiy/kVPxv5GbVN/ndedR6e+lZRKck+XDmadIEXWaxLVrVGIjjtIEdH6CGv80y8WVpuV/K6PzRy//7MS7/R8pmBESW2AVeFtuOGeWyZulwVAzCgIIiMCTcqrxLvn6N/n39/G7rXuwfWZ7LmoyU6+fv6fWuWkpZabJ5QTT5Cq0JjnevXfU4iQebwTGP/V9pd06bzqjl8oEjHpAPjVo1d0HEl1gFd4FcqqwcMG7XPjOAwEEoiQghc16+Q/qeYnpBVmm4EVXqw3a6A3ym3CDHDHaKuvVb1OOzskpypcLtJSsd+TWyrn/lLxeqx0zQbtqvKv1eLlOf4JcEbCbFEpTpFAq3Edld/ln//35ojShEY+lbvV7VWbzcRGP0t7wbDo12D9LiS+wChBSZPXIl/p+FL4igAACCCRPILVjf1X/7wXJSzzkjF0ntX/7pXVPhxyG58Oz6KaQds5fwnoznr+16BABBBCIl0B+zFNq04EXSNCFz0DxCEJAji4vsbG4KthRYL38Dkq52cIpAx4IIIAAAokWMFJkXajyY55MtEJAybttl40/J6CxAh+GAutl8rvP/+0q5Zh3BD4DDIgAAgggEDmBLXt/Xm2bck3k4rIpoFXZeqs/WUCBNeDd2nnuTb+Qp20DNvEtAggggEBCBbLj71Cb9/9AQrP3N22j9LtXLNBW37qOi9yLvIe46L0ICpsQQACBBAsU1ssqrJvFo3oB+YTwU8svG3dA9T1FuwcKrGHmR4oseQ/wQAABBBBA4CWB2u7zVc3GU+GoUsDGJRmKkXCKsJiKbDMbe1m2YRgbNiOAAAJJFNje8CvVs8+lSUzds5zdrNvoWWcR74gCa5gJ6nrfLVtlUcJpw7zMZgQQQACBBAq4NS/IpwzfKevW5hOYfZUpG/fS9gUTuqvsJTa7p2ITaQiBvrDknyv3mHu4LAStZoYwPEMigAACCERUYMcuv1Gp7YcqJ9cQ0QijFZZcc/P08svHz4tWVP5GwzVYJfg2LZz7F4E6oYSmNEEAAQQQSJBAekuTGrvyIwnKuLJUk3Ld1UAdThEO1Bjm+675S06Uq7ISc1hzGAY2I4AAAggMEsjVd6lNB7xn0FaeDhTYkd6WyI9fUmANfBeM8H3n/JsKF+Zx/4QRjHgJAQQQSKSALOdUuC7LTa9NZPojJm3cOXde0rh5xDaWvsgpwjInluUbygSjOQIIIJAggTHr5qox69+UoIxHTLVNTg3OHrGFxS9yBKvMye3tHcuNocs0ozkCCCCQFIEduy5RPa/6ZFLSHSFPvTXJxVUBhiNYI7w9hntp2uI3HeS4mceGe53tCCCAAAIIjH/yR0qbTCIhknhR++CJ5gjWYJESnt977m8fVyr/xhKa0gQBBBBAIKECmw/4L5Ube3/iss9k85MTl3SRhFkHqwhKKZteuPGRx/ece3hWjgHOKqU9bRBAAAEEkieQHf93la99XGV6jktG8ka/ael/j38gGcmOnCWnCEf2GfXV5oVzrpUzre8YtSENEEAAAQSSK2DSasKTP7Y6fykoft522ThZ5p5HQYACy4P3QfOiOe3K6JM86IouEEAAAQQsFhj37FeUk93DvgyNembZ5eP2sy+xyjOiwKrcbqc9ZfmGf8mGV++0kScIIIAAAggMEqjZcJqqXTt/0NZYP83LRe3pWGfgQ/AUWB6iSpFVWGVuVw+7pCsEEEAAAQsFdG6SGv/Mt63IjE8MFp9GPkVY3KWirZ3zlxQ+ObGlop3ZCQEEEEAgMQImvaFv9XfjbIt1zjvS9Ym8DU4pk0aBVYpSGW2kyCosRNpbxi40RQABBBBIqMDm/d+vsuPuimX2rjKvu/MSncjb4JQyYZwiLEWpgjZyujAvu1HAVmDHLggggEDSBFLbD1b1z18em7SNUm9dftm4X8Um4BACpcDyEb150Vwp8Pmkpo/EdI0AAgjYI2AcWcrhJ5JPtH81G2OuXn75+A/aA+9PJtGeRX9yDrRXbg4dKDeDIYAAArEXqH/uiyrV+6qo5vFnuah9RlSDi1JcFFgBzAZFVgDIDIEAAghYJJDZNEPVrbkwUhnJacGn5LTgAZEKKsLBUGAFNDkUWQFBMwwCCCBgiYDOj1Pjn/5eVLLZJEeuJkYlmDjEQYEV4CxRZAWIzVAIIICAJQLjn/qe0m7hA+qhPXJSXGVCGz2mA1NgBTxxXPgeMDjDIYAAAhYI1K65QNVsmhlKJiwkWhk7BVZlblXtJUeyWMKhKkF2RgABBJInkOrdR9U/d0WgiVNcVc7NOk2V21W8pyxGmpKdC0UWDwQQQAABBEoSyNc8J6u/XyBt3ZLaV9toWba+8LuKR4UCFFgVwlW7mxRZhRtjxvseCdUisD8CCCCAQJkCRoqsC1V+zONl7lde843P1NeoBTqYSq680GLTmlOEIU9V88I5a2RRuYaQw2B4BBBAAIGYCWR6jlZ1qz7gedRutr6ufYHe7nnHCeuQAisCE958/dwnZOFe1haJwFwQAgIIIBAnAe3WqvFP/cCzkOuz9fW3LNBbPeswwR1xijACk9953pIDlTIdEQiFEBBAAAEEYiRgnO1yyvCdyqQ2VB11uqZ+HMVV1YyvdECB9QpFuN90zr9pujFqcbhRMDoCCCCAQBwFNu93seqddGvFoafX94y77VN6S8UdsOMQAU4RDiEJd0PLwrn/Lbcj+Hy4UTA6AggggEAcBZzs7mrcs18tK/RtdevH3vXxffjQVVlqozemwBrdKPAWzdfPOUdpfUPgAzMgAggggIAVAhOe/LFceVL4sPrIj8nZ+jE3LNC9I7fi1UoEKLAqUQtgn+aFZ79WKeehAIZiCAQQQAABCwXGvvApld4mv0qGeUy+vz59ww2aNRmH8al2MwVWtYI+7n/UdadNyKfHbvRxCLpGAAEEELBYIL31CDX2xU8MyZAV2oeQeL6BAstzUs871HJrHRZ785yVDhFAAIGECJiMmvDkj/qTdaW4YoX2fg0fv/IpQh9xPerayKrvhUJ4s0f90Q0CCCCAQJIEdLZvKQc3vWo7xVVwE0+BFZx1VSNJkTVBOuisqhN2RgABBBBIqIBZ1X7JgXUJTT6UtCmwQmGvbFApslrktjpfq2xv9kIAAQQQSKjAg7LW4u4JzT20tLkGKzT6ygduWTR3tixKenvlPbAnAggggEBCBBbJH+fzE5JrpNKkwIrUdJQeTNPieRO161Z/b4TSh6QlAggggECcBFxzSef5N3HWI6Q5o8AKCd6rYeUThjukrxqv+qMfBBBAAAELBIye2Xneje0WZBLbFCiwYjt1/wlciqx75dnU/2zhOwQQQACBpAqk3Ozud5//21VJzT8qeXORe1Rmooo45Pz6NOOaT1bRBbsigAACCFggsL/jpCmuojGRHMGKxjx4EoVcl/UquS7rGU86oxMEEEAAgfgIGLWp87wlE+MTsP2RUmBZOMdyyjAraY1+l08LcyclBBBAIIECd8qZjOMTmHekU+YUYaSnp7Lg5Acto7S5o7K92QsBBBBAIC4C2uhPUVxFc7Y4ghXNefEkqqaFZ8/TylnsSWd0ggACCCAQKQHjqkO7zl/ySKSCIphXBCiwXqGw85umH5w5Vk+s2WJndmSFAAIIJFLAdL7ldWmlF7iJzD4mSVNgxWSiqg2z6fq5j2qtDq62H/ZHAAEEEAhV4Fk5JbhvqBEweEkCXINVElP8G3Wdt+TVRpn3xD8TMkAAAQSSKWCM/jLFVXzmniNY8ZkrTyI94udvr6+p2drjSWd0ggACCCAQiEAur159/1uXPBbIYAziiQAFlieM8euE1d/jN2dEjAACyRMwSu3omr+kNnmZxz9jThHGfw4rykAOM09TjnNKRTuzEwIIIICA/wJa/5biyn9mv0bgCJZfsjHqV45mbZVw62IUMqEigAACVgsYo46Wa2fvtjpJy5OjwLJ8gktNr2XhnG8YpT9RanvaIYAAAgh4L8ApQe9Nw+qRU4RhyUds3I75N30ylavlPlYRmxfCQQCB5AjIUjrXckrQnvnmCJY9c+lZJk0L594ib4wzPOuQjhBAAAEERhRwHOeAe8694akRG/FirAQosGI1XcEF27Jk7gEmq54IbkRGQgABBBIp8JR86OiARGZuedIUWJZPcLXpNV0/p01r3VptP+yPAAIIIDBIwDHzOs+96cZBW3lqiQAFliUT6WcaU385Z99USj/t5xj0jQACCCRIYIsctRov+co17TxsFaDAsnVmfchLlnP4vXR7mg9d0yUCCCCQDAFtLul8y01fS0ayyc6SAivZ81929tNvOnuy2+t0l70jOyCAAALJFugdt9va+vaZ7blkMyQnewqs5My1p5m2LJr7bVkI7yOedkpnCCCAgIUCWpvPdrzlpi9bmBopjSBAgTUCDi+NLDBj+Yx0z6rJG6XV2JFb8ioCCCCQSIEtnY4zUZ17Qz6R2Sc8aQqshL8BvEi/adHcN2ujfu1FX/SBAAII2CBgXHVB1/lLrrUhF3KoTIACqzI39ioi0Lxozt3K6OlFXmITAgggkBSBZ+QTgvslJVnyHF6AAmt4G16pQOB1vzx9lzGp2jWya6qC3dkFAQQQiK2AcZwjus694aHYJkDgngpQYHnKSWf9As0Lz36HUg6Hx/tB+IoAAtYKFO4h2PGWJRdYmyCJVSRAgVURGzuVKsBK8KVK0Q4BBGInoNWGTu00cBF77GYukIApsAJhTvYghy+eV1PnuqtFYWKyJcgeAQRsEZCbMx8rN2e+y5Z8yMN7AQos703pcRiBpuvOep1Opx8c5mU2I4AAApEXkHvbfLtr/pKPRj5QAgxdgAIr9ClIXgAtC+dcZJT+XvIyJ2MEEIixwD/l04GHxTh+Qg9YgAIrYHCG+49A8/Vzf6y0etd/tvAdAgggEC0BOWK1Iz8mv/v9Z9+8IVqREU3UBSiwoj5DCYivedHc++Se8kcmIFVSRACBGAloo4/rOO/Gv8UoZEKNkAAFVoQmI8mhFG67s2XV5Mfkr8X9kuxA7gggEL6ALLvwXll24ZrwIyGCOAtQYMV59iyM/ajr3john97+b0ltvIXpkRICCERYwGj1ja63LPlUhEMktBgJUGDFaLKSFGrTL+bsoTP6Ccm5Lkl5kysCCIQgYNT1nectOT+EkRnSYgEKLIsn14bUXr943l4Z4z4h12iNsSEfckAAgegIyC/A33XMX3JmdCIiEpsEKLBsmk2Lc5m+eN7+edf9p7xhKbQsnmdSQyAIAbnW8zZZy+rUIMZijOQKUGAld+5jmXnTr85s0E5N4dThhFgmQNAIIBCaAEesQqNP5MAUWImc9vgnLbffGTdWTh0ao6bEPxsyQAABfwX0Tzvn38iae/4i0/sgAQqsQSA8jZfAvMXzUk+67t3yRm6KV+REiwACfgsYrb/c9ZYbP+v3OPSPQDEBCqxiKmyLpUDzwjnXK6XnxzJ4gkYAAc8EjDLv6Zp/048865COEKhAgAKrAjR2ibZAy8K5F8tFrN+KdpREhwACngoYlXVTzjH3nntDl6f90hkCFQpQYFUIx27RF5CbSrfITaXvlEgz0Y+WCBFAoEKBR3t7x0578B2/2FLh/uyGgC8CFFi+sNJplASOWTyvLuu6f5GYmqMUF7EggEDlAvLL6/9kDauLKu+BPRHwV4ACy19feo+YQPPCuZdJSFdELCzCQQCB0gRyclT69K75N95WWnNaIRCeAAVWePaMHKLAtF/MO0in3Tvlpq7/v727CY2rigI4fu+dJppqPyia0Y0VbA0qUu3kg6AIShG6aavJZDIG1FWqCzct1OhqFAQLEYqIokKsUewwH40L7cYqdaGFZmIxbdFVFwakRSaiWRRt3r0eV4XSliR9k/dx/4WBZvJy7jm/wySH997cYZuHCPvA0ggsUeD47dnmzhNPnlhc4vEchkDkAgxYkbeABKIW6C4PHlTKHYg6D9ZHAIErAvJGFaudKzSKR2tXnuV/CCRHgAErOb0i0xYL5Cbz9+j24DvZ6uG+Fi9FeAQQuI6AnFWuTGvznBqqBtc5hKcRSIQAA1Yi2kSSqy2QKw+8LC+O91d7XdZDwE8Bd1HOIu9oDE+d9bN+qk6jAANWGrtKTeEJlEqmp+vMhNPqhfCCEgkBBEQgUFqNNgr1CTQQSKMAA1Yau0pNLRF4tJK/M2Pt1xK8pyULEBQBHwSce0Puqyr5UCo1+i3AgOV3/6l+hQK95WfuD5T5Ul5AD6wwBD+GgEcC+lCjUNsnZ6zk3nX+IeCHAAOWH32myhYKdFf29CqbmZQlulq4DKERSJSAXFY/OFOojyUqaZJFIEQBBqwQMQmFwPbPdm0xa9ZMKq370UDAM4HAOT02U6yNe1Y35SJwTQEGrGuy8CQCNy/wyCd7NmY6zHta6ZGbj0YEBGIpMCeX/V6SG9WPxTI7kkIgQgEGrAjxWdovgdyRwVe1dm9J1Rm/KqfaNAnITVSH243Zf3KoOp+muqgFgbAFGLDCFiUeAksQyH2ef1i1uUOyU/VTSzicQxCIUuC8U3ZsZniqGmUSrI1A0gQYsJLWMfJNpUBPeWBUPsRWzm65O1JZIEUlSWBBO/3m9HDtHd71l6S2kWvcBBiw4tYR8vFeYMu7O2/Z0Ln2de3UAfkDd6v3IAC0WuAvuez39rpsc5wPU241NfF9EmDA8qnb1JpIgdyHo21mQ3O//BF8TQpYn8giSDo+Ak6ds8qN/1Q8ejg+SZEJAukTYMBKX0+pyAOB7vLgbqXdPtm28QkPyqXElQsEsh/VhLbqg0axfnrlYfhJBBBYrgAD1nLFOB6BGAo8VMlvWuuCvc7qV+Sy4t0xTJGUWi9gnVM1Y9TH04X68dYvxwoIIHAjAQasG+nwPQQSLND3xa7som5/Uc50PS8v9AcTXAqpXy3gVFMG6U8DZSdPD0/9fPW3+RoBBKIXYMCKvgdkgMCqCuTKg08bZfPW6aLW6rZVXZzFliUgv6D",
-		"deleteIcon": "data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAgAAAAIACAYAAAD0eNT6AAAACXBIWXMAAA7DAAAOwwHHb6hkAAAAGXRFWHRTb2Z0d2FyZQB3d3cuaW5rc2NhcGUub3Jnm+48GgAAHQJJREFUeJzt3W2wXVd5H/Bn7fsiWXaEHWwDDjTAQFNiywacUmhnINAPbTBpU2ZM0mboxB2QCI4lm0zGdCYlGprpQAkYy7WxZfPS0BamniaZFJK0MwXcmQ4kqcGWrAQCg91Cg21ZlmzLerkvZ/WDLrKE7tU9R/ecu85Z6/eb0TfP3Y/3zLPOf6+997MjAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAYHWpdAHA6rZe/TsXx/zML0TEGyNiS+R4SURcFBFd2cqiFxEHI8X3ImJv6uX7phem/+D2b/7agcJ1AasQAGCMbb3yltdGnnp/RP6FiJgpXU+f5lPE76cufejOB7d/o3QxwPIEABhDv/LqWy6cXew+GhHXxeT2aS+n+HSa2fjru+/f9lTpYoDTTerCAtU6cdXf/ZeIeGnpWobk4dzrvf3ufTc9ULoQ4DkCAIyRd2/Z9aYU+Q8jYnPpWobs6RzpH929d/t9pQsBThAAYEwsXfl/Oer78f+hp3Ov9yY7ATAeBAAYA0v3/L8eES8rXcuIfTdmN77WMwFQXulXiICIWHrgr/Yf/4iIl6e54x8pXQRgBwCKW9r6//NoJ5D3Ui+99q592x8sXQi0rJUFB8ZXnnp/tNWLXZ6Kf1m6CGidHQAoaOvVv3NxzM38dUzOkJ9hmZ+Zn3qRiYFQTktXHTB20vHpfxzt/fhHRMzMzfR+vnQR0DIBAArKXXpT6RpK6aLX7P87jAMBAErKcWXpEspJW0pXAC0TAKCsnyxdQCm5nlHHMJEEACjrgtIFFPRjpQuAlgkAUNZ06QIKmi1dALRMAACABgkAANAgAQAAGiQAAECDBAAAaJAAAAANEgAAoEECAAA0SAAAgAYJAADQIAEAABokAABAgwQAAGiQAAAADRIAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAABYVipdQCtueMWuzXOb4prcy2+JFFdFxEsj4sKImClbGUAx8xFxKCIeSZEe6KX8pcXjx774qW/d/EzpwlogAIzYu6/6d38z9RZvjohfiohNpesBGHNHcorPdV18+K4Hdny7dDE1EwBG5KY3fOy8Z5+d/teR846ImC5dD8CEmY+cPz53+Hkf+Mwj1x0rXUyNBIAR2PbqW1+ZF+P3IuKK0rUATLIU8bW80Hv77r+86Qela6mNADBk77lq12t6vfzfIuKS0rUAVOL7vZyvueehG/eULqQmAsAQLV35/6/w4w8wbN+f7k3/7Tv2Xf9o6UJq0ZUuoBa/8tJPb8yLcW/48QcYhRcvdgtfuOkNHzuvdCG1EACGZHbzM78dEVeVrgOgVjni6iOHu/eXrqMWbgEMwdKrfvvC0/4Ao3Z4ujf9SrcC1s4OwBAsvefvxx9g9C5YSAsfKF1EDewArNENr9i1+fh5+QdhyA/Aenl2Ye7Yi0wMXBs7AGs0tymuCT/+AOvp/JmZDW8tXcSkEwDWKPfyW0rXANCanJK1d40EgLVKnvwHWG8p4srSNUw6AWCtcrysdAkArcmRX166hkknAKxVis2lSwBoT3pe6QomnQAAAA0SANYqx9OlSwBoT36qdAWTTgBYqxQPly4BoDUp0ndL1zDpBIA1SpEeKF0DQGty5AdL1zDpBIA16qX8pdI1ADTof5QuYNIJAGs0szj9hYh4tnQdAA15dro388eli5h0AsAa3bHv+sM5xedL1wHQihTpP92x7/rDpeuYdALAEHRdfDgi5kvXAdCAuS4WP1S6iBoIAENw1wM7vh05f7x0HQAN+Ngn9t7kDYAhEACGZO7w8z6QIr5Wug6AeqWvbjiadpauohYCwJB85pHrjk31pv9JRPpe6VoAKvTXXbdw7W3f2X68dCG1EACG6I591z/ay723RcT3S9cCUI/0vYjuH9754Pv+X+lKaiIADNk9D924Z346vTYi/mfpWgAmX/rqdG/qdbv33rC3dCW1mSpdQI0eePSPj/zdzW/9XG8m9yLSz0TEbOmaACbMXErxbzccTdfd/q0bzP0fgVS6gNq99/LbX7iQFj4QKf55RJxfuh6AMfdsRPzHqeh92NP+oyUArJP3Xn77BYtp/pqc4s0R6dUR+WUR6cKwOwC0ay4iH4pID+cU34hefHkmT/+RIT8AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAwPlLpAhierVtuvS8i3li6DqBa9+3eu+NnSxfBcHSlC2B4csTjpWsAapasMRURACrSZQEAGKVsjamIAFCR3MX+0jUAFcvWmJoIABXJ0jkwSp1bADURACrSRac5gZHJ0bPGVEQAqEnWnMDoZBcZVREAKpJjSnMCIzNjB6AqAkBFFnvzmhMYnTxrjamIQUBVyWnrll3HI2KmdCVAdeZ3792+ISLl0oUwHHYAqpJyhNd0gJF43I9/XQSA2iTDgICRsLZURgCojWmAwAikbAZAbQSA+mhSYOhyZ9BYbQSAyvggEDAadgBqIwBUJnkIEBiB5DsA1REAKpPdpwNGwi2A2ggA1TGpCxg+Fxf1EQAqMzVlVjcwfNm3RqojANQmLWpSYOh6vWlrS2UEgMqcd15+rHQNQH02XzgnAFTGtwAqtHXLrc9ExAWl6wCq8czuvTs2ly6C4bIDUCdJHRgma0qFBIAKJc0KDJU3AGokAFQoa1ZgiLIZAFUSAGqUNSswPJ2LiioJAFXSrMDwZBcVVRIAatSZ2Q0MT7amVEkAqJG0DgyRWwB1EgAq5CFAYLhcVNRIAKiQmd3AMOXsGyM1EgAqNJtnNCswNL3sGyM1EgAqtP+nL9kfEb3SdQBV6L344kMHShfB8PkWQKW2XnHr/khxcek6gIm3f/feHZeWLoLhswNQq2QcMDAMHiqulQBQKW8CAEORvAFQKwGgUp3XdoChcDFRKwGgUnYAgGEwBrheAkClchjdCaxdspZUSwCoVCe1A0NhN7FWAkC1NC2wdm4B1EsAqFSe0rTA2k0ZA1wtAaBSOaY0LbBmeca3RWolAFRqPs1rWmDN8tRGa0mljAKu2NYttx6LiA2l6wAm1vHde3dsLF0Eo2EHoG5e3wHWwMPENRMAqqZ5gXOXTBStmgBQNc0LnLtsDamaAFCxnO0AAGthDamZAFCxrpPegTUwBKhqAkDFcvYQILAGXWcNqZgAUDFfBATWxg5AzQSAinWaF1iDbAxw1QSAmmleYA1yGANcMwGgYjlrXuDczeYFa0jFBICKzT27WfMC5+zI4R/3EGDFBICKfeaR645FxNOl6wAm0lNLawiVEgCq500A4BzksHZUTgConjcBgMFlg8SqJwBUzw4AMLjOKPHqCQDVk+KBwfkQUP0EgMppYuDc2AGonQBQuZTN8gYGl3xLpHoCQOU8yAOcG2tH7aZLF8BopcV4TMwbiqdz5C+mlL6UF/ODC7PdIzPdhkMREfO94xdOz/VeGl28OuX0lkhxTUT8WOF6a+P8r7PsIcDqCQCVy9OLj6feVOkyJtlf5Zw+nDZs+Pzd9287ssJ/s3/p359HxN1br75rUzp+9J/mSDdHileuX6lVcv4LydOLAkDlUukCGK33XPmJS3t57rHSdUygo5Hzv7rs4kO37vzKzoVz+QNbr75rJuaP3xg5fzAiNg65vto5/4V1afYFd+75VSGgYgJA5a699j9PXfTNHxyPCNsA/crx7a6Lt9+5Z8dDw/hz77py1+u7nH8vIl40jL9XPed/HCwe/Fsv2nDvve9YLF0Io+PucOVONHA+ULqOCfKN+Zn094b14xMRcc+e7V/rpfS6iNgzrL9ZMed/LOQDfvzrJwA0wcM8fcnx7fnp9A8+/Y3tQ3/96Z4927/fS+maiHh02H+7Gs7/GLFmtEAAaEDyOk8/jqWcrh3Fj88P3bNn+/d7EW+LiKOjOsYEc/7Hi+eGGiAANMDrPH3I+Tfv2rf9wVEf5p69O+7PkT406uNMHOd/vBgC1AQBoAWGAa3mry67+NCt63Wwmd7Ux8JW9Kmc/3FjzWiCANAEOwBnk3P68Lm+anYu7th3/eFI6YPrdbxx5/yPI2tGCwSABpjpfVZPpw0bPr/eBz0ax383Ip5Z7+OOIed/DOVsB6AFAkAbPNCzghz5i7tXnjA3Mp/d8xvPRkp/tN7HHTfO/3jq7AA0QQBoQk8zryCl9KVix8652LHHhfM/rqwZLRAAGrDQy24BrCAv5pE/eb6SxZSaH0zj/I+nnKcEgAYIAA3IC/NuAawgbVx4uNSxp2Pmu6WOPS6c//G0MH9UAGiAANCAT33r5mfC8JNlHTx2+OlSx545Mv9UqWOPC+d/LB1dWjOonADQDrcBlnHvvp1zpY5923e2Hy917HHh/I+hFK7+GyEANMNrPUAfsgDQCgGgEdlrPUB/rBWNEAAa0dkBAPpjrWiEANAIOwBAP7KLhWYIAK0w2hPogymA7RAAGmEHAOiLi4VmCACtmNLUwOpydNaKRggAjZjS1EAfcl60VjRCAGjGgqYGVrU4O22taIQA0Ije9PmPR0QuXQcw1vJ0N2tqaCMEgEbsvn/bfEQcKl0HMNYOLq0VNEAAaIutPeBsrBENEQAakjQ3cHbWiIYIAA3JPvIBnEUWAJoiALRFcwMr6lwkNEUAaEmnuYGV5S68AdAQAaAlWXMDK/MhoLYIAE3R3MDKOhNDmyIANMSMb+Cscs8a0RABoCFmfANnk2PKGtEQAaAhGxZmNDewosXevDWiIQJAQ27/5vVPRoQxn8ByFj6576aDpYtg/QgATUk5Ip4oXQUwlh5fWiNohADQHlt8wJmStaE1AkBjjPoElmUKYHMEgMZ0AgCwPGtDYwSAxtgBAJZjbWiPANCYbBwwsIwU1obWCACN6YwDBpaRc7I2NEYAaE1nHDCwHGOAWyMANCZrcmAZU1MuDlojADSmZ9Y3sJzkWyGtEQAa083MPla6BmD89KY2CQCNEQAas/v+bUci4tnSdQBj5fDS2kBDBIA2SfrAqawJDRIA2qTZgZOSNaFJAkCLzPwGTpHDDIAWCQANyp0AAJwiGxDWIgGgQT4IBJzODkCLBIAG5ZzN/Aae0/kOQIsEgAblMPELOIVbAE0SABrUZeOAged4CLBNAkCLsh0A4DnZRUGTBIAG5Z6Z38BzZvOMNaFBAkCDLnvBU/sjole6DmAs5Esv2f9E6SJYfwJAg3Z+ZedCRBwsXQcwBnIcWFoTaIwA0C5bfkBEsha0SgBol6YHvAHQMAGgWZoeiOjCDIBWCQDN0vSAHYCWCQCtykZ/AhE5rAWtEgBa1Un9QERnDHCzBIBG5TD5C4jwPFC7BIBG+SAQEBGRp+wAtEoAaNSMHQAgInJMWQsaJQC0Ks9qeiDm07y1oFECQKM+sfdXD0XEXOk6gKLmPvPAjU+VLoIyBIBmpRxe/4HWPb60FtAgAaBttv6gad4AaJkA0LCUNT+0zRsALRMAGpY7zQ8tyy4CmiYANE3zQ8s6FwFNEwAalnwPAJqWrQFNEwCaJv1Dy3wJsG0CQMPc/4O2dS4CmiYANCxn44Chadk3QVomADSs15vW/NAwFwFtEwAatvnCOc0PDTt/86KHABsmADTslq++72hEPFO6DqCIp5fWABolAGAXAJrkIeDWCQDNswhAm7wB0DoBoHHZIgCNEv5bJwA0rrMIQKOE/9YJAI3L2SIALbL7hwDQuNyZBQ4tSrnT+40TABrnFgC0yefAEQCaZxGAFuUwBrh1AkDjslng0KTpMAa4dQJA43p50SIATZrV+40TABr31KsueyIiFkvXAayrxQM/9fwDpYugLAGgcffe+47FiHiydB3AesoHlnqfhgkAhIlg0Bo9jwBARETyJgC0JHn7hxAAiAhXA9CWnPU8AgBhHDA0xxAgQgAgIlIYBwwtMQaYCAGAiHALAFpjBwABgHALAFqTTQEkBAAiYso4YGiKEeBECABERJ5xNQAtMQKcCAGAiMhTGy0G0JBNx6f1PAIAEbvv3/ZURBwrXQewLo7d9p3tT5cugvIEAJYkrwVBG1z9ExECAEuMBoVW6HVOEACIiIhsUYAmZHM/WCIAsMSiAC3ohH2WCACcYBgQNMEOAD8kAHBCZzY4tCBn3/7gBAGAJXYAoAWdLwGyRAAgIowGhXa4BcAJAgAR4eMg0Aq9zg8JAERExGxesChAA3oxpdeJCAGAJVPHZh6PiFy6DmC0zjviIUBOEACIiIjbvrP9eESYDw51O7TU6yAAcIpsRjhUTo9zkgDASdnrQVA3IZ9TCACc1GWvB0HVhHxOIQBwkg8CQd2MAeZUAgCnsDhAzTrf/OAUAgAnJTPCoWo59DjPEQA4hasDqFn2nA+nEAA4yeIAdZsyBphTCACclKcXLQ5QsZyNAeY5AgAnLXTTFgeoWN44p8c5SQDgpJ/8xpMHImKhdB3ASCxedv/hJ0sXwfgQADhpZ+zsRcSB0nUAI7F/qcchIgQAzmSLEOqktzmNAMCPskhAnfQ2pxEAOI1xwFAtvc1pBABO44NAUCvhntMJAJwmd0aFQpWS3uZ0AgCnyT4WApWyu8fpBABO01kkoEqe7+FHCQD8CLPCoUY5Or3NaQQATmNWONRpJvvWB6cTADjNwvxRiwRUKPVm9TanEQA4zae+dfMzEXGkdB3AUB25Y9/1h0sXwXgRADiT14WgNq7+OYMAwJmyxQJqkvU0yxAAWI7FAirSdXqaMwkALMdiARWxA8ByBADOYGAIVEdPcwYBgDOk7CFAqEkKPc2ZBADOkI0Dhrr4xgfLEAA405TFAmpiDDDLEQA4w5TFAqqSjQFmGQIAy1iwWEBFFmen9TRnEAA4Q2/6/McjIpeuAxiKPN3NegiQMwgAnGH3/dvmI+JQ6TqAoTi41NNwGgGAldgyhDroZZYlALCsZNGAWuhlliUAsCyjQ6EOWQBgBQIAK7FoQAU6YZ4VCAAsr5Gvh117+c7ZUse+4RW7NpQ69rhw/kcvd8YAszwBgGW18kGgizZesLnUsec3zTyv1LHHhfM/eq30MoMTAFhWKx8EysemX1bq2Asx//JSxx4Xzv/odSZ7sgIBgGWliMdK17Auunh1sUPnuKrUsceG8z96uScAsCwBgGUt5tzEDkDK6S0FD//3Cx57LDj/o9dKLzM4AYBlbViYaeOqIcXb3nnlR85f78OeOGb+ufU+7thx/kcu59zGbh4DEwBY1u3fvP7JiGhhfOgFm3ozv7TeB92YZ/5ZRFyw3scdQ87/aM1/ct9NB0sXwXgSAFhByhHxROkq1kOOdPPWq++aWa/jXXv5ztkU6f3rdbxx5/yP1BNLvQxnEAA4m1ZuA7wy5o/fuF6Hu6i76H0R0cQT6H1x/kepjR7mnAgArKipEaI5f/BdV+56/agPs23LLW+IiJ2jPs7Ecf5Hxf1/ViQAsKKupQAQsbHL+fffe8VHXzKqA/yL19x2WY7u3ohoYgLdgJz/0WiphxmQAMCKmtoBOOGFC2n6C++6cteLh/2H33vFR18yvdD7k4j4iWH/7Yo4/8PnFUBWJACwotzINMAfcWWX89e3bfn4G4f1B7dtueUNC2n6zyJiy7D+ZsWc/+FqLcQzgOnSBTDO0mMRTT5AfEmO9N/fvWXXvzmWjn/0s3t+49lz+SPXXr5z9sJ00a/niN+Ktrad18r5H5KckwDAilLpAhhf777i429LKf3X0nUU9mik9MGjcfx3+/0heueVHzl/U5795Rxxc7TztPmoOP9rkHP++bsfuvELpetgPAkArOg9V+16Xa+X/7R0HWPicKT0xcjx5Ui9B7rY8PCBxccORUQ8f+oFF/bi+MtSL70mUrw5R7w12hgys56c/3PQdenv3Png9j8rXQfjyS0AVrSQ0/6uzVsAy7kgcv7FiPjFyCl6MRcXdRdFREQvz0VEiixOj5Lzfy7SolsArMhDgKyom5n1DjFMsN7UJgGAFQkArGj3/duORMQ5PYAFFHd4qYdhWQIAq3EFAZNJ73JWAgCrsYjABEp6l1UIAJxdtojAJMphBgBnJwBwVrkTAGAi5ax3OSsBgLNq7INAUBE7AJydAMBZ5Zxb/B4ATL6uyW95MAABgLPK0bmKgEnkFgCrEAA4qy73LCIwgTwEyGoEAM4u2wGASZSFd1YhAHBWUzFlHDBMJr3LWQkAnNX+n75kf0T0StcBDKT34osPHShdBOPN97NY1dYrbt0fKS4uXQfQt/279+64tHQRjDc7AKwumQUAk8UDgKxOAGBVniaGCZO8AsjqBABW1YXFBCaL0M7qBABWZQcAJks2BIg+CACsKoeRojBJkp6lDwIAq+pcTcCEsWvH6gQA+mAxgUniFgD9EABYVZ6ymMAkmTLCmz4IAKwqx5TFBCZInvEdAFYnALCq+TRvMYEJkqc26llWZRQwfdm65dZjEbGhdB3Aqo7v3rv9vIiUSxfCeLMDQL+8VgQTIT3ux59+CAD0yZsAMAmSyZ30SQCgTxYVmARZr9InAYC+5GwHACaDXqU/AgB96TpXFTARDAGiTwIAfcnZQ4AwEbpOr9IXAYC++CIgTAo7APRHAKAvnUUFJkI2Bpg+CQD0x6ICEyGHMcD0RwCgLzlbVGASzOYFvUpfBAD6MvfsZosKTIAjh3/cQ4D0RQCgL5955LpjEfF06TqAs3pqqVdhVQIAA/AmAIy1HHqUvgkADMCbADDOsoFdDEAAYAB2AGCcdUZ2MwABgAG4uoBx5kNADEIAoG8WFxh3dgDonwBA31I2YxzGWfLNDgYgANA3DxjBuNOj9E8AoG85jAOGcZY9BMgABAD6Nm3GOIy1PL2oR+mbAMAAZi0uMMYWumk9St8EAPp24KeefyAiFkvXASxr8fArXvhk6SKYHAIAfbv33ncsRuQDpesAlvXEiR6F/ggADMhDRjCm9CYDEQAYSPKaEYwrvclABAAG4jUjGE8mdTIoAYDBGAYEY8mHgBiUAMBAjAOG8ZQ7Y4AZjADAgOwAwDjKWW8yGAGAgWTTAGEsdd7QYUACAAPJ2fcAYDwJ5wxGAGAgvWzWOIyjnKf0JgMRABjIpuNmjcM4Wpg/qjcZSCpdAJNn65Zbj0TEeaXrAE46unvvjk2li2Cy2AHgXHjdCMZJMgWQwQkAnAOvG8FYyQIAgxMAGFj2uhGMGz3JwAQABtbZAYBxoycZmADAwHKkR0vXADwnpdCTDEwAYGAp4uHSNQDPyRHfLV0Dk0cAYHC5+3rpEoDn5MXe/y5dA5NHAGBgecPsg5HjidJ1ABER+fGfuOSph0pXweQRABjY7vu3zUfK/6F0HUBEpO6zO7+yc6F0GUweAYBz0qX0ydI1ABGR078vXQKTSQDgnNy5Z8dDEekPS9cBbUt/sHvvDXtLV8FkEgA4d718Q0QcLl0GNOpIN7V4U+kimFwCAOds974d/zen+M3SdUCb8s13PnDTI6WrYHJNlS6Ayfb1x/7kT3/m0p+7KFK8vnQt0Iwcn9j90I2/VboMJpsdANbsRQ8dfF/k+HzpOqAFOfLnLnvo4K+VroPJl0oXQC1yeveVu7anHB+JiJnS1UCFFiPFb1+25+AHd8bOXulimHwCAEO19fJb3xxd3B4RrypdC1TkL3Kk9969d/t9pQuhHm4BMFS79+348mV7D16Rcn5nRPxl6Xpgwv1FRPzyZXsPbvHjz7DZAWCk3nXFLa/qIr01delnc46/ERGXLv0TPuE5vTjxSd/HI8f/icj3RZr64u69N3yzdGEAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAABA2/4/87HqNC6YR20AAAAASUVORK5CYII="
+		"deleteIcon": "data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAgAAAAIACAYAAAD0eNT6AAAACXBIWXMAAA7DAAAOwwHHb6hkAAAAGXRFWHRTb2Z0d2FyZQB3d3cuaW5rc2NhcGUub3Jnm+48GgAAHQJJREFUeJzt3W2wXVd5H/Bn7fsiWXaEHWwDDjTAQFNiywacUmhnINAPbTBpU2ZM0mboxB2QCI4lm0zGdCYlGprpQAkYy7WxZfPS0BamniaZFJK0MwXcmQ4kqcGWrAQCg91Cg21ZlmzLerkvZ/WDLrKE7tU9R/ecu85Z6/eb0TfP3Y/3zLPOf6+997MjAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAYHWpdAHA6rZe/TsXx/zML0TEGyNiS+R4SURcFBFd2cqiFxEHI8X3ImJv6uX7phem/+D2b/7agcJ1AasQAGCMbb3yltdGnnp/RP6FiJgpXU+f5lPE76cufejOB7d/o3QxwPIEABhDv/LqWy6cXew+GhHXxeT2aS+n+HSa2fjru+/f9lTpYoDTTerCAtU6cdXf/ZeIeGnpWobk4dzrvf3ufTc9ULoQ4DkCAIyRd2/Z9aYU+Q8jYnPpWobs6RzpH929d/t9pQsBThAAYEwsXfl/Oer78f+hp3Ov9yY7ATAeBAAYA0v3/L8eES8rXcuIfTdmN77WMwFQXulXiICIWHrgr/Yf/4iIl6e54x8pXQRgBwCKW9r6//NoJ5D3Ui+99q592x8sXQi0rJUFB8ZXnnp/tNWLXZ6Kf1m6CGidHQAoaOvVv3NxzM38dUzOkJ9hmZ+Zn3qRiYFQTktXHTB20vHpfxzt/fhHRMzMzfR+vnQR0DIBAArKXXpT6RpK6aLX7P87jAMBAErKcWXpEspJW0pXAC0TAKCsnyxdQCm5nlHHMJEEACjrgtIFFPRjpQuAlgkAUNZ06QIKmi1dALRMAACABgkAANAgAQAAGiQAAECDBAAAaJAAAAANEgAAoEECAAA0SAAAgAYJAADQIAEAABokAABAgwQAAGiQAAAADRIAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAABYVipdQCtueMWuzXOb4prcy2+JFFdFxEsj4sKImClbGUAx8xFxKCIeSZEe6KX8pcXjx774qW/d/EzpwlogAIzYu6/6d38z9RZvjohfiohNpesBGHNHcorPdV18+K4Hdny7dDE1EwBG5KY3fOy8Z5+d/teR846ImC5dD8CEmY+cPz53+Hkf+Mwj1x0rXUyNBIAR2PbqW1+ZF+P3IuKK0rUATLIU8bW80Hv77r+86Qela6mNADBk77lq12t6vfzfIuKS0rUAVOL7vZyvueehG/eULqQmAsAQLV35/6/w4w8wbN+f7k3/7Tv2Xf9o6UJq0ZUuoBa/8tJPb8yLcW/48QcYhRcvdgtfuOkNHzuvdCG1EACGZHbzM78dEVeVrgOgVjni6iOHu/eXrqMWbgEMwdKrfvvC0/4Ao3Z4ujf9SrcC1s4OwBAsvefvxx9g9C5YSAsfKF1EDewArNENr9i1+fh5+QdhyA/Aenl2Ye7Yi0wMXBs7AGs0tymuCT/+AOvp/JmZDW8tXcSkEwDWKPfyW0rXANCanJK1d40EgLVKnvwHWG8p4srSNUw6AWCtcrysdAkArcmRX166hkknAKxVis2lSwBoT3pe6QomnQAAAA0SANYqx9OlSwBoT36qdAWTTgBYqxQPly4BoDUp0ndL1zDpBIA1SpEeKF0DQGty5AdL1zDpBIA16qX8pdI1ADTof5QuYNIJAGs0szj9hYh4tnQdAA15dro388eli5h0AsAa3bHv+sM5xedL1wHQihTpP92x7/rDpeuYdALAEHRdfDgi5kvXAdCAuS4WP1S6iBoIAENw1wM7vh05f7x0HQAN+Ngn9t7kDYAhEACGZO7w8z6QIr5Wug6AeqWvbjiadpauohYCwJB85pHrjk31pv9JRPpe6VoAKvTXXbdw7W3f2X68dCG1EACG6I591z/ay723RcT3S9cCUI/0vYjuH9754Pv+X+lKaiIADNk9D924Z346vTYi/mfpWgAmX/rqdG/qdbv33rC3dCW1mSpdQI0eePSPj/zdzW/9XG8m9yLSz0TEbOmaACbMXErxbzccTdfd/q0bzP0fgVS6gNq99/LbX7iQFj4QKf55RJxfuh6AMfdsRPzHqeh92NP+oyUArJP3Xn77BYtp/pqc4s0R6dUR+WUR6cKwOwC0ay4iH4pID+cU34hefHkmT/+RIT8AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAwPlLpAhierVtuvS8i3li6DqBa9+3eu+NnSxfBcHSlC2B4csTjpWsAapasMRURACrSZQEAGKVsjamIAFCR3MX+0jUAFcvWmJoIABXJ0jkwSp1bADURACrSRac5gZHJ0bPGVEQAqEnWnMDoZBcZVREAKpJjSnMCIzNjB6AqAkBFFnvzmhMYnTxrjamIQUBVyWnrll3HI2KmdCVAdeZ3792+ISLl0oUwHHYAqpJyhNd0gJF43I9/XQSA2iTDgICRsLZURgCojWmAwAikbAZAbQSA+mhSYOhyZ9BYbQSAyvggEDAadgBqIwBUJnkIEBiB5DsA1REAKpPdpwNGwi2A2ggA1TGpCxg+Fxf1EQAqMzVlVjcwfNm3RqojANQmLWpSYOh6vWlrS2UEgMqcd15+rHQNQH02XzgnAFTGtwAqtHXLrc9ExAWl6wCq8czuvTs2ly6C4bIDUCdJHRgma0qFBIAKJc0KDJU3AGokAFQoa1ZgiLIZAFUSAGqUNSswPJ2LiioJAFXSrMDwZBcVVRIAatSZ2Q0MT7amVEkAqJG0DgyRWwB1EgAq5CFAYLhcVNRIAKiQmd3AMOXsGyM1EgAqNJtnNCswNL3sGyM1EgAqtP+nL9kfEb3SdQBV6L344kMHShfB8PkWQKW2XnHr/khxcek6gIm3f/feHZeWLoLhswNQq2QcMDAMHiqulQBQKW8CAEORvAFQKwGgUp3XdoChcDFRKwGgUnYAgGEwBrheAkClchjdCaxdspZUSwCoVCe1A0NhN7FWAkC1NC2wdm4B1EsAqFSe0rTA2k0ZA1wtAaBSOaY0LbBmeca3RWolAFRqPs1rWmDN8tRGa0mljAKu2NYttx6LiA2l6wAm1vHde3dsLF0Eo2EHoG5e3wHWwMPENRMAqqZ5gXOXTBStmgBQNc0LnLtsDamaAFCxnO0AAGthDamZAFCxrpPegTUwBKhqAkDFcvYQILAGXWcNqZgAUDFfBATWxg5AzQSAinWaF1iDbAxw1QSAmmleYA1yGANcMwGgYjlrXuDczeYFa0jFBICKzT27WfMC5+zI4R/3EGDFBICKfeaR645FxNOl6wAm0lNLawiVEgCq500A4BzksHZUTgConjcBgMFlg8SqJwBUzw4AMLjOKPHqCQDVk+KBwfkQUP0EgMppYuDc2AGonQBQuZTN8gYGl3xLpHoCQOU8yAOcG2tH7aZLF8BopcV4TMwbiqdz5C+mlL6UF/ODC7PdIzPdhkMREfO94xdOz/VeGl28OuX0lkhxTUT8WOF6a+P8r7PsIcDqCQCVy9OLj6feVOkyJtlf5Zw+nDZs+Pzd9287ssJ/s3/p359HxN1br75rUzp+9J/mSDdHileuX6lVcv4LydOLAkDlUukCGK33XPmJS3t57rHSdUygo5Hzv7rs4kO37vzKzoVz+QNbr75rJuaP3xg5fzAiNg65vto5/4V1afYFd+75VSGgYgJA5a699j9PXfTNHxyPCNsA/crx7a6Lt9+5Z8dDw/hz77py1+u7nH8vIl40jL9XPed/HCwe/Fsv2nDvve9YLF0Io+PucOVONHA+ULqOCfKN+Zn094b14xMRcc+e7V/rpfS6iNgzrL9ZMed/LOQDfvzrJwA0wcM8fcnx7fnp9A8+/Y3tQ3/96Z4927/fS+maiHh02H+7Gs7/GLFmtEAAaEDyOk8/jqWcrh3Fj88P3bNn+/d7EW+LiKOjOsYEc/7Hi+eGGiAANMDrPH3I+Tfv2rf9wVEf5p69O+7PkT406uNMHOd/vBgC1AQBoAWGAa3mry67+NCt63Wwmd7Ux8JW9Kmc/3FjzWiCANAEOwBnk3P68Lm+anYu7th3/eFI6YPrdbxx5/yPI2tGCwSABpjpfVZPpw0bPr/eBz0ax383Ip5Z7+OOIed/DOVsB6AFAkAbPNCzghz5i7tXnjA3Mp/d8xvPRkp/tN7HHTfO/3jq7AA0QQBoQk8zryCl9KVix8652LHHhfM/rqwZLRAAGrDQy24BrCAv5pE/eb6SxZSaH0zj/I+nnKcEgAYIAA3IC/NuAawgbVx4uNSxp2Pmu6WOPS6c//G0MH9UAGiAANCAT33r5mfC8JNlHTx2+OlSx545Mv9UqWOPC+d/LB1dWjOonADQDrcBlnHvvp1zpY5923e2Hy917HHh/I+hFK7+GyEANMNrPUAfsgDQCgGgEdlrPUB/rBWNEAAa0dkBAPpjrWiEANAIOwBAP7KLhWYIAK0w2hPogymA7RAAGmEHAOiLi4VmCACtmNLUwOpydNaKRggAjZjS1EAfcl60VjRCAGjGgqYGVrU4O22taIQA0Ije9PmPR0QuXQcw1vJ0N2tqaCMEgEbsvn/bfEQcKl0HMNYOLq0VNEAAaIutPeBsrBENEQAakjQ3cHbWiIYIAA3JPvIBnEUWAJoiALRFcwMr6lwkNEUAaEmnuYGV5S68AdAQAaAlWXMDK/MhoLYIAE3R3MDKOhNDmyIANMSMb+Cscs8a0RABoCFmfANnk2PKGtEQAaAhGxZmNDewosXevDWiIQJAQ27/5vVPRoQxn8ByFj6576aDpYtg/QgATUk5Ip4oXQUwlh5fWiNohADQHlt8wJmStaE1AkBjjPoElmUKYHMEgMZ0AgCwPGtDYwSAxtgBAJZjbWiPANCYbBwwsIwU1obWCACN6YwDBpaRc7I2NEYAaE1nHDCwHGOAWyMANCZrcmAZU1MuDlojADSmZ9Y3sJzkWyGtEQAa083MPla6BmD89KY2CQCNEQAas/v+bUci4tnSdQBj5fDS2kBDBIA2SfrAqawJDRIA2qTZgZOSNaFJAkCLzPwGTpHDDIAWCQANyp0AAJwiGxDWIgGgQT4IBJzODkCLBIAG5ZzN/Aae0/kOQIsEgAblMPELOIVbAE0SABrUZeOAged4CLBNAkCLsh0A4DnZRUGTBIAG5Z6Z38BzZvOMNaFBAkCDLnvBU/sjole6DmAs5Esv2f9E6SJYfwJAg3Z+ZedCRBwsXQcwBnIcWFoTaIwA0C5bfkBEsha0SgBol6YHvAHQMAGgWZoeiOjCDIBWCQDN0vSAHYCWCQCtykZ/AhE5rAWtEgBa1Un9QERnDHCzBIBG5TD5C4jwPFC7BIBG+SAQEBGRp+wAtEoAaNSMHQAgInJMWQsaJQC0Ks9qeiDm07y1oFECQKM+sfdXD0XEXOk6gKLmPvPAjU+VLoIyBIBmpRxe/4HWPb60FtAgAaBttv6gad4AaJkA0LCUNT+0zRsALRMAGpY7zQ8tyy4CmiYANE3zQ8s6FwFNEwAalnwPAJqWrQFNEwCaJv1Dy3wJsG0CQMPc/4O2dS4CmiYANCxn44Chadk3QVomADSs15vW/NAwFwFtEwAatvnCOc0PDTt/86KHABsmADTslq++72hEPFO6DqCIp5fWABolAGAXAJrkIeDWCQDNswhAm7wB0DoBoHHZIgCNEv5bJwA0rrMIQKOE/9YJAI3L2SIALbL7hwDQuNyZBQ4tSrnT+40TABrnFgC0yefAEQCaZxGAFuUwBrh1AkDjslng0KTpMAa4dQJA43p50SIATZrV+40TABr31KsueyIiFkvXAayrxQM/9fwDpYugLAGgcffe+47FiHiydB3AesoHlnqfhgkAhIlg0Bo9jwBARETyJgC0JHn7hxAAiAhXA9CWnPU8AgBhHDA0xxAgQgAgIlIYBwwtMQaYCAGAiHALAFpjBwABgHALAFqTTQEkBAAiYso4YGiKEeBECABERJ5xNQAtMQKcCAGAiMhTGy0G0JBNx6f1PAIAEbvv3/ZURBwrXQewLo7d9p3tT5cugvIEAJYkrwVBG1z9ExECAEuMBoVW6HVOEACIiIhsUYAmZHM/WCIAsMSiAC3ohH2WCACcYBgQNMEOAD8kAHBCZzY4tCBn3/7gBAGAJXYAoAWdLwGyRAAgIowGhXa4BcAJAgAR4eMg0Aq9zg8JAERExGxesChAA3oxpdeJCAGAJVPHZh6PiFy6DmC0zjviIUBOEACIiIjbvrP9eESYDw51O7TU6yAAcIpsRjhUTo9zkgDASdnrQVA3IZ9TCACc1GWvB0HVhHxOIQBwkg8CQd2MAeZUAgCnsDhAzTrf/OAUAgAnJTPCoWo59DjPEQA4hasDqFn2nA+nEAA4yeIAdZsyBphTCACclKcXLQ5QsZyNAeY5AgAnLXTTFgeoWN44p8c5SQDgpJ/8xpMHImKhdB3ASCxedv/hJ0sXwfgQADhpZ+zsRcSB0nUAI7F/qcchIgQAzmSLEOqktzmNAMCPskhAnfQ2pxEAOI1xwFAtvc1pBABO44NAUCvhntMJAJwmd0aFQpWS3uZ0AgCnyT4WApWyu8fpBABO01kkoEqe7+FHCQD8CLPCoUY5Or3NaQQATmNWONRpJvvWB6cTADjNwvxRiwRUKPVm9TanEQA4zae+dfMzEXGkdB3AUB25Y9/1h0sXwXgRADiT14WgNq7+OYMAwJmyxQJqkvU0yxAAWI7FAirSdXqaMwkALMdiARWxA8ByBADOYGAIVEdPcwYBgDOk7CFAqEkKPc2ZBADOkI0Dhrr4xgfLEAA405TFAmpiDDDLEQA4w5TFAqqSjQFmGQIAy1iwWEBFFmen9TRnEAA4Q2/6/McjIpeuAxiKPN3NegiQMwgAnGH3/dvmI+JQ6TqAoTi41NNwGgGAldgyhDroZZYlALCsZNGAWuhlliUAsCyjQ6EOWQBgBQIAK7FoQAU6YZ4VCAAsr5Gvh117+c7ZUse+4RW7NpQ69rhw/kcvd8YAszwBgGW18kGgizZesLnUsec3zTyv1LHHhfM/eq30MoMTAFhWKx8EysemX1bq2Asx//JSxx4Xzv/odSZ7sgIBgGWliMdK17Auunh1sUPnuKrUsceG8z96uScAsCwBgGUt5tzEDkDK6S0FD//3Cx57LDj/o9dKLzM4AYBlbViYaeOqIcXb3nnlR85f78OeOGb+ufU+7thx/kcu59zGbh4DEwBY1u3fvP7JiGhhfOgFm3ozv7TeB92YZ/5ZRFyw3scdQ87/aM1/ct9NB0sXwXgSAFhByhHxROkq1kOOdPPWq++aWa/jXXv5ztkU6f3rdbxx5/yP1BNLvQxnEAA4m1ZuA7wy5o/fuF6Hu6i76H0R0cQT6H1x/kepjR7mnAgArKipEaI5f/BdV+56/agPs23LLW+IiJ2jPs7Ecf5Hxf1/ViQAsKKupQAQsbHL+fffe8VHXzKqA/yL19x2WY7u3ohoYgLdgJz/0WiphxmQAMCKmtoBOOGFC2n6C++6cteLh/2H33vFR18yvdD7k4j4iWH/7Yo4/8PnFUBWJACwotzINMAfcWWX89e3bfn4G4f1B7dtueUNC2n6zyJiy7D+ZsWc/+FqLcQzgOnSBTDO0mMRTT5AfEmO9N/fvWXXvzmWjn/0s3t+49lz+SPXXr5z9sJ00a/niN+Ktrad18r5H5KckwDAilLpAhhf777i429LKf3X0nUU9mik9MGjcfx3+/0heueVHzl/U5795Rxxc7TztPmoOP9rkHP++bsfuvELpetgPAkArOg9V+16Xa+X/7R0HWPicKT0xcjx5Ui9B7rY8PCBxccORUQ8f+oFF/bi+MtSL70mUrw5R7w12hgys56c/3PQdenv3Png9j8rXQfjyS0AVrSQ0/6uzVsAy7kgcv7FiPjFyCl6MRcXdRdFREQvz0VEiixOj5Lzfy7SolsArMhDgKyom5n1DjFMsN7UJgGAFQkArGj3/duORMQ5PYAFFHd4qYdhWQIAq3EFAZNJ73JWAgCrsYjABEp6l1UIAJxdtojAJMphBgBnJwBwVrkTAGAi5ax3OSsBgLNq7INAUBE7AJydAMBZ5Zxb/B4ATL6uyW95MAABgLPK0bmKgEnkFgCrEAA4qy73LCIwgTwEyGoEAM4u2wGASZSFd1YhAHBWUzFlHDBMJr3LWQkAnNX+n75kf0T0StcBDKT34osPHShdBOPN97NY1dYrbt0fKS4uXQfQt/279+64tHQRjDc7AKwumQUAk8UDgKxOAGBVniaGCZO8AsjqBABW1YXFBCaL0M7qBABWZQcAJks2BIg+CACsKoeRojBJkp6lDwIAq+pcTcCEsWvH6gQA+mAxgUniFgD9EABYVZ6ymMAkmTLCmz4IAKwqx5TFBCZInvEdAFYnALCq+TRvMYEJkqc26llWZRQwfdm65dZjEbGhdB3Aqo7v3rv9vIiUSxfCeLMDQL+8VgQTIT3ux59+CAD0yZsAMAmSyZ30SQCgTxYVmARZr9InAYC+5GwHACaDXqU/AgB96TpXFTARDAGiTwIAfcnZQ4AwEbpOr9IXAYC++CIgTAo7APRHAKAvnUUFJkI2Bpg+CQD0x6ICEyGHMcD0RwCgLzlbVGASzOYFvUpfBAD6MvfsZosKTIAjh3/cQ4D0RQCgL5955LpjEfF06TqAs3pqqVdhVQIAA/AmAIy1HHqUvgkADMCbADDOsoFdDEAAYAB2AGCcdUZ2MwABgAG4uoBx5kNADEIAoG8WFxh3dgDonwBA31I2YxzGWfLNDgYgANA3DxjBuNOj9E8AoG85jAOGcZY9BMgABAD6Nm3GOIy1PL2oR+mbAMAAZi0uMMYWumk9St8EAPp24KeefyAiFkvXASxr8fArXvhk6SKYHAIAfbv33ncsRuQDpesAlvXEiR6F/ggADMhDRjCm9CYDEQAYSPKaEYwrvclABAAG4jUjGE8mdTIoAYDBGAYEY8mHgBiUAMBAjAOG8ZQ7Y4AZjADAgOwAwDjKWW8yGAGAgWTTAGEsdd7QYUACAAPJ2fcAYDwJ5wxGAGAgvWzWOIyjnKf0JgMRABjIpuNmjcM4Wpg/qjcZSCpdAJNn65Zbj0TEeaXrAE46unvvjk2li2Cy2AHgXHjdCMZJMgWQwQkAnAOvG8FYyQIAgxMAGFj2uhGMGz3JwAQABtbZAYBxoycZmADAwHKkR0vXADwnpdCTDEwAYGAp4uHSNQDPyRHfLV0Dk0cAYHC5+3rpEoDn5MXe/y5dA5NHAGBgecPsg5HjidJ1ABER+fGfuOSph0pXweQRABjY7vu3zUfK/6F0HUBEpO6zO7+yc6F0GUweAYBz0qX0ydI1ABGR078vXQKTSQDgnNy5Z8dDEekPS9cBbUt/sHvvDXtLV8FkEgA4d718Q0QcLl0GNOpIN7V4U+kimFwCAOds974d/zen+M3SdUCb8s13PnDTI6WrYHJNlS6Ayfb1x/7kT3/m0p+7KFK8vnQt0Iwcn9j90I2/VboMJpsdANbsRQ8dfF/k+HzpOqAFOfLnLnvo4K+VroPJl0oXQC1yeveVu7anHB+JiJnS1UCFFiPFb1+25+AHd8bOXulimHwCAEO19fJb3xxd3B4RrypdC1TkL3Kk9969d/t9pQuhHm4BMFS79+348mV7D16Rcn5nRPxl6Xpgwv1FRPzyZXsPbvHjz7DZAWCk3nXFLa/qIr01delnc46/ERGXLv0TPuE5vTjxSd/HI8f/icj3RZr64u69N3yzdGEAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAABA2/4/87HqNC6YR20AAAAASUVORK5CYII=",
+		"icsIcon": "data:image/svg+xml;base64,PHN2ZyB4bWxucz0iaHR0cDovL3d3dy53My5vcmcvMjAwMC9zdmciIHdpZHRoPSI5MCIgaGVpZ2h0PSI5MCIgdmlld0JveD0iMCAwIDkwIDkwIj48cmVjdCB4PSIxMCIgeT0iMTYiIHdpZHRoPSI3MCIgaGVpZ2h0PSI2NCIgcng9IjgiIGZpbGw9IiNmZmYiIHN0cm9rZT0iIzdjM2FlZCIgc3Ryb2tlLXdpZHRoPSI1Ii8+PHJlY3QgeD0iMTAiIHk9IjE2IiB3aWR0aD0iNzAiIGhlaWdodD0iMTgiIHJ4PSI4IiBmaWxsPSIjN2MzYWVkIi8+PHJlY3QgeD0iMjQiIHk9IjgiIHdpZHRoPSI2IiBoZWlnaHQ9IjE2IiByeD0iMyIgZmlsbD0iIzdjM2FlZCIvPjxyZWN0IHg9IjYwIiB5PSI4IiB3aWR0aD0iNiIgaGVpZ2h0PSIxNiIgcng9IjMiIGZpbGw9IiM3YzNhZWQiLz48dGV4dCB4PSI0NSIgeT0iNjYiIGZvbnQtZmFtaWx5PSJzYW5zLXNlcmlmIiBmb250LXNpemU9IjIyIiBmb250LXdlaWdodD0iYm9sZCIgZmlsbD0iIzdjM2FlZCIgdGV4dC1hbmNob3I9Im1pZGRsZSI+SUNTPC90ZXh0Pjwvc3ZnPg==",
+		"caldavIcon": "data:image/svg+xml;base64,PHN2ZyB4bWxucz0iaHR0cDovL3d3dy53My5vcmcvMjAwMC9zdmciIHdpZHRoPSI5MCIgaGVpZ2h0PSI5MCIgdmlld0JveD0iMCAwIDkwIDkwIj48cmVjdCB4PSIxMCIgeT0iMTYiIHdpZHRoPSI3MCIgaGVpZ2h0PSI2NCIgcng9IjgiIGZpbGw9IiNmZmYiIHN0cm9rZT0iIzAwODJjOSIgc3Ryb2tlLXdpZHRoPSI1Ii8+PHJlY3QgeD0iMTAiIHk9IjE2IiB3aWR0aD0iNzAiIGhlaWdodD0iMTgiIHJ4PSI4IiBmaWxsPSIjMDA4MmM5Ii8+PHJlY3QgeD0iMjQiIHk9IjgiIHdpZHRoPSI2IiBoZWlnaHQ9IjE2IiByeD0iMyIgZmlsbD0iIzAwODJjOSIvPjxyZWN0IHg9IjYwIiB5PSI4IiB3aWR0aD0iNiIgaGVpZ2h0PSIxNiIgcng9IjMiIGZpbGw9IiMwMDgyYzkiLz48dGV4dCB4PSI0NSIgeT0iNjUiIGZvbnQtZmFtaWx5PSJzYW5zLXNlcmlmIiBmb250LXNpemU9IjE2IiBmb250LXdlaWdodD0iYm9sZCIgZmlsbD0iIzAwODJjOSIgdGV4dC1hbmNob3I9Im1pZGRsZSI+Q2FsREFWPC90ZXh0Pjwvc3ZnPg==",
+		"outlookIcon": "data:image/svg+xml;base64,PHN2ZyB4bWxucz0iaHR0cDovL3d3dy53My5vcmcvMjAwMC9zdmciIHdpZHRoPSI5MCIgaGVpZ2h0PSI5MCIgdmlld0JveD0iMCAwIDkwIDkwIj48cmVjdCB4PSIzNCIgeT0iMTQiIHdpZHRoPSI0NiIgaGVpZ2h0PSI2MiIgcng9IjQiIGZpbGw9IiMyOGE4ZWEiLz48cmVjdCB4PSIzNCIgeT0iMTQiIHdpZHRoPSI0NiIgaGVpZ2h0PSIyMCIgcng9IjQiIGZpbGw9IiMwMDc4ZDQiLz48cmVjdCB4PSI4IiB5PSIyNCIgd2lkdGg9IjQyIiBoZWlnaHQ9IjQyIiByeD0iNCIgZmlsbD0iIzAzNjRiOCIvPjxlbGxpcHNlIGN4PSIyOSIgY3k9IjQ1IiByeD0iMTAiIHJ5PSIxMiIgZmlsbD0ibm9uZSIgc3Ryb2tlPSIjZmZmIiBzdHJva2Utd2lkdGg9IjUiLz48L3N2Zz4="
 	};
 
 
@@ -20430,6 +20433,18 @@ export class Media {
 		return Media.base64Media.deleteIcon;
 	}
 
+	static getBase64IcsIcon(): string {
+		return Media.base64Media.icsIcon;
+	}
+
+	static getBase64CaldavIcon(): string {
+		return Media.base64Media.caldavIcon;
+	}
+
+	static getBase64OutlookIcon(): string {
+		return Media.base64Media.outlookIcon;
+	}
+
 	static getNounPatters(): string[] {
 		return Media.nounPatters;
 	}
@@ -1,15 +1,16 @@
-import {App, requestUrl} from "obsidian";
+import {App, requestUrl, TFile} from "obsidian";
 import {CloudEvent} from "../model/events/cloudEvent";
 import iCloudMisc from "../iCloudJs/iCloudMisc";
 import {readFileSync} from "fs";
 import * as net from "net";
 import http from "http";
 import {Media} from "./media";
+import moment from "moment-timezone";
 
 export class Misc {
 	static app: App;
 	static base64Media: {appleIcon, googleIcon, deleteIcon};
-	static credentialKeyList = ["magicCalendarSyncUsername", "magicCalendarSyncPassword", "trustToken", "clientId", "clientSecret", "refreshToken", "tokenType", "accessToken"];
+	static credentialKeyList = ["magicCalendarSyncUsername", "magicCalendarSyncPassword", "trustToken", "clientId", "clientSecret", "refreshToken", "tokenType", "accessToken", "icsFilePath", "caldavServerUrl", "caldavUsername", "caldavPassword", "outlookRefreshToken", "outlookAccessToken"];
 	static dragEvent: any;
 	static bindListeners: {type:string, doc: Document, eventCallback: (event) => void}[] = [];
 	static credentials: {client_id: string, client_secret: string};
@@ -35,6 +36,17 @@ export class Misc {
 		return activeFile == undefined ? "none": activeFile.path;
 	}
 
+	// The day a note is about: the date in its name (e.g. a daily note), its "date" property or its creation time
+	static getNoteDate(filePath: string): Date | undefined {
+		const file = Misc.app?.vault.getAbstractFileByPath(filePath);
+		if (!(file instanceof TFile)) return undefined;
+		const nameDate = file.basename.match(/\d{4}-\d{2}-\d{2}/);
+		if (nameDate != null && moment(nameDate[0], "YYYY-MM-DD", true).isValid()) return moment(nameDate[0], "YYYY-MM-DD").toDate();
+		const frontmatterDate = Misc.app.metadataCache.getFileCache(file)?.frontmatter?.date;
+		if (frontmatterDate != undefined && moment(String(frontmatterDate), moment.ISO_8601).isValid()) return moment(String(frontmatterDate), moment.ISO_8601).toDate();
+		return new Date(file.stat.ctime);
+	}
+
 	static getDateFromICloudArray(array: number[]){
 		return new Date(`${array[1]}-${array[2]}-${array[3]} ${array[4]}:${array[5]}`)
 	}
@@ -92,6 +104,15 @@ export class Misc {
 		Misc.credentials = credResponse.json.installed;
 			}
 
+	// Jaccard index of the words of the two strings (0: nothing in common, 1: same words)
+	static getWordSimilarity(first: string, second: string): number {
+		const firstWords = new Set(first.toLowerCase().split(/\W+/).filter(word => word.length > 0));
+		const secondWords = new Set(second.toLowerCase().split(/\W+/).filter(word => word.length > 0));
+		if (firstWords.size == 0 || secondWords.size == 0) return 0;
+		const commonWords = Array.from(firstWords).filter(word => secondWords.has(word)).length;
+		return commonWords / (firstWords.size + secondWords.size - commonWords);
+	}
+
 	static async getPortFree():Promise<number> {
 		return new Promise( res => {
 			const srv = net.createServer();
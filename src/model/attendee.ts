@@ -0,0 +1,5 @@
+// Person invited to an event: a vault contact or an email address written in the sentence
+export interface Attendee {
+	name?: string;
+	email: string;
+}
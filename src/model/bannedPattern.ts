@@ -0,0 +1,17 @@
+export enum BannedPatternScope {
+	// Anywhere in the line
+	LINE,
+	// Only inside markdown links, URLs and inline code
+	LINKS_AND_CODE,
+	// Anywhere in the lines of the notes inside a folder
+	FOLDER,
+}
+
+export interface BannedPattern {
+	value: string;
+	// Literal text otherwise
+	isRegex: boolean;
+	scope: BannedPatternScope;
+	// Folder path prefix, used by the FOLDER scope
+	folder?: string;
+}
@@ -9,8 +9,10 @@ export class CalendarViewData {
 	rowNeedsLabelMap: Map<number, boolean>;
 	calendarViewDetails: CalendarViewDetail[];
 	startDate: Date;
+	// Defined only when the events come from the persisted cache
+	staleSince?: Date;
 
-	constructor(dateRange: DateRange, eventList: CloudEvent[] | []) {
+	constructor(dateRange: DateRange, eventList: CloudEvent[] | [], staleSince?: Date) {
 		const calendarViewDetails: CalendarViewDetail[] = [];
 		const noOverlapMap = this.manageEventOverlap(eventList, dateRange);
 		const auxStruct = this.getAuxiliaryStructure(dateRange);
@@ -21,6 +23,7 @@ export class CalendarViewData {
 		this.rowNeedsLabelMap = rowNeedsLabelMap;
 		this.calendarViewDetails = calendarViewDetails;
 		this.startDate = dateRange.start;
+		this.staleSince = staleSince;
 	}
 
 	private getAuxiliaryStructure(dateRange: DateRange) : {numOfCols, refiner, refinerMinutes, minTimeMilli, milliInDay} {
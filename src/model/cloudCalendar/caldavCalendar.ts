@@ -0,0 +1,5 @@
+export interface CaldavCalendar {
+	href: string;
+	displayName: string;
+	ctag: string;
+}
@@ -0,0 +1,10 @@
+import {CalendarProvider} from "./calendarProvider";
+
+export interface CalendarAccount {
+	id: string;
+	provider: CalendarProvider;
+	// Human readable name (e.g. "Google - john@gmail.com")
+	name: string;
+	// Selected calendar of the account
+	calendar: string;
+}
@@ -2,4 +2,7 @@ export enum CalendarProvider {
 	NOT_SELECTED,
 	APPLE,
 	GOOGLE,
+	ICS,
+	CALDAV,
+	OUTLOOK,
 }
@@ -0,0 +1,8 @@
+export interface OutlookCalendar {
+	id: string,
+	name: string,
+	color: string,
+	isDefaultCalendar: boolean,
+	canEdit: boolean,
+	owner: { name: string, address: string }
+}
@@ -1,10 +1,13 @@
 export class DateRange {
 	start: Date;
 	end: Date;
+	// All-day ranges go from midnight to midnight, the end day is excluded
+	allDay: boolean;
 
-	constructor(start: Date, end: Date) {
+	constructor(start: Date, end: Date, allDay = false) {
 		this.start = start;
 		this.end = end;
+		this.allDay = allDay;
 	}
 
 	getDayDifference(): number{
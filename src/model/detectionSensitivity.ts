@@ -0,0 +1,8 @@
+// How confident the NLP module has to be to highlight an event
+export enum DetectionSensitivity {
+	// Every match is highlighted
+	HIGH,
+	MEDIUM,
+	// Only the matches with most of the event details (time, people, purpose...)
+	LOW,
+}
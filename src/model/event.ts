@@ -7,12 +7,17 @@ export default class Event {
 	sentence: Sentence;
 	hash: number;
 	processed: boolean;
+	// True once the event has been pushed to the cloud
+	synced: boolean;
+	// Target calendar picked for this sentence (undefined -> the one selected in the settings)
+	calendar?: string;
 
 	constructor(value: CloudEvent, sentence: Sentence) {
 		this.value = value;
 		this.sentence = sentence;
 		this.hash = this.computeHash();
 		this.processed = false;
+		this.synced = false;
 	}
 
 	private computeHash(): number{
@@ -35,9 +40,23 @@ export default class Event {
 		const startDate = new Date(json.sentence.startDate);
 		const endDate = new Date(json.sentence.endDate);
 		const eventNoun = json.sentence.eventNoun;
-		sentence.injectSemanticFields(startDate, endDate, eventNoun);
+		sentence.injectSemanticFields(startDate, endDate, eventNoun, json.sentence.allDay ?? false);
+		sentence.recurrence = json.sentence.recurrence;
+		sentence.timezone = json.sentence.timezone;
+		sentence.location = json.sentence.location;
+		sentence.attendees = json.sentence.attendees;
+		sentence.reminder = json.sentence.reminder;
+		sentence.description = json.sentence.description;
 		const event = eventController.createNewEvent(sentence);
 		event.processed = true;
+		event.calendar = json.calendar;
+		event.synced = json.synced ?? false;
+		// Keep the provider's identifiers, needed to update or delete the synced event
+		if (json.value != undefined){
+			event.value = json.value;
+			event.value.cloudEventStartDate = new Date(json.value.cloudEventStartDate);
+			event.value.cloudEventEndDate = new Date(json.value.cloudEventEndDate);
+		}
 		return event;
 	}
 }
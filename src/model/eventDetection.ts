@@ -0,0 +1,12 @@
+import Event from "./event";
+
+// A sentence recognized as an event, positions are document offsets
+export interface EventDetection {
+	filePath: string;
+	// The line, without its non-prose text
+	line: string;
+	lineFrom: number;
+	sentenceFrom: number;
+	sentenceTo: number;
+	matches: {selection: {value, index, type}[], event: Event, syncedEvent?: Event, confidence: number};
+}
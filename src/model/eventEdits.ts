@@ -0,0 +1,8 @@
+// Values changed in the event preview before syncing
+export interface EventEdits {
+	title: string;
+	startDate: Date;
+	endDate: Date;
+	description: string;
+	calendar?: string;
+}
@@ -0,0 +1,7 @@
+import {IcsCalendarEvent} from "./icsCalendarEvent";
+
+export class CaldavCalendarEvent extends IcsCalendarEvent {
+	// URL of the calendar object resource, undefined until the event is pushed
+	href: string;
+	etag: string;
+}
@@ -4,4 +4,6 @@ export class CloudEvent {
 	cloudEventTitle: string;
 	cloudEventStartDate: Date;
 	cloudEventEndDate: Date;
+	// Account the event belongs to (undefined for events created before multiple accounts were supported)
+	accountId?: string;
 }
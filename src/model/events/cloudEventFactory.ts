@@ -1,11 +1,19 @@
 import {Sentence} from "../sentence";
 import {CloudEvent} from "./cloudEvent";
 import iCloudMisc from "../../iCloudJs/iCloudMisc";
-import {iCloudCalendarEvent} from "./iCloudCalendarEvent";
+import {iCloudCalendarAlarm, iCloudCalendarEvent, iCloudCalendarInvitee, iCloudCalendarRecurrence} from "./iCloudCalendarEvent";
 import {Misc} from "../../misc/misc";
 import {CalendarProvider} from "../cloudCalendar/calendarProvider";
 import {GoogleCalendarEvent} from "./googleCalendarEvent";
+import {IcsCalendarEvent} from "./icsCalendarEvent";
+import {OutlookCalendarEvent} from "./outlookCalendarEvent";
 import {SettingInterface} from "../../plugin/appSetting";
+import {CalendarAccount} from "../cloudCalendar/calendarAccount";
+import {RoutingCondition, RoutingRule} from "../routingRule";
+import {parseFrontMatterTags} from "obsidian";
+import smartDateParser from "../../controllers/smartDateParser";
+import moment from "moment-timezone";
+import {Attendee} from "../attendee";
 
 export class CloudEventFactory {
 	settings: SettingInterface;
@@ -14,22 +22,80 @@ export class CloudEventFactory {
 		this.settings = settings;
 	}
 
-	createNewCloudEvent(sentence: Sentence): CloudEvent {
-		if (this.settings.calendarProvider == CalendarProvider.APPLE) return this.createICloudCalendarEvent(sentence);
-		else if (this.settings.calendarProvider == CalendarProvider.GOOGLE) return this.createGoogleCalendarEvent(sentence);
-		else if (this.settings.calendarProvider == CalendarProvider.NOT_SELECTED) return this.createGenericCalendarEvent(sentence);
+	// The event is created for the given account, for the one of the first matching routing rule or for the default one
+	createNewCloudEvent(sentence: Sentence, account?: CalendarAccount): CloudEvent {
+		account = account ?? this.getAccount(this.getRoutingRule(sentence)?.accountId) ?? this.getAccount(this.settings.defaultAccountId);
+		const cloudEvent = this.createProviderCloudEvent(sentence, account?.provider ?? CalendarProvider.NOT_SELECTED);
+		cloudEvent.accountId = account?.id;
+		return cloudEvent;
 	}
 
 	updateCloudEvent(cloudEvent: CloudEvent, updateMap: Map<string, string>){
 		this.updateCloudEventComponents(cloudEvent, updateMap);
-		if (this.settings.calendarProvider == CalendarProvider.APPLE) return this.updateICloudCalendarEvent(cloudEvent);
-		else if (this.settings.calendarProvider == CalendarProvider.GOOGLE) return this.updateGoogleCalendarEvent(cloudEvent);
+		const calendarProvider = this.getAccount(cloudEvent.accountId ?? this.settings.defaultAccountId)?.provider;
+		// The location and the description aren't CloudEvent fields: every provider stores them in its own way
+		const location = updateMap.get("location");
+		const description = updateMap.get("description");
+		if (calendarProvider == CalendarProvider.APPLE) return this.updateICloudCalendarEvent(cloudEvent, location, description);
+		else if (calendarProvider == CalendarProvider.GOOGLE) return this.updateGoogleCalendarEvent(cloudEvent, location, description);
+		else if (calendarProvider == CalendarProvider.ICS || calendarProvider == CalendarProvider.CALDAV) return this.updateIcsCalendarEvent(cloudEvent, location, description);
+		else if (calendarProvider == CalendarProvider.OUTLOOK) return this.updateOutlookCalendarEvent(cloudEvent, location, description);
+	}
+
+	// The edited sentence can change the all-day flag, the recurrence, the attendees and the reminder as well.
+	// Called after updateCloudEvent: the dates are written again with the new all-day flag
+	updateSentenceFields(cloudEvent: CloudEvent, sentence: Sentence){
+		const calendarProvider = this.getAccount(cloudEvent.accountId ?? this.settings.defaultAccountId)?.provider;
+		if (calendarProvider == CalendarProvider.APPLE) return this.updateICloudSentenceFields(cloudEvent as iCloudCalendarEvent, sentence);
+		else if (calendarProvider == CalendarProvider.GOOGLE) return this.updateGoogleSentenceFields(cloudEvent as GoogleCalendarEvent, sentence);
+		else if (calendarProvider == CalendarProvider.ICS || calendarProvider == CalendarProvider.CALDAV) return this.updateIcsSentenceFields(cloudEvent as IcsCalendarEvent, sentence);
+		else if (calendarProvider == CalendarProvider.OUTLOOK) return this.updateOutlookSentenceFields(cloudEvent as OutlookCalendarEvent, sentence);
+	}
+
+	// Rules are evaluated in order, the first one matching the sentence wins
+	getRoutingRule(sentence: Sentence): RoutingRule | undefined {
+		return this.settings.routingRules.filter(routingRule => this.matchesRoutingRule(sentence, routingRule)).first();
+	}
+
+	private matchesRoutingRule(sentence: Sentence, routingRule: RoutingRule): boolean {
+		const value = routingRule.value.trim().toLowerCase();
+		if (value.length == 0) return false;
+		switch (routingRule.condition){
+			case RoutingCondition.FOLDER: {
+				const folderPrefix = value.endsWith("/") ? value : `${value}/`;
+				return sentence.filePath.toLowerCase().startsWith(folderPrefix);
+			}
+			case RoutingCondition.TAG: {
+				const frontmatter = Misc.app?.metadataCache.getCache(sentence.filePath)?.frontmatter;
+				const tags = parseFrontMatterTags(frontmatter) ?? [];
+				return tags.some(tag => tag.replace("#", "").toLowerCase() == value.replace("#", ""));
+			}
+			case RoutingCondition.KEYWORD:
+				return sentence.eventNoun != undefined && sentence.eventNoun.toLowerCase().contains(value);
+		}
+		return false;
+	}
+
+	private createProviderCloudEvent(sentence: Sentence, calendarProvider: CalendarProvider): CloudEvent {
+		if (calendarProvider == CalendarProvider.APPLE) return this.createICloudCalendarEvent(sentence);
+		else if (calendarProvider == CalendarProvider.GOOGLE) return this.createGoogleCalendarEvent(sentence);
+		else if (calendarProvider == CalendarProvider.ICS) return this.createIcsCalendarEvent(sentence);
+		// CalDAV resources are iCalendar objects as well: the href is assigned when the event is pushed
+		else if (calendarProvider == CalendarProvider.CALDAV) return this.createIcsCalendarEvent(sentence);
+		else if (calendarProvider == CalendarProvider.OUTLOOK) return this.createOutlookCalendarEvent(sentence);
+		else return this.createGenericCalendarEvent(sentence);
+	}
+
+	private getAccount(accountId: string): CalendarAccount | undefined {
+		return this.settings.accounts.filter(account => account.id == accountId).first();
 	}
 
 	private createICloudCalendarEvent(sentence: Sentence): iCloudCalendarEvent {
 		const arrayStartDate = iCloudMisc.getArrayDate(sentence.startDate);
 		const arrayEndDate = iCloudMisc.getArrayDate(sentence.endDate);
 		const guid = Misc.generateICloudUUID();
+		const invitees = this.getICloudInvitees(sentence, guid);
+		const alarm = this.getICloudAlarm(sentence, guid);
 
 		return {
 			cloudEventUUID: guid,
@@ -38,17 +104,23 @@ export class CloudEventFactory {
 			cloudEventEndDate: sentence.endDate,
 			title: sentence.eventNoun,
 			duration: sentence.duration,
-			description: "",
+			description: sentence.description ?? "",
 			guid,
-			location: "",
+			location: sentence.location ?? "",
 			startDate: arrayStartDate,
 			endDate: arrayEndDate,
 			localStartDate: arrayStartDate,
 			localEndDate: arrayEndDate,
 			extendedDetailsAreIncluded: true,
-			allDay: false,
+			allDay: sentence.allDay ?? false,
 			isJunk: false,
-			recurrenceMaster: false,
+			recurrenceMaster: sentence.recurrence != undefined,
+			recurrence: sentence.recurrence == undefined ? undefined : `${guid}*MME-RID`,
+			recurrenceRule: this.getICloudRecurrence(sentence, guid),
+			invitees: invitees?.map(invitee => invitee.guid),
+			inviteeDetails: invitees,
+			alarms: alarm == undefined ? [] : [alarm.guid],
+			alarmDetails: alarm == undefined ? undefined : [alarm],
 			recurrenceException: false,
 			hasAttachments: false,
 			icon: 0,
@@ -56,23 +128,161 @@ export class CloudEventFactory {
 		} as iCloudCalendarEvent;
 	}
 
+	private getICloudInvitees(sentence: Sentence, guid: string): iCloudCalendarInvitee[] | undefined {
+		const attendees = this.getAttendees(sentence);
+		if (attendees.length == 0) return undefined;
+		return attendees.map(attendee => ({
+			commonName: attendee.name ?? attendee.email,
+			isMe: false,
+			isOrganizer: false,
+			inviteeStatus: "NEEDS-ACTION",
+			pGuid: guid,
+			guid: `${guid}:${attendee.email}`,
+			isSenderMe: false,
+			email: attendee.email,
+			cutype: "INDIVIDUAL"
+		}));
+	}
+
+	private getICloudAlarm(sentence: Sentence, guid: string): iCloudCalendarAlarm | undefined {
+		const reminder = this.getReminder(sentence);
+		if (reminder == undefined) return undefined;
+		return {
+			messageType: "message",
+			pGuid: guid,
+			guid: `${guid}:${Misc.generateICloudUUID()}`,
+			isLocationBased: false,
+			measurement: {
+				weeks: 0,
+				days: Math.floor(reminder / (24 * 60)),
+				hours: Math.floor((reminder % (24 * 60)) / 60),
+				minutes: reminder % 60,
+				seconds: 0,
+				before: true
+			}
+		};
+	}
+
+	// The reminder written in the sentence wins over the default one
+	private getReminder(sentence: Sentence): number | undefined {
+		if (sentence.reminder != undefined) return sentence.reminder;
+		return this.settings.defaultReminder >= 0 ? this.settings.defaultReminder : undefined;
+	}
+
+	// Attendees are added only if the user wants them to be invited
+	private getAttendees(sentence: Sentence): Attendee[] {
+		if (!this.settings.sendInvitations) return [];
+		return sentence.attendees ?? [];
+	}
+
+	private getICloudRecurrence(sentence: Sentence, guid: string): iCloudCalendarRecurrence | undefined {
+		if (sentence.recurrence == undefined) return undefined;
+		const recurrenceParts = smartDateParser.getRecurrenceParts(sentence.recurrence);
+		return {
+			guid: `${guid}*MME-RID`,
+			pGuid: guid,
+			freq: recurrenceParts.get("FREQ").toLowerCase(),
+			interval: Number(recurrenceParts.get("INTERVAL") ?? 1),
+			recurrenceMasterStartDate: [],
+			weekStart: "SU",
+			frequencyDays: "",
+			weekDays: recurrenceParts.get("BYDAY")?.split(",") ?? []
+		};
+	}
+
 	private createGoogleCalendarEvent(sentence: Sentence): GoogleCalendarEvent {
 		const cloudUUID = Misc.generateGoogleCloudUUID();
-		const startDateTime = `${sentence.startDate.toISOString()}`
-		const endDateTime = `${sentence.endDate.toISOString()}`
-
 		return {
 			cloudEventUUID: cloudUUID,
 			cloudEventTitle: sentence.eventNoun,
 			cloudEventStartDate: sentence.startDate,
 			cloudEventEndDate: sentence.endDate,
 			summary: sentence.eventNoun,
-			start: {dateTime: startDateTime, timeZone: this.settings.tz},
-			end: {dateTime: endDateTime, timeZone: this.settings.tz},
-			reminders: {useDefault: true}
+			description: sentence.description,
+			location: sentence.location,
+			start: this.getGoogleDate(sentence.startDate, sentence.allDay),
+			end: this.getGoogleDate(sentence.endDate, sentence.allDay),
+			reminders: this.getGoogleReminders(sentence),
+			recurrence: sentence.recurrence == undefined ? undefined : [`RRULE:${sentence.recurrence}`],
+			attendees: this.getAttendees(sentence).map(attendee => ({email: attendee.email, displayName: attendee.name}))
 		} as GoogleCalendarEvent;
 	}
 
+	private getGoogleReminders(sentence: Sentence): { useDefault: boolean, overrides?: { method: string, minutes: number }[] } {
+		const reminder = this.getReminder(sentence);
+		if (reminder == undefined) return {useDefault: true};
+		return {useDefault: false, overrides: [{method: "popup", minutes: reminder}]};
+	}
+
+	// All-day events have a date, timed events a date time
+	private getGoogleDate(date: Date, allDay: boolean): { date?: string, dateTime?: string, timeZone: string } {
+		if (allDay) return {date: moment(date).format("YYYY-MM-DD"), timeZone: this.settings.tz};
+		return {dateTime: date.toISOString(), timeZone: this.settings.tz};
+	}
+
+	private createIcsCalendarEvent(sentence: Sentence): IcsCalendarEvent {
+		const uid = Misc.generateICloudUUID();
+
+		return {
+			cloudEventUUID: uid,
+			cloudEventTitle: sentence.eventNoun,
+			cloudEventStartDate: sentence.startDate,
+			cloudEventEndDate: sentence.endDate,
+			uid,
+			summary: sentence.eventNoun,
+			description: sentence.description ?? "",
+			location: sentence.location ?? "",
+			allDay: sentence.allDay ?? false,
+			sequence: 0,
+			rrule: sentence.recurrence,
+			attendees: this.getAttendees(sentence),
+			reminder: this.getReminder(sentence)
+		} as IcsCalendarEvent;
+	}
+
+	private createOutlookCalendarEvent(sentence: Sentence): OutlookCalendarEvent {
+		return {
+			cloudEventUUID: Misc.generateGoogleCloudUUID(),
+			cloudEventTitle: sentence.eventNoun,
+			cloudEventStartDate: sentence.startDate,
+			cloudEventEndDate: sentence.endDate,
+			subject: sentence.eventNoun,
+			body: {contentType: "text", content: sentence.description ?? ""},
+			start: this.getOutlookDate(sentence.startDate, sentence.allDay),
+			end: this.getOutlookDate(sentence.endDate, sentence.allDay),
+			location: {displayName: sentence.location ?? ""},
+			isAllDay: sentence.allDay ?? false,
+			recurrence: this.getOutlookRecurrence(sentence),
+			attendees: this.getAttendees(sentence).map(attendee => ({emailAddress: {address: attendee.email, name: attendee.name}, type: "required"})),
+			isReminderOn: this.getReminder(sentence) == undefined ? undefined : true,
+			reminderMinutesBeforeStart: this.getReminder(sentence)
+		} as OutlookCalendarEvent;
+	}
+
+	// Graph dateTimeTimeZone: date time without offset + time zone
+	// All-day events must start and end at midnight of their own time zone
+	private getOutlookDate(date: Date, allDay: boolean): { dateTime: string, timeZone: string } {
+		if (allDay) return {dateTime: moment(date).format("YYYY-MM-DDT00:00:00"), timeZone: this.settings.tz};
+		return {dateTime: date.toISOString().replace("Z", ""), timeZone: "UTC"};
+	}
+
+	// Graph doesn't take RRULEs but a recurrence pattern
+	private getOutlookRecurrence(sentence: Sentence): OutlookCalendarEvent["recurrence"] | undefined {
+		if (sentence.recurrence == undefined) return undefined;
+		const recurrenceParts = smartDateParser.getRecurrenceParts(sentence.recurrence);
+		const dayNames = {SU: "sunday", MO: "monday", TU: "tuesday", WE: "wednesday", TH: "thursday", FR: "friday", SA: "saturday"};
+		const frequency = recurrenceParts.get("FREQ");
+		const pattern = {
+			type: frequency == "DAILY" ? "daily" : frequency == "WEEKLY" ? "weekly" : frequency == "MONTHLY" ? "absoluteMonthly" : "absoluteYearly",
+			interval: Number(recurrenceParts.get("INTERVAL") ?? 1),
+			daysOfWeek: frequency == "WEEKLY" ?
+				(recurrenceParts.get("BYDAY")?.split(",") ?? [Object.keys(dayNames)[sentence.startDate.getDay()]]).map(dayCode => dayNames[dayCode]) : undefined,
+			dayOfMonth: frequency == "MONTHLY" || frequency == "YEARLY" ? sentence.startDate.getDate() : undefined,
+			month: frequency == "YEARLY" ? sentence.startDate.getMonth() + 1 : undefined
+		};
+		return {pattern, range: {type: "noEnd", startDate: sentence.startDate.toISOString().substring(0, 10)}};
+	}
+
 	private createGenericCalendarEvent(sentence: Sentence): CloudEvent{
 		const cloudUUID = Misc.generateGoogleCloudUUID();
 		return {
@@ -102,7 +312,7 @@ export class CloudEventFactory {
 		})
 	}
 
-	private updateICloudCalendarEvent(cloudEvent: CloudEvent) {
+	private updateICloudCalendarEvent(cloudEvent: CloudEvent, location?: string, description?: string) {
 		const iCloudCalendarEvent = cloudEvent as iCloudCalendarEvent;
 		const arrayStartDate = iCloudMisc.getArrayDate(cloudEvent.cloudEventStartDate);
 		const arrayEndDate = iCloudMisc.getArrayDate(cloudEvent.cloudEventEndDate);
@@ -111,15 +321,76 @@ export class CloudEventFactory {
 		iCloudCalendarEvent.localStartDate = arrayStartDate;
 		iCloudCalendarEvent.localEndDate = arrayEndDate;
 		iCloudCalendarEvent.title = cloudEvent.cloudEventTitle;
+		if (location != undefined) iCloudCalendarEvent.location = location;
+		if (description != undefined) iCloudCalendarEvent.description = description;
 	}
 
-	private updateGoogleCalendarEvent(cloudEvent: CloudEvent) {
+	private updateGoogleCalendarEvent(cloudEvent: CloudEvent, location?: string, description?: string) {
 		const googleCalendarEvent = cloudEvent as GoogleCalendarEvent;
-		const startDateTime = `${cloudEvent.cloudEventStartDate.toISOString()}`
-		const endDateTime = `${cloudEvent.cloudEventEndDate.toISOString()}`
-		googleCalendarEvent.start = {dateTime: startDateTime, timeZone: this.settings.tz};
-		googleCalendarEvent.end = {dateTime: endDateTime, timeZone: this.settings.tz};
+		const allDay = googleCalendarEvent.start?.date != undefined;
+		googleCalendarEvent.start = this.getGoogleDate(cloudEvent.cloudEventStartDate, allDay);
+		googleCalendarEvent.end = this.getGoogleDate(cloudEvent.cloudEventEndDate, allDay);
 		googleCalendarEvent.summary = cloudEvent.cloudEventTitle;
+		if (location != undefined) googleCalendarEvent.location = location;
+		if (description != undefined) googleCalendarEvent.description = description;
+	}
+
+	private updateIcsCalendarEvent(cloudEvent: CloudEvent, location?: string, description?: string) {
+		const icsCalendarEvent = cloudEvent as IcsCalendarEvent;
+		icsCalendarEvent.summary = cloudEvent.cloudEventTitle;
+		if (location != undefined) icsCalendarEvent.location = location;
+		if (description != undefined) icsCalendarEvent.description = description;
+	}
+
+	private updateOutlookCalendarEvent(cloudEvent: CloudEvent, location?: string, description?: string) {
+		const outlookCalendarEvent = cloudEvent as OutlookCalendarEvent;
+		outlookCalendarEvent.start = this.getOutlookDate(cloudEvent.cloudEventStartDate, outlookCalendarEvent.isAllDay);
+		outlookCalendarEvent.end = this.getOutlookDate(cloudEvent.cloudEventEndDate, outlookCalendarEvent.isAllDay);
+		outlookCalendarEvent.subject = cloudEvent.cloudEventTitle;
+		if (location != undefined) outlookCalendarEvent.location = {displayName: location};
+		if (description != undefined) outlookCalendarEvent.body = {contentType: "text", content: description};
+	}
+
+	private updateICloudSentenceFields(iCloudCalendarEvent: iCloudCalendarEvent, sentence: Sentence) {
+		const guid = iCloudCalendarEvent.guid;
+		const invitees = this.getICloudInvitees(sentence, guid);
+		const alarm = this.getICloudAlarm(sentence, guid);
+		iCloudCalendarEvent.allDay = sentence.allDay ?? false;
+		iCloudCalendarEvent.recurrenceMaster = sentence.recurrence != undefined;
+		iCloudCalendarEvent.recurrence = sentence.recurrence == undefined ? undefined : `${guid}*MME-RID`;
+		iCloudCalendarEvent.recurrenceRule = this.getICloudRecurrence(sentence, guid);
+		iCloudCalendarEvent.invitees = invitees?.map(invitee => invitee.guid);
+		iCloudCalendarEvent.inviteeDetails = invitees;
+		iCloudCalendarEvent.alarms = alarm == undefined ? [] : [alarm.guid];
+		iCloudCalendarEvent.alarmDetails = alarm == undefined ? undefined : [alarm];
+	}
+
+	// Patched fields are removed by empty values, not by missing ones
+	private updateGoogleSentenceFields(googleCalendarEvent: GoogleCalendarEvent, sentence: Sentence) {
+		googleCalendarEvent.start = this.getGoogleDate(googleCalendarEvent.cloudEventStartDate, sentence.allDay);
+		googleCalendarEvent.end = this.getGoogleDate(googleCalendarEvent.cloudEventEndDate, sentence.allDay);
+		googleCalendarEvent.recurrence = sentence.recurrence == undefined ? [] : [`RRULE:${sentence.recurrence}`];
+		googleCalendarEvent.attendees = this.getAttendees(sentence).map(attendee => ({email: attendee.email, displayName: attendee.name}));
+		googleCalendarEvent.reminders = this.getGoogleReminders(sentence);
+	}
+
+	private updateIcsSentenceFields(icsCalendarEvent: IcsCalendarEvent, sentence: Sentence) {
+		icsCalendarEvent.allDay = sentence.allDay ?? false;
+		icsCalendarEvent.rrule = sentence.recurrence;
+		icsCalendarEvent.attendees = this.getAttendees(sentence);
+		icsCalendarEvent.reminder = this.getReminder(sentence);
+	}
+
+	private updateOutlookSentenceFields(outlookCalendarEvent: OutlookCalendarEvent, sentence: Sentence) {
+		const reminder = this.getReminder(sentence);
+		outlookCalendarEvent.isAllDay = sentence.allDay ?? false;
+		outlookCalendarEvent.start = this.getOutlookDate(outlookCalendarEvent.cloudEventStartDate, outlookCalendarEvent.isAllDay);
+		outlookCalendarEvent.end = this.getOutlookDate(outlookCalendarEvent.cloudEventEndDate, outlookCalendarEvent.isAllDay);
+		// Graph removes the recurrence only when it's null
+		outlookCalendarEvent.recurrence = this.getOutlookRecurrence(sentence) ?? null;
+		outlookCalendarEvent.attendees = this.getAttendees(sentence).map(attendee => ({emailAddress: {address: attendee.email, name: attendee.name}, type: "required"}));
+		outlookCalendarEvent.isReminderOn = reminder != undefined;
+		outlookCalendarEvent.reminderMinutesBeforeStart = reminder;
 	}
 
 	injectSettings(settings: SettingInterface) {
@@ -9,12 +9,16 @@ export class GoogleCalendarEvent extends CloudEvent {
 	created: string;
 	updated: string;
 	summary: string
+	location?: string;
+	description?: string;
 	creator: { email: string, self: boolean };
 	organizer: { email: string, self: boolean };
 	start: { date?: string, dateTime?: string, timeZone: string };
 	end: { date?:string, dateTime?: string, timeZone: string };
 	magicCalendarUID: string;
 	sequence: number;
-	reminders: { useDefault: boolean };
+	reminders: { useDefault: boolean, overrides?: { method: string, minutes: number }[] };
+	recurrence?: string[];
+	attendees?: { email: string, displayName?: string }[];
 	eventType: string;
 }
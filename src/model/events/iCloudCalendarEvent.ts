@@ -33,6 +33,13 @@ export class iCloudCalendarEvent extends CloudEvent {
 	description: string;
 	location: string;
 	changeRecurring: string | null;
+	// Sent alongside the event when it's a recurrence master
+	recurrenceRule?: iCloudCalendarRecurrence;
+	// Guids of the invitees, sent alongside the event as well
+	invitees?: string[];
+	inviteeDetails?: iCloudCalendarInvitee[];
+	// The alarms field holds their guids
+	alarmDetails?: iCloudCalendarAlarm[];
 }
 
 export interface iCloudCalendarAlarm {
@@ -0,0 +1,26 @@
+import {CloudEvent} from "./cloudEvent";
+import {Attendee} from "../attendee";
+
+export class IcsCalendarEvent extends CloudEvent {
+	uid: string;
+	summary: string;
+	description: string;
+	location: string;
+	allDay: boolean;
+	sequence: number;
+	// RRULE value, without the "RRULE:" prefix
+	rrule?: string;
+	attendees?: Attendee[];
+	// Minutes before the start of the event, written as a VALARM
+	reminder?: number;
+	// Raw VEVENT lines as read from the file, used to preserve the properties the plugin doesn't manage
+	icsLines?: string[];
+	// Original start of the occurrence, set only on the expanded occurrences of recurring events
+	recurrenceId?: Date;
+}
+
+export interface IcsProperty {
+	name: string;
+	params: Record<string, string>;
+	value: string;
+}
@@ -0,0 +1,22 @@
+import {CloudEvent} from "./cloudEvent";
+
+export class OutlookCalendarEvent extends CloudEvent {
+	id: string;
+	subject: string;
+	body: { contentType: string, content: string };
+	start: { dateTime: string, timeZone: string };
+	end: { dateTime: string, timeZone: string };
+	location: { displayName: string };
+	isAllDay: boolean;
+	isReminderOn?: boolean;
+	reminderMinutesBeforeStart?: number;
+	attendees?: { emailAddress: { address: string, name?: string }, type: string }[];
+	recurrence?: {
+		pattern: { type: string, interval: number, daysOfWeek?: string[], dayOfMonth?: number, month?: number },
+		range: { type: string, startDate: string }
+	};
+	webLink: string;
+	iCalUId: string;
+	createdDateTime: string;
+	lastModifiedDateTime: string;
+}
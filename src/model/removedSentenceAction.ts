@@ -0,0 +1,6 @@
+// What to do with a synced event when its sentence is removed (or struck through) from the note
+export enum RemovedSentenceAction {
+	ASK,
+	DELETE,
+	KEEP,
+}
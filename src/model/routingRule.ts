@@ -0,0 +1,15 @@
+export enum RoutingCondition {
+	// Folder path prefix of the note
+	FOLDER,
+	// Tag in the note's frontmatter
+	TAG,
+	// Keyword in the event noun
+	KEYWORD,
+}
+
+export interface RoutingRule {
+	condition: RoutingCondition;
+	value: string;
+	accountId: string;
+	calendar: string;
+}
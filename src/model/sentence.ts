@@ -1,3 +1,5 @@
+import {Attendee} from "./attendee";
+
 export class Sentence {
 	filePath: string;
 	// The whole text value
@@ -6,6 +8,17 @@ export class Sentence {
 	endDate: Date;
 	duration: number;
 	eventNoun: string;
+	allDay: boolean;
+	// RRULE of the recurring events, e.g. "FREQ=WEEKLY;BYDAY=TU,TH"
+	recurrence?: string;
+	// IANA time zone written in the sentence (e.g. "3pm EST"), the dates are already converted to local time
+	timezone?: string;
+	location?: string;
+	attendees?: Attendee[];
+	// Minutes before the start of the event
+	reminder?: number;
+	// Written in the event preview
+	description?: string;
 	static pathSeparator = " - ";
 
 	constructor(filePath: string, value: string) {
@@ -13,17 +26,19 @@ export class Sentence {
 		this.value = value;
 	}
 
-	injectSemanticFields(startDate: Date, endDate: Date, eventNoun: string){
+	injectSemanticFields(startDate: Date, endDate: Date, eventNoun: string, allDay = false){
 		this.startDate = startDate;
 		this.endDate = endDate;
 		this.eventNoun = eventNoun;
+		this.allDay = allDay;
 		this.computeDuration();
 	}
 
 	private computeDuration() {
 		const diffMilli = this.endDate.getTime() - this.startDate.getTime();
 		let diffMins = diffMilli / (1000 * 60);
-		if (diffMins == 0){
+		// Zero-length timed events last one hour, all-day ones already span whole days
+		if (diffMins == 0 && !this.allDay){
 			diffMins = 60;
 			this.endDate = new Date(this.endDate.getTime() + 60 * 60 * 1000);
 		}
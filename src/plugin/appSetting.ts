@@ -1,17 +1,46 @@
-import {App, PluginSettingTab, Setting, TextAreaComponent, TextComponent} from "obsidian";
+import {App, Notice, PluginSettingTab, Setting, TextAreaComponent, TextComponent} from "obsidian";
 import MagicCalendar from "./main";
 import moment, {tz} from "moment-timezone";
 import {CalendarProvider} from "../model/cloudCalendar/calendarProvider";
 import {settingListHTML} from "./settingListHTML";
+import {CalendarAccount} from "../model/cloudCalendar/calendarAccount";
+import {RoutingCondition, RoutingRule} from "../model/routingRule";
+import {RemovedSentenceAction} from "../model/removedSentenceAction";
+import {BannedPattern, BannedPatternScope} from "../model/bannedPattern";
+import {DetectionSensitivity} from "../model/detectionSensitivity";
+import smartDateParser from "../controllers/smartDateParser";
+import {Languages} from "../misc/languages";
+import nlpController from "../controllers/nlpController";
 
 export interface SettingInterface {
 	tz: string;
 	calendar: string;
 	key: string;
 	iv: string;
+	// Legacy single account fields: they're only read to migrate older settings
 	calendarProvider: CalendarProvider;
-	bannedPatterns: string[];
+	accounts: CalendarAccount[];
+	defaultAccountId: string;
+	bannedPatterns: BannedPattern[];
+	// User dictionaries, on top of the built-in ones
+	customEventNouns: string[];
+	customProperNames: string[];
+	// Built-in event nouns and proper names to ignore
+	excludedWords: string[];
+	routingRules: RoutingRule[];
+	detectionSensitivity: DetectionSensitivity;
+	removedSentenceAction: RemovedSentenceAction;
+	// Folder of the notes with the contacts' emails
+	contactsFolder: string;
+	sendInvitations: boolean;
+	// Minutes before the events, -1 to keep the calendar's default
+	defaultReminder: number;
 	customSymbol: string;
+	// Language of the notes: a language code or "auto" to detect it in every note
+	language: string;
+	outlookClientId: string;
+	outlookAuthority: string;
+	outlookGraphEndpoint: string;
 }
 
 export const DEFAULT_SETTINGS: Partial<SettingInterface> = {
@@ -20,31 +49,47 @@ export const DEFAULT_SETTINGS: Partial<SettingInterface> = {
 	key: "none",
 	iv: "none",
 	calendarProvider: CalendarProvider.NOT_SELECTED,
+	accounts: [],
+	defaultAccountId: "",
 	bannedPatterns: [],
-	customSymbol: ""
+	customEventNouns: [],
+	customProperNames: [],
+	excludedWords: [],
+	routingRules: [],
+	detectionSensitivity: DetectionSensitivity.MEDIUM,
+	removedSentenceAction: RemovedSentenceAction.ASK,
+	contactsFolder: "People",
+	sendInvitations: false,
+	defaultReminder: -1,
+	customSymbol: "",
+	language: "en",
+	outlookClientId: "",
+	outlookAuthority: "https://login.microsoftonline.com/common",
+	outlookGraphEndpoint: "https://graph.microsoft.com/v1.0"
 };
 
 export class AppSetting extends PluginSettingTab {
 	plugin: MagicCalendar;
 	retryLogin: boolean;
-	calendarNames: string[]
+	// Map that connects an account id with the names of its calendars
+	calendarNames: Map<string, string[]>;
 	key: string;
 	iv: string;
-	bannedPatternText: TextComponent;
 	bannedListHTML: settingListHTML;
 	customPatternText: TextComponent;
 	customSymbolHTML: settingListHTML;
+	routingRuleHTML: settingListHTML;
 
 
 	constructor(app: App, plugin: MagicCalendar) {
 		super(app, plugin);
 		this.plugin = plugin;
-		this.calendarNames = [];
+		this.calendarNames = new Map<string, string[]>();
 		this.retryLogin = false;
 	}
 
-	updateCalendarDropdown(calendarNames: string[]){
-		this.calendarNames = calendarNames;
+	updateCalendarDropdown(accountId: string, calendarNames: string[]){
+		this.calendarNames.set(accountId, calendarNames);
 	}
 
 	updateEncryption(key: string, iv: string){
@@ -65,22 +110,39 @@ export class AppSetting extends PluginSettingTab {
 				})
 			})
 
-		if (this.calendarNames.length == 0)
+		if (this.plugin.settings.accounts.length == 0)
 			new Setting(containerEl)
 				.setName("Calendar")
 				.addDropdown(dropDown => {
 					dropDown.setDisabled(true);
 				})
-		else new Setting(containerEl)
-			.setName("Calendar")
-			.addDropdown(dropdown => {
-				this.calendarNames.forEach((calendarName) => dropdown.addOption(calendarName, calendarName));
-				dropdown.setValue(this.plugin.settings.calendar);
-				dropdown.onChange(async value => {
-					this.plugin.settings.calendar = value;
-					await this.plugin.updateSettings();
+		this.plugin.settings.accounts.forEach(account => {
+			const calendarNames = this.calendarNames.get(account.id) ?? [];
+			new Setting(containerEl)
+				.setName(`Calendar (${account.name})`)
+				.addDropdown(dropdown => {
+					if (calendarNames.length == 0) dropdown.setDisabled(true);
+					calendarNames.forEach((calendarName) => dropdown.addOption(calendarName, calendarName));
+					dropdown.setValue(account.calendar);
+					dropdown.onChange(async value => {
+						account.calendar = value;
+						await this.plugin.updateSettings();
+					})
+				})
+		})
+
+		if (this.plugin.settings.accounts.length > 1)
+			new Setting(containerEl)
+				.setName("Default account")
+				.setDesc("Account used to sync the events when none is picked")
+				.addDropdown(dropdown => {
+					this.plugin.settings.accounts.forEach(account => dropdown.addOption(account.id, account.name));
+					dropdown.setValue(this.plugin.settings.defaultAccountId);
+					dropdown.onChange(async value => {
+						this.plugin.settings.defaultAccountId = value;
+						await this.plugin.updateSettings();
+					})
 				})
-			})
 
 		new Setting(containerEl)
 			.setName("Encryption key")
@@ -102,6 +164,33 @@ export class AppSetting extends PluginSettingTab {
 				})
 			})
 
+		new Setting(containerEl)
+			.setName("Language")
+			.setDesc("Language of your notes, auto-detection picks it note by note")
+			.addDropdown(dropdown => {
+				dropdown.addOption(Languages.auto, "Auto-detect");
+				Languages.names.forEach((name, code) => dropdown.addOption(code, name));
+				dropdown.setValue(this.plugin.settings.language);
+				dropdown.onChange(async value => {
+					this.plugin.settings.language = value;
+					await this.plugin.updateSettings();
+				})
+			})
+
+		new Setting(containerEl)
+			.setName("Detection sensitivity")
+			.setDesc("Low sensitivity highlights only the sentences with most of the event details (time, people, purpose, place)")
+			.addDropdown(dropdown => {
+				dropdown.addOption(`${DetectionSensitivity.HIGH}`, "High");
+				dropdown.addOption(`${DetectionSensitivity.MEDIUM}`, "Medium");
+				dropdown.addOption(`${DetectionSensitivity.LOW}`, "Low");
+				dropdown.setValue(`${this.plugin.settings.detectionSensitivity}`);
+				dropdown.onChange(async value => {
+					this.plugin.settings.detectionSensitivity = Number(value);
+					await this.plugin.updateSettings();
+				})
+			})
+
 		new Setting(containerEl)
 			.setName("Custom symbol")
 			.addText(async text => {
@@ -113,28 +202,258 @@ export class AppSetting extends PluginSettingTab {
 				})
 			})
 
+		this.displayBannedPatterns(containerEl);
+
+		this.displayDictionary(containerEl, "Event nouns", "Words that define an event, on top of the built-in ones (e.g. retro, 1:1, sprint review)",
+			"Event noun", this.plugin.settings.customEventNouns);
+		this.displayDictionary(containerEl, "Names", "Names of the people you meet, on top of the built-in ones", "Name", this.plugin.settings.customProperNames);
+		this.displayDictionary(containerEl, "Excluded words", "Built-in event nouns and names that should be ignored", "Excluded word", this.plugin.settings.excludedWords);
+
+		this.displayRoutingRules(containerEl);
+
+		new Setting(containerEl)
+			.setName("Removed sentences")
+			.setDesc("What to do with a synced event when its sentence is deleted or struck through")
+			.addDropdown(dropdown => {
+				dropdown.addOption(`${RemovedSentenceAction.ASK}`, "Ask before deleting the event");
+				dropdown.addOption(`${RemovedSentenceAction.DELETE}`, "Delete the event");
+				dropdown.addOption(`${RemovedSentenceAction.KEEP}`, "Keep the event");
+				dropdown.setValue(`${this.plugin.settings.removedSentenceAction}`);
+				dropdown.onChange(async value => {
+					this.plugin.settings.removedSentenceAction = Number(value);
+					await this.plugin.updateSettings();
+				})
+			})
+
+		new Setting(containerEl)
+			.setName("Default reminder")
+			.setDesc("Reminder of the events without an explicit one (e.g. \"remind me 15 minutes before\")")
+			.addDropdown(dropdown => {
+				dropdown.addOption("-1", "Calendar default");
+				[0, 5, 10, 15, 30, 60, 24 * 60].forEach(minutes => dropdown.addOption(`${minutes}`, smartDateParser.describeReminder(minutes)));
+				dropdown.setValue(`${this.plugin.settings.defaultReminder}`);
+				dropdown.onChange(async value => {
+					this.plugin.settings.defaultReminder = Number(value);
+					await this.plugin.updateSettings();
+				})
+			})
+
+		new Setting(containerEl)
+			.setName("Contacts folder")
+			.setDesc("Notes in this folder with an email in their frontmatter are matched with the names in your sentences")
+			.addText(text => {
+				text.setPlaceholder("People")
+				text.setValue(this.plugin.settings.contactsFolder)
+				text.onChange(async value => {
+					this.plugin.settings.contactsFolder = value;
+					await this.plugin.updateSettings();
+				})
+			})
+
+		new Setting(containerEl)
+			.setName("Send invitations")
+			.setDesc("Add the recognised contacts and email addresses as attendees: your calendar provider will invite them")
+			.addToggle(toggle => {
+				toggle.setValue(this.plugin.settings.sendInvitations)
+				toggle.onChange(async value => {
+					this.plugin.settings.sendInvitations = value;
+					await this.plugin.updateSettings();
+				})
+			})
+
+		new Setting(containerEl)
+			.setName("Outlook client ID")
+			.setDesc("Application (client) ID of the app registration used to log in with Microsoft")
+			.addText(text => {
+				text.setPlaceholder("00000000-0000-0000-0000-000000000000")
+				text.setValue(this.plugin.settings.outlookClientId)
+				text.onChange(async value => {
+					this.plugin.settings.outlookClientId = value;
+					await this.plugin.updateSettings();
+				})
+			})
+
+		new Setting(containerEl)
+			.setName("Outlook authority")
+			.addText(text => {
+				text.setValue(this.plugin.settings.outlookAuthority)
+				text.onChange(async value => {
+					this.plugin.settings.outlookAuthority = value;
+					await this.plugin.updateSettings();
+				})
+			})
+
+		new Setting(containerEl)
+			.setName("Graph endpoint")
+			.addText(text => {
+				text.setValue(this.plugin.settings.outlookGraphEndpoint)
+				text.onChange(async value => {
+					this.plugin.settings.outlookGraphEndpoint = value;
+					await this.plugin.updateSettings();
+				})
+			})
+	}
+
+	private displayBannedPatterns(containerEl: HTMLElement){
+		let isRegex = false;
+		let value = "";
+		let scope = BannedPatternScope.LINE;
+		let folder = "";
+
 		new Setting(containerEl)
 			.setName("Ban pattern")
+			.setDesc("Lines matching a banned pattern are ignored. The folder is used by the folder scope only")
+			.addDropdown(dropdown => {
+				dropdown.addOption("literal", "Text");
+				dropdown.addOption("regex", "Regex");
+				dropdown.onChange(kind => isRegex = kind == "regex");
+			})
 			.addText(text => {
-				this.bannedPatternText = text;
 				text.setPlaceholder("Banned pattern")
+				text.onChange(newValue => value = newValue);
+			})
+			.addDropdown(dropdown => {
+				dropdown.addOption(`${BannedPatternScope.LINE}`, "Whole line");
+				dropdown.addOption(`${BannedPatternScope.LINKS_AND_CODE}`, "Links and code");
+				dropdown.addOption(`${BannedPatternScope.FOLDER}`, "Folder");
+				dropdown.onChange(newScope => scope = Number(newScope));
+			})
+			.addText(text => {
+				text.setPlaceholder("Folder")
+				text.onChange(newFolder => folder = newFolder);
 			})
 			.addButton(button => {
 				button.setIcon("plus");
-				button.onClick(click => {
-					const bannedPattern = this.bannedPatternText.getValue();
-					this.bannedListHTML.append(bannedPattern);
-					this.bannedPatternText.setValue("");
+				button.onClick(async () => {
+					if (value.length == 0) return;
+					if (scope == BannedPatternScope.FOLDER && folder.trim().length == 0) return;
+					if (isRegex && !this.isValidRegex(value)){
+						new Notice("🤷 Invalid regular expression");
+						return;
+					}
+					const bannedPattern = {value, isRegex, scope, folder: scope == BannedPatternScope.FOLDER ? folder.trim() : undefined};
+					this.plugin.settings.bannedPatterns.push(bannedPattern);
+					await this.plugin.updateSettings();
+					this.display();
 				})
 			})
 
-		this.bannedListHTML = new settingListHTML(containerEl, this.updateBannedPatterns.bind(this), this.plugin.settings.bannedPatterns)
+		const patternDescriptions = this.plugin.settings.bannedPatterns.map(bannedPattern => this.getBannedPatternDescription(bannedPattern));
+		this.bannedListHTML = new settingListHTML(containerEl, this.updateBannedPatterns.bind(this), patternDescriptions);
 		this.bannedListHTML
 			.build()
 	}
 
-	async updateBannedPatterns(deletedPattern: string){
+	private isValidRegex(value: string): boolean {
+		try {
+			new RegExp(value);
+			return true;
+		} catch (e) {
+			return false;
+		}
+	}
+
+	private getBannedPatternDescription(bannedPattern: BannedPattern): string {
+		const pattern = bannedPattern.isRegex ? `/${bannedPattern.value}/` : `"${bannedPattern.value}"`;
+		if (bannedPattern.scope == BannedPatternScope.LINKS_AND_CODE) return `${pattern} in links and code`;
+		if (bannedPattern.scope == BannedPatternScope.FOLDER) return `${pattern} in folder "${bannedPattern.folder}"`;
+		return pattern;
+	}
+
+	async updateBannedPatterns(deletedDescription: string){
+		const deletedPattern = this.plugin.settings.bannedPatterns.filter(bannedPattern => this.getBannedPatternDescription(bannedPattern) == deletedDescription).first();
+		if (deletedPattern == undefined) return;
 		this.plugin.settings.bannedPatterns.remove(deletedPattern);
 		await this.plugin.updateSettings();
 	}
+
+	// The NLP module learns the dictionaries again whenever they change
+	private displayDictionary(containerEl: HTMLElement, name: string, description: string, placeholder: string, words: string[]){
+		let wordText: TextComponent;
+		const updateDictionary = async () => {
+			await this.plugin.updateSettings();
+			nlpController.init();
+		};
+		new Setting(containerEl)
+			.setName(name)
+			.setDesc(description)
+			.addText(text => {
+				wordText = text;
+				text.setPlaceholder(placeholder)
+			})
+			.addButton(button => {
+				button.setIcon("plus");
+				button.onClick(async click => {
+					const word = wordText.getValue().trim();
+					if (word.length == 0 || words.contains(word)) return;
+					dictionaryHTML.append(word);
+					wordText.setValue("");
+					await updateDictionary();
+				})
+			})
+		const dictionaryHTML = new settingListHTML(containerEl, updateDictionary, words);
+		dictionaryHTML.build();
+	}
+
+	private displayRoutingRules(containerEl: HTMLElement){
+		let condition = RoutingCondition.FOLDER;
+		let value = "";
+		// Targets are encoded as "<accountId>|<calendar>"
+		let target: string;
+		const targets = new Map<string, string>();
+		this.plugin.settings.accounts.forEach(account => {
+			(this.calendarNames.get(account.id) ?? []).forEach(calendarName => {
+				targets.set(`${account.id}|${calendarName}`, `${calendarName} (${account.name})`);
+			})
+		})
+		target = targets.keys().next().value;
+
+		new Setting(containerEl)
+			.setName("Calendar routing")
+			.setDesc("Events matching a rule are synced to its calendar, the first matching rule wins")
+			.addDropdown(dropdown => {
+				dropdown.addOption(`${RoutingCondition.FOLDER}`, "Folder");
+				dropdown.addOption(`${RoutingCondition.TAG}`, "Tag");
+				dropdown.addOption(`${RoutingCondition.KEYWORD}`, "Keyword");
+				dropdown.onChange(newCondition => condition = Number(newCondition));
+			})
+			.addText(text => {
+				text.setPlaceholder("Work/")
+				text.onChange(newValue => value = newValue);
+			})
+			.addDropdown(dropdown => {
+				if (targets.size == 0) dropdown.setDisabled(true);
+				targets.forEach((targetName, targetKey) => dropdown.addOption(targetKey, targetName));
+				dropdown.onChange(newTarget => target = newTarget);
+			})
+			.addButton(button => {
+				button.setIcon("plus");
+				button.onClick(async () => {
+					if (value.trim().length == 0 || target == undefined) return;
+					const splitTarget = target.split("|");
+					const routingRule = {condition, value: value.trim(), accountId: splitTarget[0], calendar: splitTarget.slice(1).join("|")};
+					this.plugin.settings.routingRules.push(routingRule);
+					await this.plugin.updateSettings();
+					this.display();
+				})
+			})
+
+		const ruleDescriptions = this.plugin.settings.routingRules.map(routingRule => this.getRoutingRuleDescription(routingRule));
+		this.routingRuleHTML = new settingListHTML(containerEl, this.updateRoutingRules.bind(this), ruleDescriptions);
+		this.routingRuleHTML
+			.build()
+	}
+
+	private getRoutingRuleDescription(routingRule: RoutingRule): string {
+		const conditionName = RoutingCondition[routingRule.condition].toLowerCase();
+		const accountName = this.plugin.settings.accounts.filter(account => account.id == routingRule.accountId).first()?.name ?? "removed account";
+		return `${conditionName} "${routingRule.value}" → ${routingRule.calendar} (${accountName})`;
+	}
+
+	async updateRoutingRules(deletedDescription: string){
+		const deletedRule = this.plugin.settings.routingRules.filter(routingRule => this.getRoutingRuleDescription(routingRule) == deletedDescription).first();
+		if (deletedRule == undefined) return;
+		this.plugin.settings.routingRules.remove(deletedRule);
+		await this.plugin.updateSettings();
+	}
 }
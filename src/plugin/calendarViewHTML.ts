@@ -46,6 +46,10 @@ export class CalendarViewHTML {
 		wrapper.addClass("magicCalendarTableWrapper")
 		const table = wrapper.createEl("table");
 		table.addClass("magicCalendarTable");
+		if (this.calendarViewData.staleSince != undefined){
+			const staleCaption = table.createEl("caption", {text: `⚠️ Offline - stale as of ${this.calendarViewData.staleSince.toLocaleString()}`});
+			staleCaption.addClass("magicCalendarStaleCaption");
+		}
 		this.generateHeaders(table, true);
 		this.generateRows(table)
 		this.generateHeaders(table);
@@ -0,0 +1,47 @@
+import {App, Modal, Setting} from "obsidian";
+import Event from "../model/event";
+
+// Asks whether a synced event whose sentence has been removed should be deleted from the calendar
+export class DeleteEventModal extends Modal {
+	event: Event;
+	answerCallback: (deleteEvent: boolean) => void;
+	answered: boolean;
+
+	constructor(app: App, event: Event, answerCallback: (deleteEvent: boolean) => void) {
+		super(app);
+		this.event = event;
+		this.answerCallback = answerCallback;
+		this.answered = false;
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.empty();
+		contentEl.addClass("magicCalendarModalSize");
+		contentEl.createEl("h1", {text: "Delete the synced event?"}).addClass("magicCalendarSettingTitle");
+		contentEl.createEl("b", {text: `The sentence of "${this.event.value.cloudEventTitle}" (${this.event.value.cloudEventStartDate.toLocaleString()}) has been removed from the note.`}).addClass("magicCalendarSetting");
+		new Setting(contentEl)
+			.addButton((btn) =>
+				btn
+					.setButtonText("Keep it")
+					.onClick(() => this.answer(false)))
+			.addButton((btn) =>
+				btn
+					.setButtonText("Delete it")
+					.setWarning()
+					.onClick(() => this.answer(true)));
+	}
+
+	private answer(deleteEvent: boolean){
+		this.answered = true;
+		this.answerCallback(deleteEvent);
+		this.close();
+	}
+
+	onClose() {
+		const { contentEl } = this;
+		contentEl.empty();
+		// Closing the modal keeps the event
+		if (!this.answered) this.answerCallback(false);
+	}
+}
@@ -0,0 +1,116 @@
+import {App, Modal, Notice, Setting} from "obsidian";
+import moment from "moment-timezone";
+import {EventEdits} from "../model/eventEdits";
+
+// Lets the user fix the detected event (title, dates, calendar, description) before syncing it
+export class EventPreviewModal extends Modal {
+	edits: EventEdits;
+	allDay: boolean;
+	calendarNames: string[];
+	isUpdate: boolean;
+	syncCallback: (edits: EventEdits) => void;
+
+	constructor(app: App, edits: EventEdits, allDay: boolean, calendarNames: string[], isUpdate: boolean, syncCallback: (edits: EventEdits) => void) {
+		super(app);
+		this.edits = edits;
+		this.allDay = allDay;
+		this.calendarNames = calendarNames;
+		this.isUpdate = isUpdate;
+		this.syncCallback = syncCallback;
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.empty();
+		contentEl.addClass("magicCalendarModalSize");
+		contentEl.createEl("h1", {text: this.isUpdate ? "Update the event" : "Sync the event"}).addClass("magicCalendarSettingTitle");
+
+		// All-day events end at midnight of the following day, the last day is shown instead
+		const inputType = this.allDay ? "date" : "datetime-local";
+		const format = this.allDay ? "YYYY-MM-DD" : "YYYY-MM-DDTHH:mm";
+		const shownEndDate = this.allDay ? moment(this.edits.endDate).subtract(1, "day").toDate() : this.edits.endDate;
+		let title = this.edits.title;
+		let startValue = moment(this.edits.startDate).format(format);
+		let endValue = moment(shownEndDate).format(format);
+		let calendar = this.edits.calendar;
+		let description = this.edits.description;
+
+		new Setting(contentEl)
+			.setName("Title")
+			.addText(text => {
+				text.setValue(title);
+				text.onChange(value => title = value);
+			})
+
+		new Setting(contentEl)
+			.setName("Start")
+			.addText(text => {
+				text.inputEl.type = inputType;
+				text.setValue(startValue);
+				text.onChange(value => startValue = value);
+			})
+
+		new Setting(contentEl)
+			.setName("End")
+			.addText(text => {
+				text.inputEl.type = inputType;
+				text.setValue(endValue);
+				text.onChange(value => endValue = value);
+			})
+
+		// An update can't move the event to another calendar
+		if (this.calendarNames.length > 0 && !this.isUpdate){
+			new Setting(contentEl)
+				.setName("Calendar")
+				.addDropdown(dropdown => {
+					this.calendarNames.forEach(calendarName => dropdown.addOption(calendarName, calendarName));
+					if (calendar != undefined && this.calendarNames.contains(calendar)) dropdown.setValue(calendar);
+					else calendar = dropdown.getValue();
+					dropdown.onChange(value => calendar = value);
+				})
+		}
+
+		new Setting(contentEl)
+			.setName("Description")
+			.addTextArea(text => {
+				text.setValue(description);
+				text.onChange(value => description = value);
+			})
+
+		new Setting(contentEl)
+			.addButton((btn) =>
+				btn
+					.setButtonText("Cancel")
+					.onClick(() => this.close()))
+			.addButton((btn) =>
+				btn
+					.setButtonText(this.isUpdate ? "Update event" : "Sync")
+					.setCta()
+					.onClick(() => {
+						const startDate = moment(startValue, format, true);
+						const endDate = moment(endValue, format, true);
+						if (!startDate.isValid() || !endDate.isValid()){
+							new Notice("🤷 Invalid date");
+							return;
+						}
+						if (endDate.isBefore(startDate)){
+							new Notice("🤷 The event can't end before it starts");
+							return;
+						}
+						if (this.allDay) endDate.add(1, "day");
+						this.syncCallback({
+							title: title.trim().length == 0 ? this.edits.title : title.trim(),
+							startDate: startDate.toDate(),
+							endDate: endDate.toDate(),
+							description,
+							calendar
+						});
+						this.close();
+					}));
+	}
+
+	onClose() {
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+}
@@ -1,16 +1,25 @@
 import {EditorView, WidgetType} from "@codemirror/view";
+import {CalendarAccount} from "../model/cloudCalendar/calendarAccount";
+import {EventEdits} from "../model/eventEdits";
+import {EventPreviewModal} from "./eventPreviewModal";
+import {Misc} from "../misc/misc";
 
 export class HighlightWidget extends WidgetType {
 	sentenceValue: string;
-	eventDetails: {title, dateString, timeString, hasTimeDetails};
-	syncCallback: (sync: boolean) => void;
+	eventDetails: {title, dateString, timeString, hasTimeDetails, timezoneString, recurrenceString, location, attendees, reminderString, confidence, accountId, calendar, isUpdate, startDate, endDate, allDay, description};
+	syncCallback: (sync: boolean, accountId?: string, calendar?: string, edits?: EventEdits) => void;
+	accounts: CalendarAccount[];
+	// Map that connects an account id with the names of its calendars
+	calendarNames: Map<string, string[]>;
 	markClass: string;
 
-	constructor(sentenceValue: string, eventDetails:  {title, dateString, timeString, hasTimeDetails}, syncCallback: (sync: boolean) => void) {
+	constructor(sentenceValue: string, eventDetails:  {title, dateString, timeString, hasTimeDetails, timezoneString, recurrenceString, location, attendees, reminderString, confidence, accountId, calendar, isUpdate, startDate, endDate, allDay, description}, syncCallback: (sync: boolean, accountId?: string, calendar?: string, edits?: EventEdits) => void, accounts: CalendarAccount[], calendarNames: Map<string, string[]>) {
 		super();
 		this.sentenceValue = sentenceValue;
 		this.eventDetails = eventDetails;
 		this.syncCallback = syncCallback;
+		this.accounts = accounts;
+		this.calendarNames = calendarNames;
 		this.markClass = "highlightedTextStatic";
 	}
 
@@ -55,14 +64,120 @@ export class HighlightWidget extends WidgetType {
 			timeContent.innerText = ` ${this.eventDetails.timeString} `;
 		}
 
+		// The time above is the local one, this is the time written in the sentence
+		if (this.eventDetails.timezoneString != undefined){
+			const timezoneIcon = grid.createEl("span");
+			timezoneIcon.addClass("magicCalendarIconBar");
+			timezoneIcon.innerText = " 🌐 ";
+
+			const timezoneContent = grid.createEl("span");
+			timezoneContent.addClass("magicCalendarEventDataBar");
+			timezoneContent.innerText = ` ${this.eventDetails.timezoneString} `;
+		}
+
+		if (this.eventDetails.recurrenceString != undefined){
+			const recurrenceIcon = grid.createEl("span");
+			recurrenceIcon.addClass("magicCalendarIconBar");
+			recurrenceIcon.innerText = " 🔁 ";
+
+			const recurrenceContent = grid.createEl("span");
+			recurrenceContent.addClass("magicCalendarEventDataBar");
+			recurrenceContent.innerText = ` ${this.eventDetails.recurrenceString} `;
+		}
+
+		if (this.eventDetails.location != undefined){
+			const locationIcon = grid.createEl("span");
+			locationIcon.addClass("magicCalendarIconBar");
+			locationIcon.innerText = " 📍 ";
+
+			const locationContent = grid.createEl("span");
+			locationContent.addClass("magicCalendarEventDataBar");
+			locationContent.innerText = ` ${this.eventDetails.location} `;
+		}
+
+		if (this.eventDetails.attendees != undefined){
+			const attendeesIcon = grid.createEl("span");
+			attendeesIcon.addClass("magicCalendarIconBar");
+			attendeesIcon.innerText = " 👥 ";
+
+			const attendeesContent = grid.createEl("span");
+			attendeesContent.addClass("magicCalendarEventDataBar");
+			attendeesContent.innerText = ` ${this.eventDetails.attendees} `;
+		}
+
+		if (this.eventDetails.reminderString != undefined){
+			const reminderIcon = grid.createEl("span");
+			reminderIcon.addClass("magicCalendarIconBar");
+			reminderIcon.innerText = " ⏰ ";
+
+			const reminderContent = grid.createEl("span");
+			reminderContent.addClass("magicCalendarEventDataBar");
+			reminderContent.innerText = ` ${this.eventDetails.reminderString} `;
+		}
+
+		const confidenceIcon = grid.createEl("span");
+		confidenceIcon.addClass("magicCalendarIconBar");
+		confidenceIcon.innerText = " 🎯 ";
+
+		const confidenceContent = grid.createEl("span");
+		confidenceContent.addClass("magicCalendarEventDataBar");
+		confidenceContent.innerText = ` ${this.eventDetails.confidence}% confidence `;
+
+		// The target account can be picked only when there is more than one
+		let accountSelect: HTMLSelectElement;
+		if (this.accounts.length > 1){
+			const accountIcon = grid.createEl("span");
+			accountIcon.addClass("magicCalendarIconBar");
+			accountIcon.innerText = " 👤 ";
+
+			accountSelect = grid.createEl("select");
+			accountSelect.addClass("magicCalendarEventDataBar");
+			accountSelect.addClass("magicCalendarAccountSelect");
+			this.accounts.forEach(account => accountSelect.createEl("option", {text: account.name, value: account.id}));
+			if (this.eventDetails.accountId != undefined) accountSelect.value = this.eventDetails.accountId;
+		}
+
+		const calendarIcon = grid.createEl("span");
+		calendarIcon.addClass("magicCalendarIconBar");
+		calendarIcon.innerText = " 🗂️ ";
+
+		const calendarSelect = grid.createEl("select");
+		calendarSelect.addClass("magicCalendarEventDataBar");
+		calendarSelect.addClass("magicCalendarAccountSelect");
+		this.fillCalendarSelect(calendarSelect, accountSelect?.value ?? this.eventDetails.accountId);
+		accountSelect?.addEventListener("change", () => this.fillCalendarSelect(calendarSelect, accountSelect.value));
+		// An update can't move the event to another calendar
+		if (this.eventDetails.isUpdate){
+			if (accountSelect) accountSelect.disabled = true;
+			calendarSelect.disabled = true;
+		}
+
 		const row = bubble.createEl("div");
 		row.addClass("magicCalendarGridRow");
 
 		const buttonSync = row.createEl("button")
-		buttonSync.innerText = "Sync";
+		buttonSync.innerText = this.eventDetails.isUpdate ? "Update event" : "Sync";
 		buttonSync.addClass("magicCalendarSyncButton");
 		buttonSync.onClickEvent(() => {
-			this.syncCallback(true);
+			this.syncCallback(true, accountSelect?.value, calendarSelect.value || undefined);
+		})
+
+		// The detected values can be fixed before syncing
+		const buttonEdit = row.createEl("button")
+		buttonEdit.addClass("magicCalendarSyncButton");
+		buttonEdit.innerText = "Edit";
+		buttonEdit.onClickEvent(() => {
+			const accountId = accountSelect?.value ?? this.eventDetails.accountId;
+			const edits = {
+				title: this.eventDetails.title,
+				startDate: this.eventDetails.startDate,
+				endDate: this.eventDetails.endDate,
+				description: this.eventDetails.description ?? "",
+				calendar: calendarSelect.value || undefined
+			};
+			new EventPreviewModal(Misc.app, edits, this.eventDetails.allDay, this.calendarNames.get(accountId) ?? [], this.eventDetails.isUpdate, editedValues => {
+				this.syncCallback(true, accountSelect?.value, editedValues.calendar, editedValues);
+			}).open();
 		})
 
 		const buttonNoSync = row.createEl("button")
@@ -74,4 +189,16 @@ export class HighlightWidget extends WidgetType {
 
 		return magicCalendarNavUL;
 	}
+
+	// Lists the calendars of the account, preselecting the routed one or the one selected in the settings
+	private fillCalendarSelect(calendarSelect: HTMLSelectElement, accountId: string){
+		calendarSelect.empty();
+		const calendarNames = this.calendarNames.get(accountId) ?? [];
+		calendarSelect.disabled = calendarNames.length == 0;
+		calendarNames.forEach(calendarName => calendarSelect.createEl("option", {text: calendarName, value: calendarName}));
+		const routedCalendar = accountId == this.eventDetails.accountId ? this.eventDetails.calendar : undefined;
+		const configuredCalendar = this.accounts.filter(account => account.id == accountId).first()?.calendar;
+		if (calendarNames.contains(routedCalendar)) calendarSelect.value = routedCalendar;
+		else if (calendarNames.contains(configuredCalendar)) calendarSelect.value = configuredCalendar;
+	}
 }
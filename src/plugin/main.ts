@@ -1,6 +1,6 @@
-import {Plugin} from 'obsidian';
+import {debounce, Debouncer, Editor, MarkdownView, Notice, Plugin, TAbstractFile, TFile} from 'obsidian';
 import {StatusModal} from "./modal";
-import {PluginValue} from "@codemirror/view";
+import {EditorView, PluginValue} from "@codemirror/view";
 import {Misc} from "../misc/misc";
 import {join} from "path";
 import {AppSetting, DEFAULT_SETTINGS, SettingInterface} from "./appSetting";
@@ -10,6 +10,8 @@ import nlpController from "../controllers/nlpController";
 import safeController from "../controllers/safeController";
 import eventController from "../controllers/eventController";
 import calendarViewController from "../controllers/calendarViewController";
+import cacheController from "../controllers/cacheController";
+import contactController from "../controllers/contactController";
 import {CloudEventFactory} from "../model/events/cloudEventFactory";
 import {CalendarProvider} from "../model/cloudCalendar/calendarProvider";
 import {CloudController} from "../controllers/cloudController";
@@ -17,14 +19,24 @@ import {CloudStatus} from "../model/cloudCalendar/cloudStatus";
 import {GoogleCalendarController} from "../controllers/googleCalendarController";
 import nlpPlugin from "./nlpExtension";
 import {iCalendarController} from "../controllers/iCalendarController";
+import {IcsCalendarController} from "../controllers/icsCalendarController";
+import {CaldavCalendarController} from "../controllers/caldavCalendarController";
+import {OutlookCalendarController} from "../controllers/outlookCalendarController";
+import {CalendarAccount} from "../model/cloudCalendar/calendarAccount";
+import {BannedPattern, BannedPatternScope} from "../model/bannedPattern";
 
 export default class MagicCalendar extends Plugin implements PluginValue{
-	private _cloudController: CloudController;
+	// Map that connects an account id with the controller of its provider
+	private readonly _cloudControllers: Map<string, CloudController> = new Map<string, CloudController>();
+	// Account going through the login flow (a new one, or a stored one asking for 2FA)
+	private _currentAccount: CalendarAccount;
 	private _cloudEventFactory: CloudEventFactory;
 	private _appSetting: AppSetting;
 	settings: SettingInterface;
 	private _pluginPath: string;
 	private _statusModal: StatusModal;
+	// Map that connects a note path with its pending removed sentences check
+	private readonly _removedSentenceChecks: Map<string, Debouncer<[TFile], Promise<void>>> = new Map<string, Debouncer<[TFile], Promise<void>>>();
 
 	async onload() {
 
@@ -55,9 +67,11 @@ export default class MagicCalendar extends Plugin implements PluginValue{
 		nlpController.injectSettings(this.settings);
 		safeController.injectPath(this._pluginPath);
 		safeController.injectSettings(this.settings);
-		safeController.injectCalendarProvider(this.settings.calendarProvider);
+		cacheController.injectPath(this._pluginPath);
 		eventController.injectPath(this._pluginPath);
+		eventController.injectSettings(this.settings);
 		eventController.injectCloudControllerFactory(this._cloudEventFactory);
+		contactController.injectSettings(this.settings);
 	}
 
 	private initState() {
@@ -65,34 +79,158 @@ export default class MagicCalendar extends Plugin implements PluginValue{
 		Misc.fetchCred();
 		nplController.init();
 		eventController.init();
-		this._statusModal = new StatusModal(this.app, this.selectProviderCallback, this.submitCredentialsCallback, this.submitMfaCallback, this);
+		cacheController.init();
+		this._statusModal = new StatusModal(this.app, this.selectProviderCallback, this.submitCredentialsCallback, this.submitMfaCallback, this.removeAccountCallback, this);
+		this._statusModal.accounts = this.settings.accounts;
 		this.updateStatus(CloudStatus.NOT_STARTED);
 	}
 
 	private manageRegistrations(){
 		this.registerEditorExtension(nlpPlugin)
+		this.registerCommands();
 		this.registerMarkdownPostProcessor(calendarViewController.getMarkdownPostProcessor);
 		this.addRibbonIcon("calendar-clock", "MagicCalendar", () => {
 			this._statusModal.open();
 		});
+		this.registerEvent(this.app.vault.on("modify", async (file: TAbstractFile) => {
+			if (!(file instanceof TFile) || file.extension != "md") return;
+			this.getRemovedSentenceCheck(file.path)(file);
+		}));
+		this.registerEvent(this.app.vault.on("delete", (file: TAbstractFile) => {
+			if (file instanceof TFile && file.extension == "md"){
+				this._removedSentenceChecks.get(file.path)?.cancel();
+				this._removedSentenceChecks.delete(file.path);
+				eventController.checkRemovedSentences(file.path, "");
+			}
+			contactController.invalidate();
+		}));
+		// Contacts can be added, edited or renamed at any time
+		this.registerEvent(this.app.metadataCache.on("changed", () => contactController.invalidate()));
+		this.registerEvent(this.app.vault.on("rename", () => contactController.invalidate()));
+	}
+
+	// Hotkey-bindable alternatives to the event bubble
+	private registerCommands() {
+		this.addCommand({
+			id: "sync-event-at-cursor",
+			name: "Sync event at cursor",
+			editorCallback: (editor: Editor) => this.processEventAtCursor(editor, true)
+		});
+		this.addCommand({
+			id: "ignore-event-at-cursor",
+			name: "Ignore event at cursor",
+			editorCallback: (editor: Editor) => this.processEventAtCursor(editor, false)
+		});
+		this.addCommand({
+			id: "sync-all-events",
+			name: "Sync all detected events in current note",
+			editorCallback: (editor: Editor) => {
+				const editorView = this.getEditorView(editor);
+				const nlpPluginValue = editorView?.plugin(nlpPlugin);
+				if (nlpPluginValue == undefined) return;
+				const detections = nlpPluginValue.detectEvents(editorView, 0, editorView.state.doc.length);
+				if (detections.length == 0){
+					new Notice("🤷 There are no events to sync in this note");
+					return;
+				}
+				detections.forEach(detection => nlpPluginValue.processDetection(detection, true));
+				editorView.setState(editorView.state);
+			}
+		});
+		this.addCommand({
+			id: "rescan-current-note",
+			name: "Re-scan current note",
+			editorCallback: (editor: Editor) => {
+				const editorView = this.getEditorView(editor);
+				editorView?.setState(editorView.state);
+			}
+		});
+	}
+
+	private processEventAtCursor(editor: Editor, sync: boolean) {
+		const editorView = this.getEditorView(editor);
+		const nlpPluginValue = editorView?.plugin(nlpPlugin);
+		if (nlpPluginValue == undefined) return;
+		const cursor = editorView.state.selection.main.head;
+		const line = editorView.state.doc.lineAt(cursor);
+		const detection = nlpPluginValue.detectEvents(editorView, line.from, line.to)
+			.filter(detection => cursor >= detection.sentenceFrom && cursor <= detection.sentenceTo).first();
+		if (detection == undefined){
+			new Notice("🤷 There is no event at the cursor");
+			return;
+		}
+		nlpPluginValue.processDetection(detection, sync);
+		editorView.setState(editorView.state);
+	}
+
+	// While typing, the check runs once the note has been left alone for a couple of seconds
+	private getRemovedSentenceCheck(filePath: string): Debouncer<[TFile], Promise<void>> {
+		let removedSentenceCheck = this._removedSentenceChecks.get(filePath);
+		if (removedSentenceCheck == undefined){
+			removedSentenceCheck = debounce(async (file: TFile) => {
+				eventController.checkRemovedSentences(file.path, await this.app.vault.cachedRead(file));
+			}, 2000, true);
+			this._removedSentenceChecks.set(filePath, removedSentenceCheck);
+		}
+		return removedSentenceCheck;
+	}
+
+	// The CodeMirror view behind the Obsidian editor, only when it belongs to the active note
+	private getEditorView(editor: Editor): EditorView | undefined {
+		const activeEditor = this.app.workspace.getActiveViewOfType(MarkdownView)?.editor;
+		if (activeEditor != editor) return undefined;
+		return activeEditor.cm;
 	}
 
 	async checkLogin() {
-		if(safeController.checkSafe()){
-			const auth = safeController.getCredentials();
-			this.inferCalendar(auth);
-			const cloudStatus = await this._cloudController.tryAuthentication(auth);
-			this.updateStatus(cloudStatus);
+		await this.migrateLegacyAccount();
+		for (const account of this.settings.accounts) {
+			if (!safeController.checkSafe(account)) continue;
+			const cloudController = this.createCloudController(account);
+			const cloudStatus = await cloudController.tryAuthentication(safeController.getCredentials(account.id));
+			this.updateStatus(cloudStatus, account);
 		}
 	}
 
-	private inferCalendar(auth: Map<string, string>) {
-		if (this._cloudController != undefined) return;
-		if (auth.get("tokenType") != undefined) this._cloudController = new GoogleCalendarController();
-		else if (auth.get("magicCalendarSyncUsername") != undefined) this._cloudController = new iCalendarController();
+	// Before multiple accounts were supported, a single provider was stored in the settings
+	private async migrateLegacyAccount() {
+		if (this.settings.accounts.length > 0 || this.settings.calendarProvider == CalendarProvider.NOT_SELECTED) return;
+		const account = this.createAccount(this.settings.calendarProvider);
+		account.calendar = this.settings.calendar;
+		safeController.migrateLegacyCredentials(account.id);
+		this.settings.accounts.push(account);
+		this.settings.defaultAccountId = account.id;
+		this.settings.calendarProvider = CalendarProvider.NOT_SELECTED;
+		await this.saveSettings();
+	}
+
+	private createAccount(calendarProvider: CalendarProvider): CalendarAccount {
+		const providerName = CalendarProvider[calendarProvider].charAt(0) + CalendarProvider[calendarProvider].substring(1).toLowerCase();
+		return {
+			id: Misc.generateGoogleCloudUUID(),
+			provider: calendarProvider,
+			name: providerName,
+			calendar: "none"
+		};
+	}
+
+	private createCloudController(account: CalendarAccount): CloudController {
+		const cloudController = this.getCloudController(account.provider);
+		cloudController.injectPath(this._pluginPath);
+		cloudController.injectAccountId(account.id);
+		cloudController.injectSettings(this.getAccountSettings(account));
+		this._cloudControllers.set(account.id, cloudController);
+		return cloudController;
+	}
+
+	// Each controller sees the settings as if its account was the only one
+	private getAccountSettings(account: CalendarAccount): SettingInterface {
+		return {...this.settings, calendarProvider: account.provider, calendar: account.calendar};
 	}
 
 	async onunload() {
+		this._removedSentenceChecks.forEach(removedSentenceCheck => removedSentenceCheck.cancel());
+		this._cloudControllers.forEach(cloudController => cloudController.stopPushNotifications?.());
 		Misc.bindListeners.forEach(bindListener => {
 			bindListener.doc.removeEventListener(bindListener.type, bindListener.eventCallback);
 		})
@@ -100,56 +238,90 @@ export default class MagicCalendar extends Plugin implements PluginValue{
 
 	async loadSettings() {
 		this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
+		this.migrateLegacyBannedPatterns();
+	}
+
+	// Banned patterns used to be plain strings, matched anywhere in the line
+	private migrateLegacyBannedPatterns() {
+		const bannedPatterns = this.settings.bannedPatterns as (BannedPattern | string)[];
+		this.settings.bannedPatterns = bannedPatterns.map(bannedPattern => typeof bannedPattern == "string" ?
+			{value: bannedPattern, isRegex: false, scope: BannedPatternScope.LINE} : bannedPattern);
 	}
 
 	async saveSettings() {
 		await this.saveData(this.settings);
 	}
 
-	private updateStatus(status: CloudStatus){
-		this._statusModal.updateModal(status);
-		if (status == CloudStatus.PROVIDER_SELECTED || status == CloudStatus.LOGGED){
-			eventController.injectCloudController(this._cloudController);
-			this._statusModal.selectedProvider = this.settings.calendarProvider;
-			this.updateSettings();
-		}
+	private updateStatus(status: CloudStatus, account?: CalendarAccount){
+		if (status == CloudStatus.PROVIDER_SELECTED) this._statusModal.selectedProvider = account.provider;
+		if (status == CloudStatus.MFA_REQ) this._currentAccount = account;
 		if (status == CloudStatus.LOGGED){
-			this._cloudController.preloadData().then(() => {
-				this._appSetting.updateCalendarDropdown(this._cloudController.getCalendarNames());
+			if (!this.settings.accounts.contains(account)) this.settings.accounts.push(account);
+			if (this.getAccount(this.settings.defaultAccountId) == undefined) this.settings.defaultAccountId = account.id;
+			const cloudController = this._cloudControllers.get(account.id);
+			eventController.injectCloudController(account.id, cloudController);
+			this.updateSettings();
+			cloudController.preloadData().then(() => {
+				this._appSetting.updateCalendarDropdown(account.id, cloudController.getCalendarNames());
 			});
-			this._cloudController.managePushNotifications();
+			cloudController.managePushNotifications();
+			// Another account is still waiting for its 2FA code
+			if (this._statusModal.cloudStatus == CloudStatus.MFA_REQ && account != this._currentAccount) return;
 		}
+		this._statusModal.updateModal(status);
 	}
 
 	private async selectProviderCallback(calendarProvider: CalendarProvider, ref: any){
-		ref.settings.calendarProvider = calendarProvider;
 		if (calendarProvider == CalendarProvider.NOT_SELECTED){
-			ref._cloudController = undefined;
-			ref.deleteCredentials();
-			await ref.saveSettings();
-			ref.updateStatus(CloudStatus.NOT_STARTED);
+			// The login of the new account has been aborted
+			if (ref._currentAccount != undefined && !ref.settings.accounts.contains(ref._currentAccount)){
+				ref._cloudControllers.delete(ref._currentAccount.id);
+				safeController.deleteCredentials(ref._currentAccount.id);
+			}
+			ref._currentAccount = undefined;
+			ref._statusModal.updateModal(ref.settings.accounts.length == 0 ? CloudStatus.NOT_STARTED : CloudStatus.LOGGED);
 			return;
 		}
-		ref._cloudController = ref.getCloudController(calendarProvider);
-		ref._cloudController.injectPath(ref._pluginPath);
-		ref._cloudController.injectSettings(ref.settings);
-
-		await ref.saveSettings();
-		ref.updateStatus(CloudStatus.PROVIDER_SELECTED);
+		ref._currentAccount = ref.createAccount(calendarProvider);
+		ref.createCloudController(ref._currentAccount);
+		ref.updateStatus(CloudStatus.PROVIDER_SELECTED, ref._currentAccount);
 	}
 	
 	private async submitCredentialsCallback(submitObject: any, ref: any): Promise<boolean> {
-		const status = await ref._cloudController.tryAuthentication(submitObject);
-		ref.updateStatus(status);
+		const account: CalendarAccount = ref._currentAccount;
+		const accountName = submitObject?.get("magicCalendarSyncUsername") ?? submitObject?.get("caldavUsername") ?? submitObject?.get("icsFilePath");
+		if (accountName) account.name += ` - ${accountName}`;
+		const status = await ref._cloudControllers.get(account.id).tryAuthentication(submitObject);
+		ref.updateStatus(status, account);
 		return status != CloudStatus.ERROR;
 	}
 
 	private async submitMfaCallback(code: string, ref: any): Promise<boolean> {
-		const status = await ref._cloudController.MFACallback(code);
-		ref.updateStatus(status);
+		const account: CalendarAccount = ref._currentAccount;
+		const status = await ref._cloudControllers.get(account.id).MFACallback(code);
+		ref.updateStatus(status, account);
 		return status != CloudStatus.ERROR;
 	}
 
+	private async removeAccountCallback(accountId: string, ref: any){
+		const account: CalendarAccount = ref.getAccount(accountId);
+		if (account == undefined) return;
+		ref.settings.accounts.remove(account);
+		ref.settings.routingRules = ref.settings.routingRules.filter(routingRule => routingRule.accountId != accountId);
+		if (ref.settings.defaultAccountId == accountId) ref.settings.defaultAccountId = ref.settings.accounts.first()?.id ?? "";
+		ref._cloudControllers.get(accountId)?.stopPushNotifications?.();
+		ref._cloudControllers.delete(accountId);
+		eventController.removeCloudController(accountId);
+		safeController.deleteCredentials(accountId);
+		cacheController.forgetAccount(account);
+		await ref.updateSettings();
+		ref._statusModal.updateModal(ref.settings.accounts.length == 0 ? CloudStatus.NOT_STARTED : CloudStatus.LOGGED);
+	}
+
+	private getAccount(accountId: string): CalendarAccount | undefined {
+		return this.settings.accounts.filter(account => account.id == accountId).first();
+	}
+
 	private async checkEncryption(){
 		if (this.settings.key == "none" || this.settings.iv == "none"){
 			const key = randomBytes(32);
@@ -164,7 +336,11 @@ export default class MagicCalendar extends Plugin implements PluginValue{
 	public async updateSettings(){
 		safeController.injectSettings(this.settings);
 		nlpController.injectSettings(this.settings);
-		this._cloudController.injectSettings(this.settings);
+		eventController.injectSettings(this.settings);
+		contactController.injectSettings(this.settings);
+		this.settings.accounts.forEach(account => {
+			this._cloudControllers.get(account.id)?.injectSettings(this.getAccountSettings(account));
+		})
 		this._cloudEventFactory.injectSettings(this.settings);
 		await this.saveSettings();
 	}
@@ -172,11 +348,8 @@ export default class MagicCalendar extends Plugin implements PluginValue{
 	private getCloudController(calendarProvider: CalendarProvider) {
 		if (calendarProvider == CalendarProvider.APPLE) return new iCalendarController();
 		else if (calendarProvider == CalendarProvider.GOOGLE) return new GoogleCalendarController();
-	}
-
-	private deleteCredentials(){
-		Misc.credentialKeyList.forEach(key => {
-			if(localStorage.getItem(key) != undefined) localStorage.removeItem(key);
-		})
+		else if (calendarProvider == CalendarProvider.ICS) return new IcsCalendarController();
+		else if (calendarProvider == CalendarProvider.CALDAV) return new CaldavCalendarController();
+		else if (calendarProvider == CalendarProvider.OUTLOOK) return new OutlookCalendarController();
 	}
 }
@@ -3,13 +3,16 @@ import {Misc} from "src/misc/misc";
 import {CloudStatus} from "../model/cloudCalendar/cloudStatus";
 import {CalendarProvider} from "../model/cloudCalendar/calendarProvider";
 import {Media} from "../misc/media";
+import {CalendarAccount} from "../model/cloudCalendar/calendarAccount";
 
 export class StatusModal extends Modal {
 	selectProviderCallback: (calendarProvider: CalendarProvider, ref: any) => void;
     submitCredentialsCallback: (submitObject: any, ref: any) => Promise<boolean>;
 	submitMfaCallback: (code: string, ref: any) => Promise<boolean>;
+	removeAccountCallback: (accountId: string, ref: any) => Promise<void>;
 	cloudStatus: CloudStatus;
 	selectedProvider: CalendarProvider;
+	accounts: CalendarAccount[];
 	ref: any;
 	processing: boolean;
 
@@ -17,11 +20,14 @@ export class StatusModal extends Modal {
 				selectProviderCallback: (calendarProvider: CalendarProvider, ref: any) => void,
 				submitCredentialsCallback: (submitObject: any, ref: any) => Promise<boolean>,
 				submitMfaCallback: (code: string, ref: any) => Promise<boolean>,
+				removeAccountCallback: (accountId: string, ref: any) => Promise<void>,
 				ref: any){
         super(app);
 		this.selectProviderCallback = selectProviderCallback;
         this.submitCredentialsCallback = submitCredentialsCallback;
 		this.submitMfaCallback = submitMfaCallback;
+		this.removeAccountCallback = removeAccountCallback;
+		this.accounts = [];
 		this.cloudStatus = CloudStatus.NOT_STARTED;
 		this.ref = ref;
 		this.processing = false;
@@ -37,6 +43,15 @@ export class StatusModal extends Modal {
 		else if(this.cloudStatus == CloudStatus.PROVIDER_SELECTED && this.selectedProvider == CalendarProvider.GOOGLE){
 			this.loadGoogleTemporaryScreen();
 		}
+		else if(this.cloudStatus == CloudStatus.PROVIDER_SELECTED && this.selectedProvider == CalendarProvider.ICS){
+			this.loadIcsLogin();
+		}
+		else if(this.cloudStatus == CloudStatus.PROVIDER_SELECTED && this.selectedProvider == CalendarProvider.CALDAV){
+			this.loadCaldavLogin();
+		}
+		else if(this.cloudStatus == CloudStatus.PROVIDER_SELECTED && this.selectedProvider == CalendarProvider.OUTLOOK){
+			this.loadOutlookScreen();
+		}
 		else if (this.cloudStatus == CloudStatus.MFA_REQ){
 			this.loadMFA();
 		}
@@ -67,6 +82,21 @@ export class StatusModal extends Modal {
 		const googleIcon = googleButton.createEl("img");
 		googleIcon.addClass("magicCalendarServiceIcon");
 		googleIcon.setAttribute("src", Media.getBase64GoogleIcon());
+		const icsButton = serviceProviderRow.createEl("div");
+		icsButton.addClass("magicCalendarServiceProviderButton");
+		const icsIcon = icsButton.createEl("img");
+		icsIcon.addClass("magicCalendarServiceIcon");
+		icsIcon.setAttribute("src", Media.getBase64IcsIcon());
+		const caldavButton = serviceProviderRow.createEl("div");
+		caldavButton.addClass("magicCalendarServiceProviderButton");
+		const caldavIcon = caldavButton.createEl("img");
+		caldavIcon.addClass("magicCalendarServiceIcon");
+		caldavIcon.setAttribute("src", Media.getBase64CaldavIcon());
+		const outlookButton = serviceProviderRow.createEl("div");
+		outlookButton.addClass("magicCalendarServiceProviderButton");
+		const outlookIcon = outlookButton.createEl("img");
+		outlookIcon.addClass("magicCalendarServiceIcon");
+		outlookIcon.setAttribute("src", Media.getBase64OutlookIcon());
 
 		appleButton.onClickEvent(() => {
 			this.selectedProvider = CalendarProvider.APPLE;
@@ -77,6 +107,21 @@ export class StatusModal extends Modal {
 			this.selectedProvider = CalendarProvider.GOOGLE;
 			this.selectProviderCallback(this.selectedProvider, this.ref);
 		})
+
+		icsButton.onClickEvent(() => {
+			this.selectedProvider = CalendarProvider.ICS;
+			this.selectProviderCallback(this.selectedProvider, this.ref);
+		})
+
+		caldavButton.onClickEvent(() => {
+			this.selectedProvider = CalendarProvider.CALDAV;
+			this.selectProviderCallback(this.selectedProvider, this.ref);
+		})
+
+		outlookButton.onClickEvent(() => {
+			this.selectedProvider = CalendarProvider.OUTLOOK;
+			this.selectProviderCallback(this.selectedProvider, this.ref);
+		})
 	}
 
 	loadAppleLogin(){
@@ -128,6 +173,106 @@ export class StatusModal extends Modal {
 		submitButton.settingEl.addClass("magicCalendarSetting")
 	}
 
+	loadIcsLogin(){
+		let icsFilePath: string;
+		const { contentEl } = this;
+		contentEl.empty();
+		const flexBox = contentEl.createEl("div");
+		flexBox.addClass("magicCalendarTitleFlexBox");
+		const goBackButton = new Setting(flexBox).addButton((btn) =>
+			btn
+				.setIcon("arrow-big-left")
+				.setCta()
+				.onClick(() => {
+					this.selectedProvider = CalendarProvider.NOT_SELECTED;
+					this.selectProviderCallback(this.selectedProvider, this.ref);
+					this.loadServiceProviderSelection();
+				}));
+		goBackButton.settingEl.addClass("magicCalendarGoBackButton");
+		const title = flexBox.createEl("h1", {text: "Select your calendar file"});
+		title.addClass("magicCalendarSettingTitle");
+		flexBox.createEl("div");
+
+		const pathSetting = new Setting(contentEl)
+			.setName("ICS file path")
+			.setDesc("Relative to the vault root, it will be created if it doesn't exist")
+			.addText((text) => text
+				.setPlaceholder("Calendar/calendar.ics")
+				.onChange((newText) => icsFilePath = newText));
+		pathSetting.settingEl.addClass("magicCalendarSetting")
+		const submitButton = new Setting(contentEl)
+			.addButton((btn) =>
+				btn
+					.setButtonText("Submit")
+					.setCta()
+					.onClick(() => {
+						const auth = new Map<string, string>();
+						auth.set("icsFilePath", icsFilePath);
+						this.submitCredentialsCallback(auth, this.ref).then(success => {
+							if (!success) this.error();
+						})
+						this.loading();
+					}));
+		submitButton.settingEl.addClass("magicCalendarSetting")
+	}
+
+	loadCaldavLogin(){
+		let serverUrl: string;
+		let username: string;
+		let pw: string;
+		const { contentEl } = this;
+		contentEl.empty();
+		const flexBox = contentEl.createEl("div");
+		flexBox.addClass("magicCalendarTitleFlexBox");
+		const goBackButton = new Setting(flexBox).addButton((btn) =>
+			btn
+				.setIcon("arrow-big-left")
+				.setCta()
+				.onClick(() => {
+					this.selectedProvider = CalendarProvider.NOT_SELECTED;
+					this.selectProviderCallback(this.selectedProvider, this.ref);
+					this.loadServiceProviderSelection();
+				}));
+		goBackButton.settingEl.addClass("magicCalendarGoBackButton");
+		const title = flexBox.createEl("h1", {text: "Insert your CalDAV credentials"});
+		title.addClass("magicCalendarSettingTitle");
+		flexBox.createEl("div");
+
+		const serverUrlSetting = new Setting(contentEl)
+			.setName("Server URL")
+			.addText((text) => text
+				.setPlaceholder("https://cloud.example.com/remote.php/dav")
+				.onChange((newText) => serverUrl = newText));
+		serverUrlSetting.settingEl.addClass("magicCalendarSetting")
+		const usernameSetting = new Setting(contentEl)
+			.setName("Username")
+			.addText((text) => text.onChange((newText) => username = newText));
+		usernameSetting.settingEl.addClass("magicCalendarSetting")
+		const passwordSetting = new Setting(contentEl)
+			.setName("App password")
+			.addText((text) => text.onChange((newText) => {
+				pw = newText;
+				text.inputEl.type = "password";
+			}))
+		passwordSetting.settingEl.addClass("magicCalendarSetting")
+		const submitButton = new Setting(contentEl)
+			.addButton((btn) =>
+				btn
+					.setButtonText("Submit")
+					.setCta()
+					.onClick(() => {
+						const auth = new Map<string, string>();
+						auth.set("caldavServerUrl", serverUrl);
+						auth.set("caldavUsername", username);
+						auth.set("caldavPassword", pw);
+						this.submitCredentialsCallback(auth, this.ref).then(success => {
+							if (!success) this.error();
+						})
+						this.loading();
+					}));
+		submitButton.settingEl.addClass("magicCalendarSetting")
+	}
+
 	loadGoogleTemporaryScreen(){
 		const { contentEl } = this;
 		contentEl.empty();
@@ -152,11 +297,38 @@ export class StatusModal extends Modal {
 				.setButtonText("Continue")
 				.setCta()
 				.onClick(() => {
-					this.loadGoogleLogin();
+					this.loadOAuthLogin();
 				}));
 	}
 
-	loadGoogleLogin(){
+	loadOutlookScreen(){
+		const { contentEl } = this;
+		contentEl.empty();
+		const flexBox = contentEl.createEl("div");
+		flexBox.addClass("magicCalendarTitleFlexBox");
+		const goBackButton = new Setting(flexBox).addButton((btn) =>
+			btn
+				.setIcon("arrow-big-left")
+				.setCta()
+				.onClick(() => {
+					this.selectedProvider = CalendarProvider.NOT_SELECTED;
+					this.selectProviderCallback(this.selectedProvider, this.ref);
+					this.loadServiceProviderSelection();
+				}));
+		goBackButton.settingEl.addClass("magicCalendarGoBackButton");
+		contentEl.createEl("h1", {text: "Log in with Microsoft"}).addClass("magicCalendarSettingTitle");
+		contentEl.createEl("b", {text: `The login uses the application (client) ID and the endpoints in the plugin settings.`}).addClass("magicCalendarSetting");
+		contentEl.createEl("b", {text: `The application must allow public client flows with http://localhost as redirect URI.`}).addClass("magicCalendarSetting");
+		new Setting(contentEl).addButton((btn) =>
+			btn
+				.setButtonText("Continue")
+				.setCta()
+				.onClick(() => {
+					this.loadOAuthLogin();
+				}));
+	}
+
+	loadOAuthLogin(){
 		this.submitCredentialsCallback(null, this.ref).then(success => {
 			if (!success) this.error();
 		})
@@ -216,20 +388,24 @@ export class StatusModal extends Modal {
 		loginStatusRow.addClass("magicCalendarLoggedInSummaryRow");
 		loginStatusRow.createEl("h5", {text: "Status: "});
 		loginStatusRow.createEl("h5", {text: " Logged in 🟢"})
-		const calendarProviderRow = contentEl.createEl("div");
-		calendarProviderRow.addClass("magicCalendarLoggedInSummaryRow");
-		calendarProviderRow.createEl("h5", {text: `Calendar provider:`});
-		if (this.selectedProvider == undefined) return;
-		let calendarProviderString = CalendarProvider[this.selectedProvider].toLowerCase();
-		calendarProviderString = calendarProviderString.charAt(0).toUpperCase() + calendarProviderString.substring(1);
-		calendarProviderRow.createEl("h5", {text: `${calendarProviderString}`});
+		contentEl.createEl("h5", {text: `Accounts:`});
+		this.accounts.forEach(account => {
+			const accountSetting = new Setting(contentEl)
+				.setName(account.name)
+				.addButton((btn) =>
+					btn
+						.setButtonText("Remove")
+						.onClick(() => {
+							this.removeAccountCallback(account.id, this.ref);
+						}));
+			accountSetting.settingEl.addClass("magicCalendarSetting");
+		})
 		new Setting(contentEl).addButton((btn) =>
 			btn
-				.setButtonText("Change calendar")
+				.setButtonText("Add account")
 				.setCta()
 				.onClick(() => {
 					this.selectedProvider = CalendarProvider.NOT_SELECTED;
-					this.selectProviderCallback(this.selectedProvider, this.ref);
 					this.loadServiceProviderSelection();
 				}));
 	}
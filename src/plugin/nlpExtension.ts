@@ -6,8 +6,17 @@ import { Sentence } from "../model/sentence";
 import eventController from "../controllers/eventController";
 import Event from "../model/event";
 import { Misc } from "../misc/misc";
+import smartDateParser from "../controllers/smartDateParser";
+import { ensureSyntaxTree, syntaxTree } from "@codemirror/language";
+import { EventEdits } from "../model/eventEdits";
+import { EventDetection } from "../model/eventDetection";
 
-class NLPPlugin implements PluginValue {
+// Syntax tree nodes that aren't prose: their lines are skipped (e.g. fenced code, <magic> blocks, frontmatter)
+const nonProseLineNodes = /code-?block|frontmatter|table|quote|html/;
+// Their text is ignored, the rest of the line is processed (link texts and wikilinks are kept)
+const nonProseInlineNodes = /inline-code|url/;
+
+export class NLPPlugin implements PluginValue {
 	decorations: DecorationSet;
 
 	constructor(view: EditorView) {
@@ -21,18 +30,15 @@ class NLPPlugin implements PluginValue {
 	}
 
 	buildDecorations(view: EditorView): DecorationSet {
-		const filePath = Misc.getCurrentFilePath();
 		const builder = new RangeSetBuilder<Decoration>();
-		const documentLines = view.state.doc.slice(view.viewport.from, view.viewport.to).toJSON();
-		documentLines.some((line, i) => {
-			const matches = nplController.process(new Sentence(filePath, line));
-			if(!matches) return false;
-			const eventDetailString = this.getEventDetail(matches.event);
+		this.detectEvents(view, view.viewport.from, view.viewport.to).forEach(detection => {
+			const matches = detection.matches;
+			const eventDetailString = this.getEventDetail(matches.event, matches.confidence, matches.syncedEvent);
 			matches.selection.forEach(match => {
-				const matchMetadata = this.getMatchTextMetadata(documentLines, view.viewport.from, i, line, match);
+				const matchMetadata = this.getMatchTextMetadata(detection, match);
 				if(!matchMetadata) return;
-				const decoration = this.getDecoration(matches.selection, match, matchMetadata, (sync) => {
-					eventController.processEvent(filePath, sync);
+				const decoration = this.getDecoration(matches.selection, match, matchMetadata, (sync, accountId, calendar, edits) => {
+					this.processDetection(detection, sync, accountId, calendar, edits);
 					view.setState(view.state);
 				}, eventDetailString);
 				try{
@@ -45,24 +51,90 @@ class NLPPlugin implements PluginValue {
 					// Nothing to see here
 				}
 			});
-			return true;
 		})
 		return builder.finish();
 	}
 
+	// The events written in the lines between from and to, used by the decorations and by the editor commands
+	detectEvents(view: EditorView, from: number, to: number): EventDetection[] {
+		const filePath = Misc.getCurrentFilePath();
+		const documentText = view.state.doc.toString();
+		const nonProseRanges = this.getNonProseRanges(view, from, to);
+		const detections: EventDetection[] = [];
+		const lastLineNumber = view.state.doc.lineAt(to).number;
+		for (let lineNumber = view.state.doc.lineAt(from).number; lineNumber <= lastLineNumber; lineNumber++){
+			if (nonProseRanges.lineNumbers.has(lineNumber)) continue;
+			const documentLine = view.state.doc.line(lineNumber);
+			const line = this.maskInlineRanges(documentLine.from, documentLine.text, nonProseRanges.inlineRanges);
+			// Every sentence of the line can be an event on its own
+			let sentenceOffset = 0;
+			nplController.splitSentences(line).forEach(sentenceValue => {
+				const sentenceIndex = line.indexOf(sentenceValue, sentenceOffset);
+				if (sentenceIndex == -1) return;
+				sentenceOffset = sentenceIndex + sentenceValue.length;
+				const matches = nplController.process(new Sentence(filePath, sentenceValue), documentText);
+				if(!matches) return;
+				detections.push({filePath, line, lineFrom: documentLine.from, sentenceFrom: documentLine.from + sentenceIndex, sentenceTo: documentLine.from + sentenceOffset, matches});
+			})
+		}
+		return detections;
+	}
+
+	processDetection(detection: EventDetection, sync: boolean, accountId?: string, calendar?: string, edits?: EventEdits) {
+		const matches = detection.matches;
+		if (edits != undefined) eventController.applyEventEdits(matches.event, edits);
+		// Edited synced sentence: the existing event is updated instead of creating a new one
+		if (sync && matches.syncedEvent) eventController.updateEditedEvent(matches.syncedEvent, matches.event);
+		else eventController.processEvent(detection.filePath, sync, accountId, calendar, matches.event);
+	}
+
 	destroy() {
 		// ...
 	}
 
-	private getMatchTextMetadata(documentLines: string[], viewPortFrom: number, currentIndex: number, line: string, match: {value, index, type}): {startsFrom, endsTo, capitalizedMatch} | null {
-		let previousChars = viewPortFrom;
-		for (let j=0; j < currentIndex; j++){
-			previousChars += documentLines[j].length + 1;
+	private getNonProseRanges(view: EditorView, from: number, to: number): {lineNumbers: Set<number>, inlineRanges: {from: number, to: number}[]} {
+		const lineNumbers = new Set<number>();
+		const inlineRanges: {from: number, to: number}[] = [];
+		// The tree can be parsed only up to the viewport (e.g. the "sync all" command scans the whole note)
+		const tree = ensureSyntaxTree(view.state, to, 500) ?? syntaxTree(view.state);
+		// If the parse doesn't finish in time, the lines past the parsed part can't be told apart from code: they are skipped
+		if (tree.length < to){
+			const lastLineNumber = view.state.doc.lineAt(to).number;
+			for (let lineNumber = view.state.doc.lineAt(tree.length).number; lineNumber <= lastLineNumber; lineNumber++) lineNumbers.add(lineNumber);
 		}
-		const indexOfMatch = line.toLowerCase().indexOf(match.value.toLowerCase());
+		tree.iterate({
+			from,
+			to,
+			enter: node => {
+				if (nonProseLineNodes.test(node.name)){
+					const fromLine = view.state.doc.lineAt(node.from).number;
+					const toLine = view.state.doc.lineAt(node.to).number;
+					for (let lineNumber = fromLine; lineNumber <= toLine; lineNumber++) lineNumbers.add(lineNumber);
+				}
+				else if (nonProseInlineNodes.test(node.name)) inlineRanges.push({from: node.from, to: node.to});
+			}
+		});
+		return {lineNumbers, inlineRanges};
+	}
+
+	// Inline non-prose text is replaced by white spaces: the match positions don't change
+	private maskInlineRanges(lineFrom: number, line: string, inlineRanges: {from: number, to: number}[]): string {
+		const chars = line.split("");
+		inlineRanges.forEach(inlineRange => {
+			const from = Math.max(inlineRange.from - lineFrom, 0);
+			const to = Math.min(inlineRange.to - lineFrom, chars.length);
+			for (let j = from; j < to; j++) chars[j] = " ";
+		})
+		return chars.join("");
+	}
+
+	private getMatchTextMetadata(detection: EventDetection, match: {value, index, type}): {startsFrom, endsTo, capitalizedMatch} | null {
+		const line = detection.line;
+		// The match is looked for in its own sentence
+		const indexOfMatch = line.toLowerCase().indexOf(match.value.toLowerCase(), detection.sentenceFrom - detection.lineFrom);
 		if(indexOfMatch == -1) return null;
 		const capitalizedMatch = line.substring(indexOfMatch, indexOfMatch + match.value.length)
-		const startsFrom = previousChars + indexOfMatch;
+		const startsFrom = detection.lineFrom + indexOfMatch;
 		const endsTo = startsFrom + match.value.length;
 		return {
 			startsFrom,
@@ -72,17 +144,23 @@ class NLPPlugin implements PluginValue {
 	}
 
 
-	private getDecoration(matches: {value, index, type}[], match: {value, index, type}, matchMetadata: { startsFrom; endsTo; capitalizedMatch }, highlightWidgetCallback: (sync: boolean) => void, eventDetailString): Decoration {
+	private getDecoration(matches: {value, index, type}[], match: {value, index, type}, matchMetadata: { startsFrom; endsTo; capitalizedMatch }, highlightWidgetCallback: (sync: boolean, accountId?: string, calendar?: string, edits?: EventEdits) => void, eventDetailString): Decoration {
 		let decoration = Decoration.mark({
 			tagName: "span",
 			class: "underlinedTextDynamic"
 			});
 		//let widget: WidgetType = new HighlightWidget(matchMetadata.capitalizedMatch, eventDetailString, highlightWidgetCallback , this.widgetFirstLoad);
-		const isExplicitDatePresent = matches.filter(match => match.type == "date" || match.type == "ordinalDate" || match.type == "ordinalDateReverse").length > 0;
+		const explicitDateTypes = ["date", "dateInterval", "ordinalDate", "ordinalDateReverse"];
+		const isExplicitDatePresent = matches.filter(match => explicitDateTypes.contains(match.type)).length > 0;
+		const isTimePresent = matches.filter(match => match.type == "timeRange" || match.type == "exactTime").length > 0;
 		// If there is no explicit date, highlight the exactTime/timeRange
 		// e.g.: At 2 o'clock I'll join a meeting  <-  2 o'clock should be highlighted
-		if((isExplicitDatePresent &&  (match.type == "date" || match.type == "ordinalDate" || match.type == "ordinalDateReverse")) || (!isExplicitDatePresent && (match.type == "timeRange" || match.type == "exactTime"))){
-			const widget = new HighlightWidget(matchMetadata.capitalizedMatch, eventDetailString, highlightWidgetCallback);
+		// If there is neither, highlight the recurrence (e.g. Gym every tuesday)
+		if((isExplicitDatePresent && explicitDateTypes.contains(match.type)) || (!isExplicitDatePresent && (match.type == "timeRange" || match.type == "exactTime")) ||
+			(!isExplicitDatePresent && !isTimePresent && match.type == "recurrence")){
+			const accounts = eventController.getAccounts();
+			const calendarNames = new Map<string, string[]>(accounts.map(account => [account.id, eventController.getCalendarNames(account.id)]));
+			const widget = new HighlightWidget(matchMetadata.capitalizedMatch, eventDetailString, highlightWidgetCallback, accounts, calendarNames);
 			decoration = Decoration.replace({
 				widget
 			});
@@ -90,10 +168,12 @@ class NLPPlugin implements PluginValue {
 		return decoration;
 	}
 
-	private getEventDetail(event: Event): {title, dateString, timeString, hasTimeDetails} {
+	private getEventDetail(event: Event, confidence: number, syncedEvent?: Event): {title, dateString, timeString, hasTimeDetails, timezoneString, recurrenceString, location, attendees, reminderString, confidence, accountId, calendar, isUpdate, startDate, endDate, allDay, description} {
 		const title = event.value.cloudEventTitle;
 		const startDate = event.value.cloudEventStartDate;
-		const endDate = event.value.cloudEventEndDate;
+		const allDay = event.sentence?.allDay ?? false;
+		// All-day events end at midnight of the following day
+		const endDate = allDay ? new Date(event.value.cloudEventEndDate.getTime() - 24 * 60 * 60 * 1000) : event.value.cloudEventEndDate;
 
 		const startDateString = `${startDate.getFullYear()}/${Misc.fromSingleToDoubleDigit(startDate.getMonth() + 1)}/${Misc.fromSingleToDoubleDigit(startDate.getDate())}`
 		const endDateString = `${endDate.getFullYear()}/${Misc.fromSingleToDoubleDigit(endDate.getMonth() + 1)}/${Misc.fromSingleToDoubleDigit(endDate.getDate())}`;
@@ -103,16 +183,34 @@ class NLPPlugin implements PluginValue {
 		let dateString = startDateString;
 		if (startDateString != endDateString) dateString += ` -  ${endDateString}`;
 
-		let timeString = startTimeString;
-		if(startTimeString != endTimeString) timeString += ` - ${endTimeString}`;
+		let timeString = allDay ? "All day" : startTimeString;
+		if(!allDay && startTimeString != endTimeString) timeString += ` - ${endTimeString}`;
 
-		const hasTimeDetails = startTimeString != "00:00";
+		const hasTimeDetails = allDay || startTimeString != "00:00";
+		const recurrence = event.sentence?.recurrence;
+		const timezone = event.sentence?.timezone;
+		if (timezone != undefined && !allDay) timeString += " (local)";
+		const attendees = event.sentence?.attendees ?? [];
+		const reminder = event.sentence?.reminder;
 
 		return {
 			title,
 			dateString,
 			timeString,
-			hasTimeDetails
+			hasTimeDetails,
+			timezoneString: timezone == undefined || allDay ? undefined : smartDateParser.describeTimezone(startDate, event.value.cloudEventEndDate, timezone),
+			recurrenceString: recurrence == undefined ? undefined : smartDateParser.describeRecurrence(recurrence),
+			location: event.sentence?.location,
+			reminderString: reminder == undefined ? undefined : smartDateParser.describeReminder(reminder),
+			attendees: attendees.length == 0 ? undefined : attendees.map(attendee => attendee.name ?? attendee.email).join(", "),
+			confidence,
+			accountId: syncedEvent?.value.accountId ?? event.value.accountId,
+			calendar: syncedEvent?.calendar ?? event.calendar,
+			isUpdate: syncedEvent != undefined,
+			startDate,
+			endDate: event.value.cloudEventEndDate,
+			allDay,
+			description: event.sentence?.description
 		};
 	}
 }